@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+// ==================== TYPES ====================
+
+export type QueueResult<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  /** Not started because the queue was cancelled */
+  | { status: 'cancelled' };
+
+export interface QueueOptions {
+  /** Checked before starting each item; running items are not interrupted */
+  isCancelled?: () => boolean;
+  /** Called after every finished item with the number done so far */
+  onSettled?: (done: number, total: number) => void;
+}
+
+export const DEFAULT_IMAGE_GLOB = '**/*.{png,jpg,jpeg,webp,gif,bmp}';
+
+// ==================== QUEUE ====================
+
+/**
+ * Run `worker` on every item with at most `concurrency` items in flight.
+ * Results are in the order of `items`; a failing item does not stop the others.
+ */
+export async function runQueue<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: QueueOptions = {}
+): Promise<QueueResult<R>[]> {
+  const results: QueueResult<R>[] = items.map(() => ({ status: 'cancelled' }));
+  let next = 0;
+  let done = 0;
+
+  const run = async () => {
+    while (next < items.length && !options.isCancelled?.()) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      options.onSettled?.(++done, items.length);
+    }
+  };
+
+  const workers = Math.min(Math.max(Math.round(concurrency) || 1, 1), Math.max(items.length, 1));
+  await Promise.all(Array.from({ length: workers }, run));
+  return results;
+}
+
+// ==================== SELECTION ====================
+
+/**
+ * Files of an explorer selection, with folders expanded to the files under
+ * them matching `include` and not `exclude`. Paths are de-duplicated and
+ * sorted per folder.
+ */
+export async function expandSelection(uris: vscode.Uri[], include: string, exclude: string): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (const uri of uris) {
+    if (!fs.statSync(uri.fsPath).isDirectory()) {
+      paths.push(uri.fsPath);
+      continue;
+    }
+
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, include), exclude || undefined);
+    paths.push(...files.map(f => f.fsPath).sort((a, b) => a.localeCompare(b)));
+  }
+
+  return [...new Set(paths)];
+}
+
+/** True when any of the URIs is a folder */
+export function hasFolder(uris: vscode.Uri[]): boolean {
+  return uris.some(uri => fs.existsSync(uri.fsPath) && fs.statSync(uri.fsPath).isDirectory());
+}
+
@@ -0,0 +1,413 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { embedProvenance, PROVENANCE_TOOL } from './provenance';
+import { ImageInput, ImageProvider, ImageRequestOptions } from './providers';
+import { describeNoImage } from './safety';
+import { escapeHtml, getErrorMessage, getExtensionForMimeType } from './types';
+
+export interface EditSessionOptions {
+  imagePath: string;
+  sourceImage: ImageInput;
+  provider: ImageProvider;
+  options: ImageRequestOptions;
+  /** Directory for intermediate results, deleted when the session closes */
+  storageDir: string;
+  /** Write the prompts that led to a step into the saved image file */
+  embedMetadata: boolean;
+  /** Ask where to save a step, proposing the output format */
+  showSaveDialog(defaultPath: string): Promise<vscode.Uri | undefined>;
+  /**
+   * Write a step with the output format, quality and size settings, keeping
+   * an overwritten file as a version. `stamp` embeds metadata after any
+   * transcoding. Returns the path written.
+   */
+  writeOutput(savePath: string, data: Buffer, stamp: (data: Buffer) => Buffer): Promise<string>;
+}
+
+interface SessionStep {
+  id: number;
+  /** Step this one was created from; undefined for the original image */
+  parentId?: number;
+  prompt: string;
+  text: string;
+  imagePath: string;
+  /** Conversation up to and including this step */
+  snapshot?: unknown;
+}
+
+/**
+ * Multi-turn editing webview. Every step keeps the conversation that led to
+ * it, so the user can continue from the latest result or branch from any
+ * earlier step.
+ */
+export class EditSession {
+  public static readonly viewType = 'nanoBananaEditSession';
+
+  private readonly steps: SessionStep[] = [];
+  private busy = false;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly session: EditSessionOptions) {
+    this.steps.push({ id: 0, prompt: 'Original', text: '', imagePath: session.imagePath });
+    fs.mkdirSync(session.storageDir, { recursive: true });
+
+    panel.onDidDispose(() => fs.rmSync(session.storageDir, { recursive: true, force: true }));
+    panel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.command) {
+        case 'send':
+          await this.send(message.prompt as string, message.fromId as number);
+          break;
+        case 'save':
+          await this.save(message.id as number);
+          break;
+      }
+    });
+
+    panel.webview.html = this.getHtml();
+  }
+
+  public static start(session: EditSessionOptions): EditSession {
+    const panel = vscode.window.createWebviewPanel(
+      EditSession.viewType,
+      `Edit Session - ${path.basename(session.imagePath)}`,
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [
+          vscode.Uri.file(path.dirname(session.imagePath)),
+          vscode.Uri.file(session.storageDir)
+        ]
+      }
+    );
+
+    return new EditSession(panel, session);
+  }
+
+  private async send(prompt: string, fromId: number) {
+    const parent = this.steps[fromId];
+    if (!prompt?.trim() || !parent || this.busy) return;
+
+    this.busy = true;
+    try {
+      const chat = this.session.provider.startChat(this.session.options, parent.snapshot);
+      // The original image starts the conversation; later turns already have it in their history
+      const result = await chat.send(prompt, parent.id === 0 ? this.session.sourceImage : undefined);
+
+      if (!result.image) {
+        this.panel.webview.postMessage({ command: 'failed', message: describeNoImage(result, true) });
+        return;
+      }
+
+      const id = this.steps.length;
+      const imagePath = path.join(this.session.storageDir, `step-${id}${getExtensionForMimeType(result.image.mimeType)}`);
+      fs.writeFileSync(imagePath, Buffer.from(result.image.data, 'base64'));
+
+      const step: SessionStep = { id, parentId: parent.id, prompt, text: result.text, imagePath, snapshot: chat.snapshot() };
+      this.steps.push(step);
+      this.panel.webview.postMessage({ command: 'addStep', step: this.toWebviewStep(step) });
+    } catch (error) {
+      this.panel.webview.postMessage({ command: 'failed', message: getErrorMessage(error) });
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private withProvenance(data: Buffer, step: SessionStep): Buffer {
+    if (!this.session.embedMetadata || step.id === 0) return data;
+
+    // Instructions of every step from the original up to the parent
+    const previousPrompts: string[] = [];
+    for (let earlier = this.steps[step.parentId ?? 0]; earlier && earlier.id !== 0; earlier = this.steps[earlier.parentId ?? 0]) {
+      previousPrompts.unshift(earlier.prompt);
+    }
+
+    try {
+      return embedProvenance(data, {
+        tool: PROVENANCE_TOOL,
+        operation: 'edit',
+        provider: this.session.provider.id,
+        model: this.session.options.model,
+        aspectRatio: this.session.options.aspectRatio,
+        resolution: this.session.options.resolution,
+        prompt: step.prompt,
+        previousPrompts,
+        sources: [vscode.workspace.asRelativePath(this.session.imagePath)],
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Nano Banana: Failed to embed provenance:', error);
+      return data;
+    }
+  }
+
+  private async save(id: number) {
+    const step = this.steps[id];
+    if (!step) return;
+
+    const baseName = path.basename(this.session.imagePath, path.extname(this.session.imagePath));
+    const saveUri = await this.session.showSaveDialog(path.join(path.dirname(this.session.imagePath), `${baseName}_step${id}.png`));
+
+    if (!saveUri) return;
+
+    try {
+      const savedPath = await this.session.writeOutput(saveUri.fsPath, fs.readFileSync(step.imagePath), data => this.withProvenance(data, step));
+      vscode.window.showInformationMessage(`Step #${id} saved to: ${savedPath}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save step: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private toWebviewStep(step: SessionStep) {
+    return {
+      id: step.id,
+      parentId: step.parentId,
+      prompt: step.prompt,
+      text: step.text,
+      uri: this.panel.webview.asWebviewUri(vscode.Uri.file(step.imagePath)).toString()
+    };
+  }
+
+  private getHtml(): string {
+    const title = `Edit Session - ${path.basename(this.session.imagePath)}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      background: #1e1e1e;
+      color: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      display: flex;
+      flex-direction: column;
+      height: 100vh;
+      box-sizing: border-box;
+    }
+    h1 {
+      font-size: 18px;
+      color: #ffd700;
+      margin: 0 0 10px 0;
+    }
+    .viewer {
+      flex: 1;
+      min-height: 0;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+    }
+    .viewer img {
+      max-width: 100%;
+      max-height: 55vh;
+      object-fit: contain;
+      border-radius: 8px;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
+    }
+    .caption {
+      margin-top: 10px;
+      max-width: 700px;
+      font-size: 13px;
+      color: #aaa;
+      text-align: center;
+    }
+    .caption strong {
+      color: #fff;
+    }
+    .filmstrip {
+      display: flex;
+      gap: 10px;
+      overflow-x: auto;
+      padding: 12px 0;
+    }
+    .frame {
+      flex-shrink: 0;
+      width: 110px;
+      background: #2d2d2d;
+      border: 3px solid transparent;
+      border-radius: 6px;
+      padding: 4px;
+      cursor: pointer;
+      font-size: 11px;
+      color: #aaa;
+    }
+    .frame.selected {
+      border-color: #ffd700;
+    }
+    .frame img {
+      width: 100%;
+      height: 80px;
+      object-fit: cover;
+      border-radius: 3px;
+      display: block;
+    }
+    .frame .label {
+      margin-top: 4px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .branch {
+      color: #4da3ff;
+    }
+    .composer {
+      display: flex;
+      gap: 8px;
+      align-items: flex-end;
+    }
+    textarea {
+      flex: 1;
+      min-height: 48px;
+      background: #2d2d2d;
+      color: #fff;
+      border: 1px solid #454545;
+      border-radius: 4px;
+      padding: 8px;
+      font-family: inherit;
+      resize: vertical;
+    }
+    .btn {
+      padding: 8px 16px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      background: #444;
+      color: white;
+    }
+    .btn-primary {
+      background: #b8860b;
+    }
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+    .status {
+      font-size: 12px;
+      color: #888;
+      margin-bottom: 6px;
+    }
+    .status.error {
+      color: #ff6b6b;
+    }
+  </style>
+</head>
+<body>
+  <h1>🍌 ${escapeHtml(title)}</h1>
+
+  <div class="viewer">
+    <img id="current" alt="Selected step" />
+    <div class="caption" id="caption"></div>
+    <button class="btn" id="save" onclick="save()" style="margin-top: 8px;">💾 Save This Step</button>
+  </div>
+
+  <div class="filmstrip" id="filmstrip"></div>
+
+  <div class="status" id="status"></div>
+  <div class="composer">
+    <textarea id="prompt" placeholder="Describe the next change... (Ctrl+Enter to send)"></textarea>
+    <button class="btn btn-primary" id="send" onclick="send()">Send</button>
+  </div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    const steps = [];
+    let selectedId = 0;
+    let busy = false;
+
+    function addStep(step) {
+      steps[step.id] = step;
+      const frame = document.createElement('div');
+      frame.className = 'frame';
+      frame.id = 'frame-' + step.id;
+      const isBranch = step.parentId !== undefined && step.parentId !== step.id - 1;
+      frame.innerHTML = \`
+        <img src="\${step.uri}" alt="Step \${step.id}" />
+        <div class="label">#\${step.id} \${isBranch ? '<span class="branch">⑂ from #' + step.parentId + '</span>' : ''}</div>
+      \`;
+      frame.title = step.prompt;
+      frame.addEventListener('click', () => select(step.id));
+      document.getElementById('filmstrip').appendChild(frame);
+      select(step.id);
+      frame.scrollIntoView({ inline: 'end' });
+    }
+
+    function select(id) {
+      selectedId = id;
+      const step = steps[id];
+      document.querySelectorAll('.frame').forEach(f => f.classList.remove('selected'));
+      document.getElementById('frame-' + id).classList.add('selected');
+      document.getElementById('current').src = step.uri;
+      const caption = document.getElementById('caption');
+      caption.innerHTML = '';
+      const strong = document.createElement('strong');
+      strong.textContent = id === 0 ? 'Original image' : '#' + id + ': ' + step.prompt;
+      caption.appendChild(strong);
+      if (step.text) {
+        caption.appendChild(document.createElement('br'));
+        caption.appendChild(document.createTextNode(step.text));
+      }
+      document.getElementById('save').style.visibility = id === 0 ? 'hidden' : 'visible';
+      updateStatus();
+    }
+
+    function updateStatus(message, isError) {
+      const status = document.getElementById('status');
+      status.classList.toggle('error', !!isError);
+      if (message) {
+        status.textContent = message;
+        return;
+      }
+      const isLatest = selectedId === steps.length - 1;
+      status.textContent = selectedId === 0
+        ? 'Editing the original image'
+        : (isLatest ? 'Continuing from #' + selectedId : 'Branching from #' + selectedId);
+    }
+
+    function send() {
+      const input = document.getElementById('prompt');
+      const prompt = input.value.trim();
+      if (!prompt || busy) return;
+      busy = true;
+      document.getElementById('send').disabled = true;
+      updateStatus('Generating from #' + selectedId + '...');
+      vscode.postMessage({ command: 'send', prompt, fromId: selectedId });
+    }
+
+    function save() {
+      vscode.postMessage({ command: 'save', id: selectedId });
+    }
+
+    function done() {
+      busy = false;
+      document.getElementById('send').disabled = false;
+    }
+
+    document.getElementById('prompt').addEventListener('keydown', e => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        send();
+      }
+    });
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.command === 'addStep') {
+        done();
+        document.getElementById('prompt').value = '';
+        addStep(message.step);
+      } else if (message.command === 'failed') {
+        done();
+        updateStatus(message.message, true);
+      }
+    });
+
+    addStep(${JSON.stringify(this.toWebviewStep(this.steps[0]))});
+  </script>
+</body>
+</html>`;
+  }
+}
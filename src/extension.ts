@@ -1,14 +1,82 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { GoogleGenAI } from '@google/genai';
 import { Jimp } from 'jimp';
+import { DEFAULT_IMAGE_GLOB, expandSelection, hasFolder, runQueue } from './bulk';
+import { EditSession } from './editSession';
+import { VariationGallery } from './gallery';
+import { HistoryEntry, HistoryOperation, HistoryStore, HistoryTreeProvider } from './history';
 import { BananaImageEditorProvider } from './imageEditor';
+import { CanvasPadding, compositeWithMask, extendCanvas, getClosestAspectRatio, getMaskBounds, getPaddingForAspectRatio, readImage } from './inpaint';
+import { formatElapsed, getCommandRun, Job, JobCancelledError, JobManager, JobScope, JobsTreeProvider, runInCommand, TrackedProvider } from './jobs';
+import {
+  getLockKey,
+  isManifestFile,
+  isUpToDate,
+  MANIFEST_GLOB,
+  ManifestJob,
+  readLock,
+  readManifest,
+  resolveManifestJobs,
+  writeLock
+} from './manifest';
+import { formatCapabilities, LiveModel, ModelCapabilityOverrides, ModelRegistry } from './models';
+import { decodeImage, detectFormat, encodeImage, getFormatForPath, getSaveFilters, OutputFormat, OutputFormatSetting, withFormatExtension } from './output';
+import { describeStep, Pipeline, PipelineServices, PipelineStep, runPipeline, validatePipeline } from './pipeline';
+import { parsePromptLibrary, PROMPT_LIBRARY_DIR, PromptLibrary } from './promptLibrary';
+import { embedProvenance, formatProvenance, PROVENANCE_TOOL, ProvenanceOperation, readProvenance } from './provenance';
+import {
+  GeminiProvider,
+  GroundingInfo,
+  ImageInput,
+  ImageProvider,
+  ImageRequestOptions,
+  ImageResult,
+  LocalProvider,
+  OpenAIProvider,
+  PROVIDER_IDS,
+  PROVIDER_OPERATIONS,
+  ProviderId,
+  ProviderOperation
+} from './providers';
+import {
+  getPromptVariables,
+  getQuickPromptItems,
+  getRecentPrompts,
+  getTemplateVariables,
+  markPromptUsed,
+  PromptVariable,
+  QUICK_PROMPT_CATEGORIES,
+  QuickPrompt,
+  resolveQuickPrompt
+} from './quickPrompts';
+import { redactDetections, RedactionMode, RedactionOptions } from './redaction';
+import { classifyError, DEFAULT_RETRY_SETTINGS, RateLimiter, RequestError } from './requests';
+import { describeNoImage, explainNoImage, formatExplanation, getRephrasePrompt, NoImageExplanation } from './safety';
+import { getHighestRisk, hashContent, normalizeFindings, SCAN_INSTRUCTIONS, ScanCache, ScannedFile, ScanNode, ScanReport, ScanTreeProvider, toDiagnostics, toJsonReport, toSarif } from './scan';
+import { decodeMask, toCutoutPng, toMaskPng, toOverlayDataUrl } from './segmentation';
+import { applyBrandStyle, findStyleFile, readBrandStyle, ReferenceRole, ResolvedBrandStyle, STYLE_FILES, STYLE_TEMPLATE, withReferenceRole } from './style';
+import { ASPECT_RATIOS, escapeHtml, getErrorMessage, getExtensionForMimeType, RESOLUTIONS } from './types';
+import { computeCost, DEFAULT_PRICES, estimateImageCost, formatCost, getPrice, PriceTable, startOfMonth, UsagePanel, UsageStore } from './usage';
+import { VersionEntry, VersionNode, VersionStore, VersionsTreeProvider } from './versions';
 
 let currentPanel: vscode.WebviewPanel | undefined;
+let currentPanelRoots: string[] = [];
 let ai: GoogleGenAI | undefined;
+let liveModels: LiveModel[] | undefined;
 let secretStorage: vscode.SecretStorage;
 let globalState: vscode.Memento;
+let history: HistoryStore;
+let versions: VersionStore;
+let versionsView: vscode.TreeView<VersionNode>;
+let promptLibrary: PromptLibrary;
+let jobManager: JobManager;
+let usage: UsageStore;
+let scanCache: ScanCache;
+let scanTree: ScanTreeProvider;
+let scanDiagnostics: vscode.DiagnosticCollection;
 
 // Key for storing custom sensitive data prompt
 const SENSITIVE_PROMPT_KEY = 'nanoBanana.sensitiveDataPrompt';
@@ -41,17 +109,21 @@ Return a JSON array where each detected item has:
 
 If nothing sensitive found, return [].`;
 
+// Prompt used by Describe Image and pipeline describe steps
+const DESCRIBE_PROMPT = 'Provide a detailed description of this image. Include information about the main subjects, colors, composition, mood, and any notable details.';
+
+// Prompt used by Extract Text
+const OCR_PROMPT = 'Extract all text visible in this image. Preserve the layout and formatting as much as possible. If there is no text, say "No text found in image."';
+
 // Supported image extensions
 const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp'];
 
 // Secret key for API key storage
 const API_KEY_SECRET = 'nanoBanana.geminiApiKey';
+const OPENAI_API_KEY_SECRET = 'nanoBanana.openaiApiKey';
 
-interface QuickPrompt {
-  label: string;
-  prompt: string;
-  category?: string;
-}
+// Settings that change which operations go to Gemini
+const PROVIDER_SETTINGS = ['nanoBanana.provider', 'nanoBanana.providerOverrides'];
 
 interface BoundingBox {
   box_2d: number[];
@@ -65,67 +137,181 @@ interface DetectionResult {
   height: number;
 }
 
+interface SummaryRow {
+  label: string;
+  status: 'success' | 'skipped' | 'failed';
+  detail?: string;
+  /** Opened when the row is clicked */
+  filePath?: string;
+}
+
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Banana Studio extension is now active!');
 
   // Initialize secret storage and global state
   secretStorage = context.secrets;
   globalState = context.globalState;
+  history = new HistoryStore(context.workspaceState, () => {
+    const config = getConfig();
+    return { maxEntries: config.historyMaxEntries, writeToWorkspace: config.historyWriteToWorkspace };
+  });
+  promptLibrary = new PromptLibrary();
+  usage = new UsageStore(context.globalState);
+  versions = new VersionStore(context.globalStorageUri.fsPath, () => {
+    const config = getConfig();
+    return { folder: config.versionsFolder, maxPerFile: config.versionsMaxPerFile, maxAgeDays: config.versionsMaxAgeDays };
+  });
+  jobManager = new JobManager({
+    maxConcurrent: () => getConfig().maxConcurrentJobs,
+    retrySettings: () => ({ ...DEFAULT_RETRY_SETTINGS, maxRetries: getConfig().maxRetries }),
+    limiter: new RateLimiter(() => getConfig().requestsPerMinute),
+    guard: checkBudget
+  });
+  context.subscriptions.push(promptLibrary, usage, versions, jobManager, jobManager.onDidFinish(recordUsage));
+  pruneVersions(false);
 
-  // Initialize the Google GenAI client
-  await initializeAI();
+  // Initialize the Google GenAI client when an operation uses Gemini; the
+  // other providers need no Gemini key
+  if (usesGemini()) {
+    await initializeAI();
+  }
 
   // Register custom image editor with right-click context menu
   context.subscriptions.push(BananaImageEditorProvider.register(context));
 
+  // Register sidebar views
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(HistoryTreeProvider.viewId, new HistoryTreeProvider(history))
+  );
+
+  const jobsTree = new JobsTreeProvider(jobManager);
+  context.subscriptions.push(jobsTree, vscode.window.registerTreeDataProvider(JobsTreeProvider.viewId, jobsTree));
+
+  const versionsTree = new VersionsTreeProvider(versions);
+  versionsView = vscode.window.createTreeView(VersionsTreeProvider.viewId, { treeDataProvider: versionsTree });
+  context.subscriptions.push(versionsView);
+
+  scanCache = new ScanCache(context.workspaceState);
+  scanTree = new ScanTreeProvider(context.workspaceState);
+  scanDiagnostics = vscode.languages.createDiagnosticCollection('nanoBananaScan');
+  context.subscriptions.push(scanDiagnostics, vscode.window.registerTreeDataProvider(ScanTreeProvider.viewId, scanTree));
+  updateScanDiagnostics(scanTree.getReport());
+
+  // Status bar with the generation settings and job activity
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  statusBarItem.command = `${JobsTreeProvider.viewId}.focus`;
+  updateStatusBar(statusBarItem);
+  statusBarItem.show();
+  context.subscriptions.push(
+    statusBarItem,
+    jobManager.onDidChange(() => updateStatusBar(statusBarItem)),
+    usage.onDidChange(() => updateStatusBar(statusBarItem))
+  );
+
   // Register all commands
   context.subscriptions.push(
     // Generation commands
-    vscode.commands.registerCommand('nanoBanana.generateImage', () => generateImage(context)),
-    vscode.commands.registerCommand('nanoBanana.editImage', () => editImageFromEditor(context)),
-    vscode.commands.registerCommand('nanoBanana.generateImageInFolder', (uri: vscode.Uri) => generateImageInFolder(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.editImageFromExplorer', (uri: vscode.Uri) => editImageFromExplorer(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.composeImages', () => composeImages(context)),
-    vscode.commands.registerCommand('nanoBanana.openPreview', (uri: vscode.Uri) => openImagePreview(context, uri)),
+    registerCommand('nanoBanana.generateImage', () => generateImage(context)),
+    registerCommand('nanoBanana.editImage', () => editImageFromEditor(context)),
+    registerCommand('nanoBanana.generateImageInFolder', (uri: vscode.Uri) => generateImageInFolder(context, uri)),
+    registerCommand('nanoBanana.generateWithReferences', (uri?: vscode.Uri, uris?: vscode.Uri[]) => generateWithReferences(context, uri, uris)),
+    registerCommand('nanoBanana.editImageFromExplorer', (uri: vscode.Uri) => editImageFromExplorer(context, uri)),
+    registerCommand('nanoBanana.startEditSession', (uri?: vscode.Uri) => startEditSession(context, uri)),
+    registerCommand('nanoBanana.extendCanvas', (uri?: vscode.Uri) => extendImageCanvas(context, uri)),
+    registerCommand('nanoBanana.inpaintImage', (uri: vscode.Uri, prompt: string, mask: string) => inpaintImage(context, uri, prompt, mask)),
+    registerCommand('nanoBanana.composeImages', () => composeImages(context)),
+    registerCommand('nanoBanana.runPipeline', (uri?: vscode.Uri, uris?: vscode.Uri[]) => runPipelineOnFiles(context, uri, uris)),
+    registerCommand('nanoBanana.generateFromManifest', (uri?: vscode.Uri) => generateFromManifest(context, uri)),
+    registerCommand('nanoBanana.showProvenance', (uri?: vscode.Uri) => showImageProvenance(context, uri)),
+    registerCommand('nanoBanana.openPreview', (uri: vscode.Uri) => openImagePreview(context, uri)),
 
     // Settings commands
-    vscode.commands.registerCommand('nanoBanana.selectModel', selectModel),
-    vscode.commands.registerCommand('nanoBanana.selectUnderstandingModel', selectUnderstandingModel),
-    vscode.commands.registerCommand('nanoBanana.setAspectRatio', setAspectRatio),
-    vscode.commands.registerCommand('nanoBanana.setResolution', setResolution),
-    vscode.commands.registerCommand('nanoBanana.setApiKey', () => setApiKey(context)),
-    vscode.commands.registerCommand('nanoBanana.checkApiKey', checkApiKeyStatus),
+    registerCommand('nanoBanana.selectModel', selectModel),
+    registerCommand('nanoBanana.selectUnderstandingModel', selectUnderstandingModel),
+    registerCommand('nanoBanana.setAspectRatio', setAspectRatio),
+    registerCommand('nanoBanana.setResolution', setResolution),
+    registerCommand('nanoBanana.setVariations', setVariations),
+    registerCommand('nanoBanana.setApiKey', () => setApiKey(context)),
+    registerCommand('nanoBanana.setOpenAIApiKey', setOpenAIApiKey),
+    registerCommand('nanoBanana.selectProvider', selectProvider),
+    registerCommand('nanoBanana.checkApiKey', checkApiKeyStatus),
+    registerCommand('nanoBanana.editBrandStyle', editBrandStyle),
 
     // Quick prompts
-    vscode.commands.registerCommand('nanoBanana.quickEdit', (uri: vscode.Uri) => quickEdit(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.manageQuickPrompts', manageQuickPrompts),
+    registerCommand('nanoBanana.quickEdit', (uri?: vscode.Uri, uris?: vscode.Uri[]) => quickEdit(context, uri, uris)),
+    registerCommand('nanoBanana.manageQuickPrompts', manageQuickPrompts),
+    registerCommand('nanoBanana.importQuickPrompts', importQuickPrompts),
+    registerCommand('nanoBanana.exportQuickPrompts', exportQuickPrompts),
 
     // Image understanding commands
-    vscode.commands.registerCommand('nanoBanana.analyzeImage', (uri: vscode.Uri) => analyzeImage(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.describeImage', (uri: vscode.Uri) => describeImage(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.detectObjects', (uri: vscode.Uri) => detectObjects(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.segmentObjects', (uri: vscode.Uri) => segmentObjects(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.extractText', (uri: vscode.Uri) => extractText(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.askAboutImage', (uri: vscode.Uri) => askAboutImage(context, uri)),
+    registerCommand('nanoBanana.analyzeImage', (uri: vscode.Uri) => analyzeImage(context, uri)),
+    registerCommand('nanoBanana.describeImage', (uri?: vscode.Uri, uris?: vscode.Uri[]) => describeImage(context, uri, uris)),
+    registerCommand('nanoBanana.detectObjects', (uri: vscode.Uri) => detectObjects(context, uri)),
+    registerCommand('nanoBanana.segmentObjects', (uri: vscode.Uri) => segmentObjects(context, uri)),
+    registerCommand('nanoBanana.extractText', (uri?: vscode.Uri, uris?: vscode.Uri[]) => extractText(context, uri, uris)),
+    registerCommand('nanoBanana.askAboutImage', (uri: vscode.Uri) => askAboutImage(context, uri)),
 
     // Privacy commands
-    vscode.commands.registerCommand('nanoBanana.detectSensitiveData', (uri: vscode.Uri) => detectSensitiveData(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.autoBlurSensitive', (uri: vscode.Uri) => autoBlurSensitive(context, uri)),
-    vscode.commands.registerCommand('nanoBanana.improveDetection', () => improveDetectionPrompt(context)),
-    vscode.commands.registerCommand('nanoBanana.resetDetectionPrompt', () => resetDetectionPrompt(context)),
-    vscode.commands.registerCommand('nanoBanana.restoreBackup', (uri: vscode.Uri) => restoreFromBackup(uri))
+    registerCommand('nanoBanana.detectSensitiveData', (uri?: vscode.Uri, uris?: vscode.Uri[]) => detectSensitiveData(context, uri, uris)),
+    registerCommand('nanoBanana.autoBlurSensitive', (uri?: vscode.Uri, uris?: vscode.Uri[]) => autoBlurSensitive(context, uri, uris)),
+    registerCommand('nanoBanana.improveDetection', () => improveDetectionPrompt(context)),
+    registerCommand('nanoBanana.resetDetectionPrompt', () => resetDetectionPrompt(context)),
+    registerCommand('nanoBanana.scanWorkspaceForSensitiveData', scanWorkspaceForSensitiveData),
+    registerCommand('nanoBanana.scan.open', (node: ScanNode) => openScanResult(context, node)),
+    registerCommand('nanoBanana.scan.exportReport', exportScanReport),
+    registerCommand('nanoBanana.scan.clear', clearScanResults),
+    registerCommand('nanoBanana.restoreBackup', (uri: vscode.Uri) => restoreFromBackup(uri)),
+    registerCommand('nanoBanana.showVersions', (uri?: vscode.Uri) => showVersions(uri)),
+    registerCommand('nanoBanana.versions.open', (node: VersionNode) => openVersion(context, node)),
+    registerCommand('nanoBanana.versions.compare', (node: VersionNode) => compareVersion(context, node)),
+    registerCommand('nanoBanana.versions.restore', (node: VersionNode) => restoreVersion(node)),
+    registerCommand('nanoBanana.versions.remove', (node: VersionNode) => removeVersion(node)),
+    registerCommand('nanoBanana.versions.prune', () => pruneVersions(true)),
+
+    // History
+    registerCommand('nanoBanana.history.open', (entry: HistoryEntry) => openHistoryEntry(context, entry)),
+    registerCommand('nanoBanana.history.rerun', (entry: HistoryEntry) => rerunHistoryEntry(context, entry, false)),
+    registerCommand('nanoBanana.history.rerunWithPrompt', (entry: HistoryEntry) => rerunHistoryEntry(context, entry, true)),
+    registerCommand('nanoBanana.history.compare', (entry: HistoryEntry) => compareHistoryEntry(context, entry)),
+    registerCommand('nanoBanana.history.reveal', (entry: HistoryEntry) => vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(entry.output))),
+    registerCommand('nanoBanana.history.remove', (entry: HistoryEntry) => history.remove(entry.id)),
+    registerCommand('nanoBanana.history.clear', clearHistory),
+
+    // Jobs
+    registerCommand('nanoBanana.jobs.show', (job: Job) => showJobDetails(context, job)),
+    registerCommand('nanoBanana.jobs.cancel', (job: Job) => jobManager.cancel(job)),
+    registerCommand('nanoBanana.jobs.retry', (job: Job) => retryJob(context, job)),
+    registerCommand('nanoBanana.jobs.cancelAll', () => jobManager.cancelAll()),
+    registerCommand('nanoBanana.jobs.clearFinished', () => jobManager.clearFinished()),
+
+    // Usage
+    registerCommand('nanoBanana.showUsage', () => showUsage(context))
   );
 
   // Watch for configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(async e => {
+      if (e.affectsConfiguration('nanoBanana.versions')) {
+        versionsTree.refresh();
+        pruneVersions(false);
+      }
       if (e.affectsConfiguration('nanoBanana')) {
+        updateStatusBar(statusBarItem);
+      }
+      // The OpenAI and local providers read their settings on every request.
+      // The Gemini client only needs creating when an operation moves to it.
+      if (PROVIDER_SETTINGS.some(setting => e.affectsConfiguration(setting)) && !ai && usesGemini()) {
         await initializeAI();
       }
     })
   );
 }
 
+/** Register a command so the requests it sends are attributed to it in the usage dashboard */
+function registerCommand(command: string, callback: (...args: any[]) => unknown): vscode.Disposable {
+  return vscode.commands.registerCommand(command, (...args: any[]) => runInCommand(command, () => callback(...args)));
+}
+
 async function getApiKey(): Promise<string | undefined> {
   console.log('Nano Banana: Getting API key...');
 
@@ -201,6 +387,7 @@ async function initializeAI(): Promise<void> {
 
     console.log('Nano Banana: Creating GoogleGenAI instance...');
     ai = new GoogleGenAI({ apiKey });
+    liveModels = undefined;
     console.log('Nano Banana: AI instance created:', ai ? 'Yes' : 'No');
 
     vscode.window.showInformationMessage('Nano Banana AI ready!');
@@ -256,6 +443,379 @@ async function ensureAI(): Promise<boolean> {
   return true;
 }
 
+// ==================== PROVIDERS ====================
+
+function getProviderId(operation: ProviderOperation): ProviderId {
+  const config = getConfig();
+  const override = config.providerOverrides[operation];
+  if (override && (PROVIDER_IDS as readonly string[]).includes(override)) {
+    return override as ProviderId;
+  }
+  return config.provider;
+}
+
+/** True when any operation resolves to the Gemini provider */
+function usesGemini(): boolean {
+  return PROVIDER_OPERATIONS.some(operation => getProviderId(operation) === 'gemini');
+}
+
+/** Provider for an operation, wrapped so its requests run as tracked jobs */
+async function ensureProvider(operation: ProviderOperation): Promise<ImageProvider | undefined> {
+  const provider = await createProvider(operation);
+  return provider && new TrackedProvider(provider, jobManager);
+}
+
+async function createProvider(operation: ProviderOperation): Promise<ImageProvider | undefined> {
+  const config = getConfig();
+  const providerId = getProviderId(operation);
+
+  switch (providerId) {
+    case 'openai':
+      return new OpenAIProvider({
+        baseUrl: config.openai.baseUrl,
+        apiKey: await secretStorage.get(OPENAI_API_KEY_SECRET) || process.env.OPENAI_API_KEY,
+        imageModel: config.openai.imageModel,
+        understandingModel: config.openai.understandingModel
+      });
+    case 'local':
+      return new LocalProvider(config.local);
+    default:
+      if (!await ensureAI()) return undefined;
+      return new GeminiProvider(ai!, await getModelRegistry(), config.model, config.understandingModel);
+  }
+}
+
+/** Attach a file and a cancellation token to the jobs a provider starts */
+function withJobScope(provider: ImageProvider, scope: JobScope): ImageProvider {
+  return provider instanceof TrackedProvider ? provider.withScope(scope) : provider;
+}
+
+// ==================== JOBS ====================
+
+/** Generation settings in use, plus the running and queued jobs while there are any */
+function updateStatusBar(item: vscode.StatusBarItem) {
+  const config = getConfig();
+  const providerId = getProviderId('generate');
+  const model = providerId === 'openai' ? config.openai.imageModel : providerId === 'local' ? 'local' : config.model;
+  const { running, queued } = jobManager.getCounts();
+  const spent = usage.getTotals(startOfMonth()).cost;
+  const budget = config.monthlyBudget > 0 ? ` of ${formatCost(config.monthlyBudget)} budget` : '';
+
+  const settings = `$(sparkle) ${model} · ${config.aspectRatio} · ${config.resolution}`;
+  const activity = running + queued > 0
+    ? `$(sync~spin) ${running} running${queued > 0 ? `, ${queued} queued` : ''}`
+    : '';
+
+  item.text = [activity, settings].filter(Boolean).join('  ');
+  item.tooltip = `Banana Studio: ${running} running, ${queued} queued job(s)\nModel: ${model} · Aspect ratio: ${config.aspectRatio} · Resolution: ${config.resolution}\nSpent this month: ${formatCost(spent)}${budget}\nClick to show jobs`;
+}
+
+function showJobDetails(context: vscode.ExtensionContext, job: Job) {
+  const lines = [
+    `Operation: ${job.operation}`,
+    `State: ${job.state} (${formatElapsed(job)})`,
+    `Provider: ${job.provider.displayName}`,
+    `Model: ${job.model}`
+  ];
+  if (job.aspectRatio) lines.push(`Aspect ratio: ${job.aspectRatio} · Resolution: ${job.resolution}`);
+  if (job.file) lines.push(`File: ${vscode.workspace.asRelativePath(job.file)}`);
+  lines.push(`Queued: ${new Date(job.queuedAt).toLocaleString()}`);
+  if (job.error) lines.push('', `Error: ${job.error}`);
+  lines.push('', 'Prompt:', job.prompt);
+
+  showResultPanel(context, `Job #${job.id}`, escapeHtml(lines.join('\n')));
+}
+
+/**
+ * Send a finished job's request again. Image results are offered for saving,
+ * text results are shown in a panel.
+ */
+async function retryJob(context: vscode.ExtensionContext, job: Job) {
+  if (!job.retry) return;
+
+  try {
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `Retrying ${job.operation}...`
+    }, () => job.retry!());
+
+    if (typeof result === 'string') {
+      showResultPanel(context, 'Retry Result', escapeHtml(result || 'No response.'));
+      return;
+    }
+    if (!result.image) {
+      showNoImageResult(context, result, job.prompt, job.operation !== 'generate');
+      return;
+    }
+
+    const operation: ProvenanceOperation = job.operation === 'generate' || job.operation === 'compose' ? job.operation : 'edit';
+    const defaultPath = job.file || path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', 'generated-image.png');
+    const saveUri = await showImageSaveDialog(operation, defaultPath);
+    if (!saveUri) return;
+
+    const options = { model: job.model, aspectRatio: job.aspectRatio || '', resolution: job.resolution || '' };
+    const inputs = operation === 'edit' && job.file ? [job.file] : [];
+    const savedPath = await writeImageOutput(saveUri.fsPath, Buffer.from(result.image.data, 'base64'), operation,
+      data => withProvenance(data, job.provider, operation, job.prompt, options, inputs));
+    showImagePreview(context, savedPath, result.text);
+  } catch (error) {
+    showRequestError('Retry failed', error);
+  }
+}
+
+// ==================== USAGE ====================
+
+/** Serializes budget prompts so parallel jobs of one command ask one at a time */
+let budgetPrompt: Promise<unknown> = Promise.resolve();
+/** Month for which the over-budget warning was shown, to show it once */
+let budgetWarnedMonth: string | undefined;
+
+function getPrices(): PriceTable {
+  return { ...DEFAULT_PRICES, ...getConfig().prices };
+}
+
+/** Add the billed usage of a finished job to the usage store */
+function recordUsage(job: Job) {
+  if (job.state !== 'succeeded' || !job.usage) return;
+
+  let user = '';
+  try {
+    user = os.userInfo().username;
+  } catch {
+    // No user name in some containers
+  }
+
+  usage.add({
+    ...job.usage,
+    timestamp: new Date(job.finishedAt ?? Date.now()).toISOString(),
+    command: job.command,
+    operation: job.operation,
+    provider: job.provider.id,
+    model: job.model,
+    resolution: job.resolution,
+    user,
+    cost: computeCost(getPrice(getPrices(), job.model), job.usage, job.resolution)
+  });
+}
+
+/**
+ * Job guard checking the estimated cost of image requests against the
+ * monthly budget and `usage.confirmAbove`. Blocks, warns or asks depending on
+ * `usage.budgetAction`; asking once can approve the rest of the command.
+ */
+async function checkBudget(job: Job): Promise<void> {
+  if (job.operation === 'understand') return;
+
+  const config = getConfig();
+  const estimate = estimateImageCost(getPrice(getPrices(), job.model), job.resolution);
+  const spent = usage.getTotals(startOfMonth()).cost;
+  const overBudget = config.monthlyBudget > 0 && spent + estimate > config.monthlyBudget;
+  const expensive = config.confirmAbove > 0 && estimate >= config.confirmAbove;
+  if (!overBudget && !expensive) return;
+
+  const budgetText = `${formatCost(spent)} of the ${formatCost(config.monthlyBudget)} monthly budget spent`;
+  if (overBudget && config.budgetAction === 'block') {
+    throw new Error(`Monthly budget reached: ${budgetText}. Raise nanoBanana.usage.monthlyBudget to send more requests.`);
+  }
+  if (overBudget && config.budgetAction === 'warn' && !expensive) {
+    const month = startOfMonth().toISOString();
+    if (budgetWarnedMonth !== month) {
+      budgetWarnedMonth = month;
+      vscode.window.showWarningMessage(`Monthly budget exceeded: ${budgetText}.`, 'Show Usage').then(choice => {
+        if (choice === 'Show Usage') vscode.commands.executeCommand('nanoBanana.showUsage');
+      });
+    }
+    return;
+  }
+
+  const run = getCommandRun();
+  const ask = async () => {
+    if (run?.approved) return;
+
+    const reasons = [
+      expensive ? `This request costs about ${formatCost(estimate)} (${job.model}${job.resolution ? `, ${job.resolution}` : ''}).` : '',
+      overBudget ? `It exceeds the monthly budget: ${budgetText}.` : ''
+    ].filter(Boolean).join(' ');
+    const actions = run ? ['Send', 'Send All for This Command'] : ['Send'];
+    const choice = await vscode.window.showWarningMessage(reasons, { modal: true, detail: job.prompt }, ...actions);
+
+    if (!choice) throw new JobCancelledError();
+    if (choice === 'Send All for This Command' && run) run.approved = true;
+  };
+
+  const prompt = budgetPrompt.then(ask, ask);
+  budgetPrompt = prompt.catch(() => undefined);
+  await prompt;
+}
+
+function showUsage(context: vscode.ExtensionContext) {
+  const commands: Array<{ command: string; title: string }> = context.extension.packageJSON.contributes?.commands || [];
+  UsagePanel.show(usage, {
+    getCommandTitle: command => commands.find(c => c.command === command)?.title ?? command,
+    getMonthlyBudget: () => getConfig().monthlyBudget
+  });
+}
+
+// ==================== REQUEST ERRORS ====================
+
+const FLASH_MODEL = 'gemini-2.5-flash-image';
+
+/**
+ * Show a failed request with a button for the likely fix: set the key when
+ * it was rejected, switch to Flash or limit requests on quota errors.
+ * Cancelled jobs are not reported.
+ */
+function showRequestError(action: string, error: unknown) {
+  if (error instanceof JobCancelledError) return;
+
+  const provider = error instanceof RequestError ? error.provider : getConfig().provider;
+  const actions: string[] = [];
+  switch (classifyError(error).kind) {
+    case 'auth':
+      if (provider !== 'local') actions.push('Set API Key');
+      break;
+    case 'quota':
+      if (provider === 'gemini' && getConfig().model !== FLASH_MODEL) actions.push('Switch to Flash');
+      actions.push('Limit Requests');
+      break;
+    case 'invalidArgument':
+      actions.push('Select Model');
+      break;
+    case 'transient':
+      actions.push('Show Jobs');
+      break;
+  }
+
+  vscode.window.showErrorMessage(`${action}: ${getErrorMessage(error)}`, ...actions).then(async choice => {
+    switch (choice) {
+      case 'Set API Key':
+        vscode.commands.executeCommand(provider === 'openai' ? 'nanoBanana.setOpenAIApiKey' : 'nanoBanana.setApiKey');
+        break;
+      case 'Switch to Flash':
+        await vscode.workspace.getConfiguration('nanoBanana').update('defaultModel', FLASH_MODEL, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage('Default model set to Banana Flash.');
+        break;
+      case 'Limit Requests':
+        vscode.commands.executeCommand('workbench.action.openSettings', 'nanoBanana.requests');
+        break;
+      case 'Select Model':
+        vscode.commands.executeCommand('nanoBanana.selectModel');
+        break;
+      case 'Show Jobs':
+        vscode.commands.executeCommand(`${JobsTreeProvider.viewId}.focus`);
+        break;
+    }
+  });
+}
+
+/**
+ * Explain why a response had no image: what was blocked and whether retrying
+ * could help. When it could and `retry` is given, offer to send the request
+ * again, as is or with the prompt rephrased by the understanding model.
+ */
+function showNoImageResult(context: vscode.ExtensionContext, result: ImageResult, prompt: string, hasInputImages: boolean, retry?: (prompt: string) => unknown) {
+  const explanation = explainNoImage(result, hasInputImages);
+  const actions = explanation.retryable && retry ? ['Rephrase & Retry', 'Retry', 'Show Details'] : ['Show Details'];
+
+  vscode.window.showErrorMessage(`No image was generated. ${explanation.summary}`, ...actions).then(async choice => {
+    switch (choice) {
+      case 'Show Details':
+        showResultPanel(context, 'Why No Image Was Generated', escapeHtml(formatExplanation(explanation, prompt)));
+        break;
+      case 'Retry':
+        retry!(prompt);
+        break;
+      case 'Rephrase & Retry': {
+        const rephrased = await rephrasePrompt(prompt, explanation);
+        if (rephrased) retry!(rephrased);
+        break;
+      }
+    }
+  });
+}
+
+/** Let the understanding model rewrite a prompt that produced no image, then let the user review it */
+async function rephrasePrompt(prompt: string, explanation: NoImageExplanation): Promise<string | undefined> {
+  const provider = await ensureProvider('understand');
+  if (!provider) return undefined;
+
+  let suggestion: string | undefined;
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Rephrasing prompt...',
+    cancellable: true
+  }, async (_progress, token) => {
+    try {
+      const response = await withJobScope(provider, { token }).understand({
+        model: provider.understandingModel,
+        prompt: getRephrasePrompt(prompt, explanation),
+        images: []
+      });
+      suggestion = response.trim().replace(/^["'](.*)["']$/s, '$1');
+    } catch (error) {
+      showRequestError('Failed to rephrase prompt', error);
+    }
+  });
+  if (!suggestion) return undefined;
+
+  return vscode.window.showInputBox({
+    prompt: 'Review the rephrased prompt, then press Enter to retry',
+    value: suggestion,
+    ignoreFocusOut: true
+  });
+}
+
+async function setOpenAIApiKey(): Promise<void> {
+  const apiKey = await vscode.window.showInputBox({
+    prompt: 'Enter the API key for your OpenAI-compatible endpoint (leave empty to clear)',
+    placeHolder: 'sk-...',
+    password: true,
+    ignoreFocusOut: true
+  });
+
+  if (apiKey === undefined) return;
+
+  if (apiKey.trim()) {
+    await secretStorage.store(OPENAI_API_KEY_SECRET, apiKey.trim());
+    vscode.window.showInformationMessage('OpenAI-compatible API key saved securely.');
+  } else {
+    await secretStorage.delete(OPENAI_API_KEY_SECRET);
+    vscode.window.showInformationMessage('OpenAI-compatible API key cleared.');
+  }
+}
+
+async function selectProvider(): Promise<void> {
+  const config = getConfig();
+  const providers = [
+    { label: 'Google Gemini', description: 'Cloud - Nano Banana models', value: 'gemini' },
+    { label: 'OpenAI-Compatible', description: config.openai.baseUrl, value: 'openai' },
+    { label: 'Local Stable Diffusion', description: config.local.baseUrl, value: 'local' }
+  ].map(p => ({ ...p, label: config.provider === p.value ? `$(check) ${p.label}` : p.label }));
+
+  const selected = await vscode.window.showQuickPick(providers, {
+    placeHolder: 'Select the default image provider',
+    title: '🍌 Banana Studio - Select Provider'
+  });
+
+  if (selected) {
+    await vscode.workspace.getConfiguration('nanoBanana').update('provider', selected.value, vscode.ConfigurationTarget.Global);
+    vscode.window.showInformationMessage(`Provider set to: ${selected.label.replace('$(check) ', '')}`);
+  }
+}
+
+async function getModelDisplayName(provider: ImageProvider, model: string, useGoogleSearch = false): Promise<string> {
+  const capabilities = (await getModelRegistry()).get(model, provider.id);
+  const displayName = provider.id === 'gemini' ? capabilities.displayName : `${provider.displayName} (${capabilities.displayName})`;
+  return useGoogleSearch && capabilities.supportsSearchGrounding ? `${displayName} with Google Search` : displayName;
+}
+
+function readImageInput(imagePath: string): ImageInput {
+  return {
+    mimeType: getMimeType(imagePath),
+    data: fs.readFileSync(imagePath).toString('base64')
+  };
+}
+
 function getConfig() {
   const config = vscode.workspace.getConfiguration('nanoBanana');
   return {
@@ -266,17 +826,61 @@ function getConfig() {
     enableGoogleSearch: config.get<boolean>('enableGoogleSearch', false),
     quickPrompts: config.get<QuickPrompt[]>('quickPrompts', []),
     sensitiveDataTypes: config.get<string[]>('sensitiveDataTypes', []),
-    blurIntensity: config.get<number>('blurIntensity', 25)
+    blurIntensity: config.get<number>('blurIntensity', 25),
+    redactionMode: config.get<RedactionMode>('redaction.mode', 'blur'),
+    redactionModesByType: config.get<Record<string, RedactionMode>>('redaction.modesByType', {}),
+    redactionPixelSize: config.get<number>('redaction.pixelSize', 16),
+    redactionColor: config.get<string>('redaction.color', '#000000'),
+    redactionPadding: config.get<number>('redaction.padding', 4),
+    historyMaxEntries: config.get<number>('history.maxEntries', 500),
+    historyWriteToWorkspace: config.get<boolean>('history.writeToWorkspace', false),
+    versionsFolder: config.get<string>('versions.folder', ''),
+    versionsMaxPerFile: config.get<number>('versions.maxPerFile', 20),
+    versionsMaxAgeDays: config.get<number>('versions.maxAgeDays', 30),
+    embedMetadata: config.get<boolean>('embedMetadata', true),
+    useBrandStyle: config.get<boolean>('brandStyle.enabled', true),
+    inpaintFeather: config.get<number>('inpaintFeather', 8),
+    outputFormat: config.get<OutputFormatSetting>('outputFormat', 'png'),
+    outputFormatOverrides: config.get<Partial<Record<OutputOperation, OutputFormatSetting>>>('outputFormatOverrides', {}),
+    outputQuality: config.get<number>('outputQuality', 90),
+    maxDimension: config.get<number>('maxDimension', 0),
+    pipelines: config.get<unknown[]>('pipelines', []),
+    bulkConcurrency: config.get<number>('bulk.concurrency', 3),
+    maxConcurrentJobs: config.get<number>('jobs.maxConcurrent', 4),
+    maxRetries: config.get<number>('requests.maxRetries', 3),
+    requestsPerMinute: config.get<number>('requests.requestsPerMinute', 0),
+    prices: config.get<PriceTable>('usage.prices', {}),
+    monthlyBudget: config.get<number>('usage.monthlyBudget', 0),
+    budgetAction: config.get<'warn' | 'confirm' | 'block'>('usage.budgetAction', 'confirm'),
+    confirmAbove: config.get<number>('usage.confirmAbove', 0),
+    bulkInclude: config.get<string>('bulk.include', DEFAULT_IMAGE_GLOB),
+    bulkExclude: config.get<string>('bulk.exclude', '{**/node_modules/**,**/.banana/**,**/*_backup.*}'),
+    scanInclude: config.get<string>('scan.include', DEFAULT_IMAGE_GLOB),
+    scanExclude: config.get<string>('scan.exclude', '{**/node_modules/**,**/.banana/**}'),
+    variations: config.get<number>('variations', 1),
+    modelCapabilities: config.get<ModelCapabilityOverrides>('modelCapabilities', {}),
+    provider: config.get<ProviderId>('provider', 'gemini'),
+    providerOverrides: config.get<Partial<Record<ProviderOperation, string>>>('providerOverrides', {}),
+    openai: {
+      baseUrl: config.get<string>('openai.baseUrl', 'https://api.openai.com/v1'),
+      imageModel: config.get<string>('openai.imageModel', 'gpt-image-1'),
+      understandingModel: config.get<string>('openai.understandingModel', 'gpt-4o-mini')
+    },
+    local: {
+      baseUrl: config.get<string>('local.baseUrl', 'http://127.0.0.1:7860'),
+      steps: config.get<number>('local.steps', 30),
+      denoisingStrength: config.get<number>('local.denoisingStrength', 0.6)
+    }
   };
 }
 
-async function fetchAvailableModels(): Promise<Array<{name: string, displayName: string, description?: string, supportedActions?: string[]}>> {
+async function fetchAvailableModels(): Promise<LiveModel[]> {
   if (!ai) {
     return [];
   }
 
   try {
-    const modelList: Array<{name: string, displayName: string, description?: string, supportedActions?: string[]}> = [];
+    const modelList: LiveModel[] = [];
     const models = await ai.models.list();
     let { page } = models;
 
@@ -299,56 +903,43 @@ async function fetchAvailableModels(): Promise<Array<{name: string, displayName:
   }
 }
 
+/**
+ * Model registry merged with the live model list. The live list is fetched
+ * once per API client and reused by every picker.
+ */
+async function getModelRegistry(): Promise<ModelRegistry> {
+  if (liveModels === undefined && ai) {
+    liveModels = await fetchAvailableModels();
+  }
+  return new ModelRegistry(liveModels, getConfig().modelCapabilities);
+}
+
 async function selectModel(): Promise<string | undefined> {
   if (!await ensureAI()) return undefined;
 
   const config = getConfig();
 
   // Show loading
-  const models = await vscode.window.withProgress({
+  const registry = await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Fetching available models...',
     cancellable: false
   }, async () => {
-    const allModels = await fetchAvailableModels();
-    // Filter for image generation models
-    return allModels.filter(m =>
-      m.supportedActions?.includes('generateContent') &&
-      (m.name?.includes('image') || m.name?.includes('flash') || m.name?.includes('pro'))
-    );
+    liveModels = await fetchAvailableModels();
+    return getModelRegistry();
   });
 
-  if (models.length === 0) {
-    // Fallback to hardcoded list
-    const fallbackModels = [
-      { label: config.model === 'gemini-2.0-flash-exp-image-generation' ? '$(check) Gemini 2.0 Flash (Image)' : 'Gemini 2.0 Flash (Image)', description: 'Fast image generation', value: 'gemini-2.0-flash-exp-image-generation' },
-      { label: config.model === 'gemini-2.0-flash' ? '$(check) Gemini 2.0 Flash' : 'Gemini 2.0 Flash', description: 'Fast and efficient', value: 'gemini-2.0-flash' }
-    ];
-
-    const selected = await vscode.window.showQuickPick(fallbackModels, {
-      placeHolder: 'Select AI model (could not fetch models from API)',
-      title: '🍌 Nano Banana - Select Model'
-    });
-
-    if (selected) {
-      await vscode.workspace.getConfiguration('nanoBanana').update('defaultModel', selected.value, vscode.ConfigurationTarget.Global);
-      vscode.window.showInformationMessage(`Model set to: ${selected.label.replace('$(check) ', '')}`);
-      return selected.value;
-    }
-    return undefined;
-  }
-
-  const modelItems = models.map(m => ({
+  const modelItems = registry.list(m => m.provider === 'gemini' && m.outputsImages).map(m => ({
     label: config.model === m.name ? `$(check) ${m.displayName}` : m.displayName,
-    description: m.name,
-    detail: m.description?.substring(0, 100),
+    description: m.description?.substring(0, 60),
+    detail: formatCapabilities(m),
     value: m.name
   }));
 
   const selected = await vscode.window.showQuickPick(modelItems, {
-    placeHolder: 'Select AI model for image generation',
+    placeHolder: liveModels?.length ? 'Select AI model for image generation' : 'Select AI model (could not fetch models from API)',
     title: '🍌 Nano Banana - Select Model',
-    matchOnDescription: true
+    matchOnDetail: true
   });
 
   if (selected) {
@@ -364,49 +955,27 @@ async function selectUnderstandingModel(): Promise<string | undefined> {
 
   const config = getConfig();
 
-  const models = await vscode.window.withProgress({
+  const registry = await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Fetching available models...',
     cancellable: false
   }, async () => {
-    const allModels = await fetchAvailableModels();
-    // Filter for understanding models (text/vision)
-    return allModels.filter(m =>
-      m.supportedActions?.includes('generateContent') &&
-      !m.name?.includes('imagen') // Exclude pure image generation
-    );
+    liveModels = await fetchAvailableModels();
+    return getModelRegistry();
   });
 
-  if (models.length === 0) {
-    const fallbackModels = [
-      { label: config.understandingModel === 'gemini-2.0-flash' ? '$(check) Gemini 2.0 Flash' : 'Gemini 2.0 Flash', description: 'Fast understanding', value: 'gemini-2.0-flash' },
-      { label: config.understandingModel === 'gemini-1.5-pro' ? '$(check) Gemini 1.5 Pro' : 'Gemini 1.5 Pro', description: 'Advanced understanding', value: 'gemini-1.5-pro' }
-    ];
-
-    const selected = await vscode.window.showQuickPick(fallbackModels, {
-      placeHolder: 'Select AI model for image understanding',
-      title: '🍌 Nano Banana - Select Understanding Model'
-    });
-
-    if (selected) {
-      await vscode.workspace.getConfiguration('nanoBanana').update('understandingModel', selected.value, vscode.ConfigurationTarget.Global);
-      vscode.window.showInformationMessage(`Understanding model set to: ${selected.label.replace('$(check) ', '')}`);
-      return selected.value;
-    }
-    return undefined;
-  }
-
-  const modelItems = models.map(m => ({
+  // Understanding models (text/vision), excluding pure image generation
+  const modelItems = registry.list(m => m.provider === 'gemini' && !m.outputsImages && !m.name.includes('imagen')).map(m => ({
     label: config.understandingModel === m.name ? `$(check) ${m.displayName}` : m.displayName,
-    description: m.name,
-    detail: m.description?.substring(0, 100),
+    description: m.description?.substring(0, 60),
+    detail: formatCapabilities(m),
     value: m.name
   }));
 
   const selected = await vscode.window.showQuickPick(modelItems, {
-    placeHolder: 'Select AI model for image understanding',
+    placeHolder: liveModels?.length ? 'Select AI model for image understanding' : 'Select AI model for image understanding (could not fetch models from API)',
     title: '🍌 Nano Banana - Select Understanding Model',
-    matchOnDescription: true
+    matchOnDetail: true
   });
 
   if (selected) {
@@ -421,55 +990,79 @@ interface GenerationOptions {
   model: string;
   aspectRatio: string;
   resolution: string;
+  /** Number of candidates to pick from; defaults to the `variations` setting */
+  variations?: number;
 }
 
-async function pickModelBeforeAction(): Promise<GenerationOptions | undefined> {
-  const config = getConfig();
-
-  const models = [
-    {
-      label: config.model === 'gemini-2.5-flash-image' ? '$(check) Banana Flash' : 'Banana Flash',
-      description: 'Fast and efficient',
-      detail: 'gemini-2.5-flash-image - Best for quick generations',
-      value: 'gemini-2.5-flash-image'
-    },
-    {
-      label: config.model === 'gemini-3-pro-image-preview' ? '$(check) Banana Pro' : 'Banana Pro',
-      description: 'Professional quality',
-      detail: 'gemini-3-pro-image-preview - Supports aspect ratio, resolution, Google Search',
-      value: 'gemini-3-pro-image-preview'
-    }
-  ];
+const ASPECT_RATIO_DESCRIPTIONS: Record<string, string> = {
+  '1:1': 'Square',
+  '16:9': 'Widescreen',
+  '9:16': 'Portrait/Mobile',
+  '4:3': 'Standard',
+  '3:4': 'Portrait Standard',
+  '3:2': 'Classic Photo',
+  '2:3': 'Portrait Photo',
+  '21:9': 'Ultrawide',
+  '4:5': 'Portrait Social',
+  '5:4': 'Large Format'
+};
+
+const RESOLUTION_DESCRIPTIONS: Record<string, string> = {
+  '1K': 'Standard (1024px)',
+  '2K': 'High Definition (2048px)',
+  '4K': 'Ultra HD (4096px)'
+};
+
+interface ModelRequirements {
+  /** Only offer models accepting at least this many input images */
+  minInputImages?: number;
+  /** Use this aspect ratio instead of asking, e.g. the source image's when inpainting */
+  aspectRatio?: string;
+}
 
-  const selectedModel = await vscode.window.showQuickPick(models, {
-    placeHolder: `Current: ${config.model === 'gemini-2.5-flash-image' ? 'Flash' : 'Pro'} - Select model`,
-    title: '🍌 Banana Studio - Select AI Model',
-    ignoreFocusOut: true
-  });
+async function pickModelBeforeAction(provider: ImageProvider, requirements: ModelRequirements = {}): Promise<GenerationOptions | undefined> {
+  const config = getConfig();
+  const registry = await getModelRegistry();
+  const minInputImages = requirements.minInputImages ?? 0;
+
+  // Other providers use the model configured in their own settings
+  let model = provider.imageModel;
+
+  if (provider.id === 'gemini') {
+    const preferred = registry.findImageModel('gemini', minInputImages, config.model) || config.model;
+    const models = registry.list(m => m.provider === 'gemini' && m.outputsImages && m.maxInputImages >= minInputImages).map(m => ({
+      label: preferred === m.name ? `$(check) ${m.displayName}` : m.displayName,
+      description: m.description,
+      detail: formatCapabilities(m),
+      value: m.name
+    }));
+
+    const selectedModel = await vscode.window.showQuickPick(models, {
+      placeHolder: `Current: ${registry.get(preferred).displayName} - Select model`,
+      title: '🍌 Banana Studio - Select AI Model',
+      ignoreFocusOut: true
+    });
 
-  if (!selectedModel) return undefined;
+    if (!selectedModel) return undefined;
+    model = selectedModel.value;
 
-  // Save the model choice for next time
-  if (selectedModel.value !== config.model) {
-    await vscode.workspace.getConfiguration('nanoBanana').update('defaultModel', selectedModel.value, vscode.ConfigurationTarget.Global);
+    // Save the model choice for next time
+    if (model !== config.model) {
+      await vscode.workspace.getConfiguration('nanoBanana').update('defaultModel', model, vscode.ConfigurationTarget.Global);
+    }
   }
 
-  let aspectRatio = config.aspectRatio;
-  let resolution = config.resolution;
+  const capabilities = registry.get(model, provider.id);
+  let aspectRatio = requirements.aspectRatio ?? config.aspectRatio;
+  let resolution = registry.clampResolution(model, config.resolution, provider.id) || config.resolution;
 
-  // If Pro model, ask for aspect ratio and resolution
-  if (selectedModel.value === 'gemini-3-pro-image-preview') {
-    // Pick aspect ratio
-    const aspectRatios = [
-      { label: config.aspectRatio === '1:1' ? '$(check) 1:1' : '1:1', description: 'Square', value: '1:1' },
-      { label: config.aspectRatio === '16:9' ? '$(check) 16:9' : '16:9', description: 'Widescreen', value: '16:9' },
-      { label: config.aspectRatio === '9:16' ? '$(check) 9:16' : '9:16', description: 'Portrait/Mobile', value: '9:16' },
-      { label: config.aspectRatio === '4:3' ? '$(check) 4:3' : '4:3', description: 'Standard', value: '4:3' },
-      { label: config.aspectRatio === '3:4' ? '$(check) 3:4' : '3:4', description: 'Portrait Standard', value: '3:4' },
-      { label: config.aspectRatio === '3:2' ? '$(check) 3:2' : '3:2', description: 'Classic Photo', value: '3:2' },
-      { label: config.aspectRatio === '2:3' ? '$(check) 2:3' : '2:3', description: 'Portrait Photo', value: '2:3' },
-      { label: config.aspectRatio === '21:9' ? '$(check) 21:9' : '21:9', description: 'Ultrawide', value: '21:9' }
-    ];
+  // Only ask for the options this model supports
+  if (capabilities.supportsAspectRatio && !requirements.aspectRatio) {
+    const aspectRatios = Object.keys(ASPECT_RATIO_DESCRIPTIONS).map(value => ({
+      label: config.aspectRatio === value ? `$(check) ${value}` : value,
+      description: ASPECT_RATIO_DESCRIPTIONS[value],
+      value
+    }));
 
     const selectedAspect = await vscode.window.showQuickPick(aspectRatios, {
       placeHolder: `Current: ${config.aspectRatio} - Select aspect ratio`,
@@ -484,13 +1077,15 @@ async function pickModelBeforeAction(): Promise<GenerationOptions | undefined> {
     if (aspectRatio !== config.aspectRatio) {
       await vscode.workspace.getConfiguration('nanoBanana').update('defaultAspectRatio', aspectRatio, vscode.ConfigurationTarget.Global);
     }
+  }
 
-    // Pick resolution
-    const resolutions = [
-      { label: config.resolution === '1K' ? '$(check) 1K' : '1K', description: 'Standard (1024px)', value: '1K' },
-      { label: config.resolution === '2K' ? '$(check) 2K' : '2K', description: 'High Definition (2048px)', value: '2K' },
-      { label: config.resolution === '4K' ? '$(check) 4K' : '4K', description: 'Ultra HD (4096px)', value: '4K' }
-    ];
+  const supportedResolutions = registry.getResolutions(model, provider.id);
+  if (supportedResolutions.length > 1) {
+    const resolutions = supportedResolutions.map(value => ({
+      label: config.resolution === value ? `$(check) ${value}` : value,
+      description: RESOLUTION_DESCRIPTIONS[value],
+      value: value as string
+    }));
 
     const selectedRes = await vscode.window.showQuickPick(resolutions, {
       placeHolder: `Current: ${config.resolution} - Select resolution`,
@@ -508,15 +1103,14 @@ async function pickModelBeforeAction(): Promise<GenerationOptions | undefined> {
   }
 
   return {
-    model: selectedModel.value,
+    model,
     aspectRatio,
     resolution
   };
 }
 
 async function setAspectRatio() {
-  const ratios = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
-  const selected = await vscode.window.showQuickPick(ratios, {
+  const selected = await vscode.window.showQuickPick([...ASPECT_RATIOS], {
     placeHolder: 'Select aspect ratio for generated images'
   });
 
@@ -527,11 +1121,20 @@ async function setAspectRatio() {
 }
 
 async function setResolution() {
-  const resolutions = [
-    { label: '1K', description: 'Standard resolution' },
-    { label: '2K', description: 'High resolution' },
-    { label: '4K', description: 'Ultra high resolution' }
-  ];
+  if (getProviderId('generate') === 'openai') {
+    vscode.window.showInformationMessage('OpenAI image models have fixed sizes chosen from the aspect ratio, so the resolution setting does not apply to them.');
+    return;
+  }
+
+  const config = getConfig();
+  const registry = await getModelRegistry();
+  const supported = registry.getResolutions(config.model);
+  const resolutions = RESOLUTIONS.map(label => ({
+    label,
+    description: supported.includes(label)
+      ? RESOLUTION_DESCRIPTIONS[label]
+      : `${RESOLUTION_DESCRIPTIONS[label]} - not supported by ${registry.get(config.model).displayName}`
+  }));
 
   const selected = await vscode.window.showQuickPick(resolutions, {
     placeHolder: 'Select resolution for generated images'
@@ -549,7 +1152,10 @@ async function manageQuickPrompts() {
     { label: '$(add) Add New Prompt', action: 'add' },
     { label: '$(trash) Remove Prompt', action: 'remove' },
     { label: '$(edit) Edit Prompt', action: 'edit' },
-    { label: '$(list-flat) View All Prompts', action: 'view' }
+    { label: '$(symbol-variable) Edit Variables', action: 'variables' },
+    { label: '$(list-flat) View All Prompts', action: 'view' },
+    { label: '$(cloud-download) Import Prompts...', action: 'import' },
+    { label: '$(cloud-upload) Export Prompts...', action: 'export' }
   ];
 
   const selected = await vscode.window.showQuickPick(options, {
@@ -568,9 +1174,18 @@ async function manageQuickPrompts() {
     case 'edit':
       await editQuickPrompt();
       break;
+    case 'variables':
+      await editPromptVariables();
+      break;
     case 'view':
       await viewQuickPrompts();
       break;
+    case 'import':
+      await importQuickPrompts();
+      break;
+    case 'export':
+      await exportQuickPrompts();
+      break;
   }
 }
 
@@ -582,13 +1197,12 @@ async function addQuickPrompt() {
   if (!label) return;
 
   const prompt = await vscode.window.showInputBox({
-    prompt: 'Enter the prompt',
+    prompt: 'Enter the prompt. Use {{name}} for values asked each time, e.g. Replace the sky with {{sky}}',
     placeHolder: 'e.g., Apply a cinematic color grade with letterbox bars'
   });
   if (!prompt) return;
 
-  const categories = ['style', 'edit', 'enhance', 'analyze', 'custom'];
-  const category = await vscode.window.showQuickPick(categories, {
+  const category = await vscode.window.showQuickPick(QUICK_PROMPT_CATEGORIES, {
     placeHolder: 'Select a category'
   });
 
@@ -597,7 +1211,20 @@ async function addQuickPrompt() {
   prompts.push({ label, prompt, category: category || 'custom' });
 
   await config.update('quickPrompts', prompts, vscode.ConfigurationTarget.Global);
-  vscode.window.showInformationMessage(`Quick prompt "${label}" added!`);
+
+  const variables = getTemplateVariables(prompt);
+  if (variables.length === 0) {
+    vscode.window.showInformationMessage(`Quick prompt "${label}" added!`);
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    `Quick prompt "${label}" added with variables: ${variables.join(', ')}`,
+    'Edit Variables'
+  );
+  if (action === 'Edit Variables') {
+    await editPromptVariables(label);
+  }
 }
 
 async function removeQuickPrompt() {
@@ -638,18 +1265,88 @@ async function editQuickPrompt() {
   });
 
   if (newPrompt) {
+    // Drop settings of variables the new prompt no longer uses
+    const names = getTemplateVariables(newPrompt);
     const prompts = config.quickPrompts.map(p =>
-      p.label === selected.label ? { ...p, prompt: newPrompt } : p
+      p.label === selected.label ? { ...p, prompt: newPrompt, variables: p.variables?.filter(v => names.includes(v.name)) } : p
     );
     await vscode.workspace.getConfiguration('nanoBanana').update('quickPrompts', prompts, vscode.ConfigurationTarget.Global);
     vscode.window.showInformationMessage(`Updated "${selected.label}"`);
   }
 }
 
-async function viewQuickPrompts() {
+/** Set the description, default value and choices of a template's variables */
+async function editPromptVariables(label?: string) {
   const config = getConfig();
-  const items = config.quickPrompts.map(p => ({
+  const templates = config.quickPrompts.filter(p => getTemplateVariables(p.prompt).length > 0);
+
+  if (templates.length === 0) {
+    vscode.window.showInformationMessage('None of your quick prompts use variables. Add {{name}} placeholders to a prompt first.');
+    return;
+  }
+
+  let template = templates.find(p => p.label === label);
+  if (!template) {
+    const selected = await vscode.window.showQuickPick(templates.map(p => ({
+      label: p.label,
+      description: getTemplateVariables(p.prompt).join(', '),
+      prompt: p
+    })), {
+      placeHolder: 'Select prompt to edit variables of'
+    });
+    if (!selected) return;
+    template = selected.prompt;
+  }
+
+  const variables = getPromptVariables(template);
+  const selected = await vscode.window.showQuickPick(variables.map(v => ({
+    label: v.name,
+    description: v.options?.length ? `choices: ${v.options.join(', ')}` : (v.default ? `default: ${v.default}` : ''),
+    detail: v.description,
+    variable: v
+  })), {
+    placeHolder: `Variables of "${template.label}"`
+  });
+
+  if (!selected) return;
+
+  const description = await vscode.window.showInputBox({
+    prompt: `Question shown when asking for {{${selected.label}}} (optional)`,
+    value: selected.variable.description
+  });
+  if (description === undefined) return;
+
+  const choices = await vscode.window.showInputBox({
+    prompt: 'Comma-separated choices, or empty to type any value',
+    placeHolder: 'e.g., dawn, noon, dusk',
+    value: selected.variable.options?.join(', ')
+  });
+  if (choices === undefined) return;
+
+  const defaultValue = await vscode.window.showInputBox({
+    prompt: `Default value for {{${selected.label}}} (optional)`,
+    value: selected.variable.default
+  });
+  if (defaultValue === undefined) return;
+
+  const options = choices.split(',').map(c => c.trim()).filter(Boolean);
+  const updated: PromptVariable = { name: selected.label };
+  if (description.trim()) updated.description = description.trim();
+  if (defaultValue.trim()) updated.default = defaultValue.trim();
+  if (options.length > 0) updated.options = options;
+
+  const prompts = config.quickPrompts.map(p => p.label === template!.label
+    ? { ...p, variables: variables.map(v => v.name === updated.name ? updated : v).filter(v => Object.keys(v).length > 1) }
+    : p
+  );
+  await vscode.workspace.getConfiguration('nanoBanana').update('quickPrompts', prompts, vscode.ConfigurationTarget.Global);
+  vscode.window.showInformationMessage(`Updated {{${updated.name}}} of "${template.label}"`);
+}
+
+async function viewQuickPrompts() {
+  const items = getQuickPrompts().map(p => ({
     label: `${p.label} [${p.category || 'custom'}]`,
+    description: [p.source, ...getTemplateVariables(p.prompt)].filter(Boolean).join(', '),
     detail: p.prompt
   }));
 
@@ -659,39 +1356,105 @@ async function viewQuickPrompts() {
   });
 }
 
-// ==================== IMAGE GENERATION ====================
+/** Prompts from the user settings followed by those of the workspace libraries */
+function getQuickPrompts(): QuickPrompt[] {
+  return [...getConfig().quickPrompts, ...promptLibrary.getPrompts()];
+}
 
-async function generateImage(context: vscode.ExtensionContext) {
-  if (!await ensureAI()) return;
+/** Import a prompt library file into the user settings or the workspace libraries */
+async function importQuickPrompts() {
+  const fileUris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { 'Prompt Library': ['json'] },
+    openLabel: 'Import Prompts'
+  });
+  if (!fileUris?.[0]) return;
 
-  // Pick model, aspect ratio, resolution
-  const options = await pickModelBeforeAction();
-  if (!options) return;
+  const library = parsePromptLibrary(fs.readFileSync(fileUris[0].fsPath, 'utf8'));
+  if (library.prompts.length === 0) {
+    vscode.window.showErrorMessage(`No prompts to import: ${library.problems[0]?.message || 'the file is empty'}`);
+    return;
+  }
+  if (library.problems.length > 0) {
+    vscode.window.showWarningMessage(`Skipping ${library.problems.length} invalid prompt(s): ${library.problems[0].message}`);
+  }
 
-  const prompt = await vscode.window.showInputBox({
-    placeHolder: 'Describe the image you want to generate...',
-    prompt: 'Enter a detailed description for image generation',
-    ignoreFocusOut: true
+  const folders = vscode.workspace.workspaceFolders || [];
+  const destinations = [
+    { label: '$(account) User Settings', detail: 'Available in every workspace, only for you', value: 'user' },
+    ...(folders.length > 0 ? [{ label: '$(library) Workspace Library', detail: `Saved to ${PROMPT_LIBRARY_DIR} to share with your team`, value: 'workspace' }] : [])
+  ];
+  const destination = await vscode.window.showQuickPick(destinations, {
+    placeHolder: `Import ${library.prompts.length} prompt(s) into...`
   });
+  if (!destination) return;
 
-  if (!prompt) return;
+  if (destination.value === 'user') {
+    // Imported prompts replace existing ones with the same label
+    const labels = new Set(library.prompts.map(p => p.label));
+    const prompts = [...getConfig().quickPrompts.filter(p => !labels.has(p.label)), ...library.prompts];
+    await vscode.workspace.getConfiguration('nanoBanana').update('quickPrompts', prompts, vscode.ConfigurationTarget.Global);
+    vscode.window.showInformationMessage(`Imported ${library.prompts.length} prompt(s) into your settings`);
+    return;
+  }
 
-  const saveUri = await vscode.window.showSaveDialog({
-    filters: { 'Images': ['png'] },
-    defaultUri: vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', 'generated-image.png'))
-  });
+  const folder = folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Folder to add the library to' });
+  if (!folder) return;
 
-  if (!saveUri) return;
+  const target = path.join(folder.uri.fsPath, PROMPT_LIBRARY_DIR, path.basename(fileUris[0].fsPath));
+  if (fs.existsSync(target)) {
+    const confirm = await vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(target)} already exists. Replace it?`, { modal: true }, 'Replace');
+    if (confirm !== 'Replace') return;
+  }
 
-  await generateAndSaveImage(context, prompt, saveUri.fsPath, options);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify({ prompts: library.prompts }, null, 2) + '\n');
+  await promptLibrary.reload();
+  vscode.window.showInformationMessage(`Imported ${library.prompts.length} prompt(s) into ${vscode.workspace.asRelativePath(target)}`);
 }
 
-async function generateImageInFolder(context: vscode.ExtensionContext, folderUri: vscode.Uri) {
-  if (!await ensureAI()) return;
+/** Export selected prompts as a library file, by default into the workspace libraries */
+async function exportQuickPrompts() {
+  const prompts = getQuickPrompts();
+  if (prompts.length === 0) {
+    vscode.window.showInformationMessage('No quick prompts to export.');
+    return;
+  }
 
-  // Pick model, aspect ratio, resolution
-  const options = await pickModelBeforeAction();
-  if (!options) return;
+  const selected = await vscode.window.showQuickPick(prompts.map(p => ({
+    label: p.label,
+    description: p.source || 'User',
+    detail: p.prompt,
+    picked: !p.source,
+    prompt: p
+  })), {
+    canPickMany: true,
+    placeHolder: 'Select prompts to export'
+  });
+  if (!selected || selected.length === 0) return;
+
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  const saveUri = await vscode.window.showSaveDialog({
+    filters: { 'Prompt Library': ['json'] },
+    defaultUri: vscode.Uri.file(folder ? path.join(folder.uri.fsPath, PROMPT_LIBRARY_DIR, 'prompts.json') : 'prompts.json')
+  });
+  if (!saveUri) return;
+
+  const exported = selected.map(({ prompt: { source, ...p } }) => p);
+  fs.mkdirSync(path.dirname(saveUri.fsPath), { recursive: true });
+  fs.writeFileSync(saveUri.fsPath, JSON.stringify({ prompts: exported }, null, 2) + '\n');
+  vscode.window.showInformationMessage(`Exported ${exported.length} prompt(s) to ${vscode.workspace.asRelativePath(saveUri)}`);
+}
+
+// ==================== IMAGE GENERATION ====================
+
+async function generateImage(context: vscode.ExtensionContext) {
+  const provider = await ensureProvider('generate');
+  if (!provider) return;
+
+  // Pick model, aspect ratio, resolution
+  const options = await pickModelBeforeAction(provider);
+  if (!options) return;
 
   const prompt = await vscode.window.showInputBox({
     placeHolder: 'Describe the image you want to generate...',
@@ -701,84 +1464,298 @@ async function generateImageInFolder(context: vscode.ExtensionContext, folderUri
 
   if (!prompt) return;
 
+  const saveUri = await showImageSaveDialog('generate', path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', 'generated-image.png'));
+
+  if (!saveUri) return;
+
+  await generateAndSaveImage(context, prompt, saveUri.fsPath, options);
+}
+
+async function generateImageInFolder(context: vscode.ExtensionContext, folderUri: vscode.Uri) {
+  const provider = await ensureProvider('generate');
+  if (!provider) return;
+
+  // Pick model, aspect ratio, resolution
+  const options = await pickModelBeforeAction(provider);
+  if (!options) return;
+
+  const prompt = await vscode.window.showInputBox({
+    placeHolder: 'Describe the image you want to generate...',
+    prompt: 'Enter a detailed description for image generation',
+    ignoreFocusOut: true
+  });
+
+  if (!prompt) return;
+
+  const format = getDefaultOutputFormat('generate');
+  const defaultName = withFormatExtension('generated-image', format);
   const filename = await vscode.window.showInputBox({
-    placeHolder: 'generated-image.png',
+    placeHolder: defaultName,
     prompt: 'Enter filename for the generated image',
-    value: 'generated-image.png',
+    value: defaultName,
     ignoreFocusOut: true
   });
 
   if (!filename) return;
 
-  const savePath = path.join(folderUri.fsPath, filename.endsWith('.png') ? filename : `${filename}.png`);
+  // A typed .png, .jpg or .webp extension picks the format; anything else gets the configured one
+  const filePath = path.join(folderUri.fsPath, filename);
+  const savePath = withFormatExtension(filePath, getFormatForPath(filePath) ?? format);
   await generateAndSaveImage(context, prompt, savePath, options);
 }
 
-async function generateAndSaveImage(context: vscode.ExtensionContext, prompt: string, savePath: string, options?: GenerationOptions) {
+/** Generate a new image guided by style or subject reference images */
+async function generateWithReferences(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const provider = await ensureProvider('generate');
+  if (!provider) return;
+
+  let references = (uris && uris.length > 0 ? uris : uri ? [uri] : []).map(u => u.fsPath).filter(isImageFile);
+  if (references.length === 0) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      filters: { 'Images': ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'] },
+      openLabel: 'Select Reference Images'
+    });
+    if (!picked || picked.length === 0) return;
+    references = picked.map(u => u.fsPath);
+  }
+
+  const maxImages = (await getModelRegistry()).maxInputImages(provider.id);
+  if (references.length > maxImages) {
+    vscode.window.showErrorMessage(`${provider.displayName} accepts at most ${maxImages} reference image(s).`);
+    return;
+  }
+
+  const role = await vscode.window.showQuickPick<{ label: string; detail: string; value: ReferenceRole }>([
+    { label: '$(paintcan) Style Reference', detail: 'Match the look of the images, not their content', value: 'style' },
+    { label: '$(person) Subject Reference', detail: 'Show the same subject, product or character in a new image', value: 'subject' }
+  ], {
+    placeHolder: `How should the ${references.length} reference image(s) be used?`
+  });
+
+  if (!role) return;
+
+  const options = await pickModelBeforeAction(provider, { minInputImages: references.length });
+  if (!options) return;
+
+  const prompt = await vscode.window.showInputBox({
+    placeHolder: 'Describe the image you want to generate...',
+    prompt: 'Enter a detailed description for image generation',
+    ignoreFocusOut: true
+  });
+
+  if (!prompt) return;
+
+  const saveUri = await showImageSaveDialog('generate', path.join(path.dirname(references[0]), 'generated-image.png'));
+  if (!saveUri) return;
+
+  await generateAndSaveImage(context, withReferenceRole(prompt, role.value, references.length), saveUri.fsPath, options, references);
+}
+
+async function generateAndSaveImage(context: vscode.ExtensionContext, prompt: string, savePath: string, options?: GenerationOptions, referencePaths: string[] = []) {
+  const provider = await ensureProvider('generate');
+  if (!provider) return;
+
   const config = getConfig();
-  const model = options?.model || config.model;
+  const model = options?.model || provider.imageModel;
   const aspectRatio = options?.aspectRatio || config.aspectRatio;
   const resolution = options?.resolution || config.resolution;
+  const variations = clampVariations(options?.variations ?? config.variations);
+
+  if (variations > 1) {
+    const request = { model, aspectRatio, resolution };
+    await showVariations(context, provider, {
+      title: 'Generated Variations',
+      prompt,
+      savePath,
+      count: variations,
+      options: request,
+      operation: getRequestOperation(referencePaths),
+      inputs: referencePaths,
+      generate: scopedProvider => requestImage(scopedProvider, prompt, request, referencePaths, savePath),
+      onKept: savedPaths => {
+        savedPaths.forEach(p => recordHistory(provider, getRequestOperation(referencePaths), prompt, request, referencePaths, p));
+        showImagePreview(context, savedPaths[0]);
+      }
+    });
+    return;
+  }
 
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Generating image...',
-    cancellable: false
-  }, async (progress) => {
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: savePath, token });
     try {
-      const modelName = model === 'gemini-2.5-flash-image' ? 'Banana Flash' : 'Banana Pro';
-      progress.report({ message: `Using ${modelName}...` });
+      progress.report({ message: `Using ${await getModelDisplayName(provider, model, config.enableGoogleSearch)}...` });
 
-      let response;
+      const result = await generateImageFile(scopedProvider, prompt, savePath, { model, aspectRatio, resolution }, referencePaths);
+      const textResponse = result.text;
 
-      // Different API call format based on model
-      if (model === 'gemini-2.5-flash-image') {
-        // Flash model - simpler API
-        response = await ai.models.generateContent({
-          model: model,
-          contents: prompt
-        });
+      if (result.image && result.savedPath) {
+        showImagePreview(context, result.savedPath, textResponse, result.grounding);
+        vscode.window.showInformationMessage(`Image saved to: ${result.savedPath}`);
       } else {
-        // Pro model - supports full config with aspect ratio and resolution
-        response = await ai.models.generateContent({
-          model: model,
-          contents: prompt,
-          config: {
-            responseModalities: ['TEXT', 'IMAGE'],
-            imageConfig: {
-              aspectRatio: aspectRatio,
-              imageSize: resolution
-            }
-          }
-        });
+        showNoImageResult(context, result, prompt, referencePaths.length > 0,
+          retryPrompt => generateAndSaveImage(context, retryPrompt, savePath, options, referencePaths));
       }
+    } catch (error: any) {
+      showRequestError('Failed to generate image', error);
+    }
+  });
+}
+
+/**
+ * Send a generation request. Reference images turn it into an edit (one
+ * image) or a composition (several). The brand style of the workspace
+ * folder holding `targetPath` is applied.
+ */
+async function requestImage(provider: ImageProvider, prompt: string, options: GenerationOptions, referencePaths: string[] = [], targetPath?: string): Promise<ImageResult> {
+  const config = getConfig();
+  const request = { ...options, useGoogleSearch: config.enableGoogleSearch };
+  const style = getBrandStyle(targetPath ?? referencePaths[0]);
+  return sendWithBrandStyle(provider, referencePaths.map(readImageInput), prompt, request, style);
+}
 
-      let textResponse = '';
-      let imageData: string | undefined;
+/**
+ * Send a generation request and write the returned image to `savePath`.
+ * `result.image` is undefined when nothing was generated; `savedPath` is
+ * where it was written, which differs from `savePath` only in its extension.
+ */
+async function generateImageFile(provider: ImageProvider, prompt: string, savePath: string, options: GenerationOptions, referencePaths: string[] = []): Promise<ImageResult & { savedPath?: string }> {
+  const started = Date.now();
+  const result = await requestImage(provider, prompt, options, referencePaths, savePath);
+
+  if (!result.image) return result;
+
+  const operation = getRequestOperation(referencePaths);
+  const savedPath = await writeImageOutput(savePath, Buffer.from(result.image.data, 'base64'), operation,
+    data => withProvenance(data, provider, operation, prompt, options, referencePaths));
+  recordHistory(provider, operation, prompt, options, referencePaths, savedPath, result.text, Date.now() - started);
+  return { ...result, savedPath };
+}
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.text) {
-          textResponse += part.text;
-        } else if (part.inlineData) {
-          imageData = part.inlineData.data;
-        }
-      }
+/** Operation `requestImage` performs for the given references */
+function getRequestOperation(referencePaths: string[]): HistoryOperation {
+  return referencePaths.length === 0 ? 'generate' : referencePaths.length === 1 ? 'edit' : 'compose';
+}
 
-      if (imageData) {
-        const buffer = Buffer.from(imageData, 'base64');
-        fs.writeFileSync(savePath, buffer);
-        showImagePreview(context, savePath, textResponse);
-        vscode.window.showInformationMessage(`Image saved to: ${savePath}`);
-      } else {
-        vscode.window.showErrorMessage('No image was generated.');
-        if (textResponse) {
-          showResultPanel(context, 'Generation Result', textResponse);
+// ==================== BATCH GENERATION ====================
+
+async function pickManifest(): Promise<string | undefined> {
+  const manifests = await vscode.workspace.findFiles(MANIFEST_GLOB, '**/node_modules/**');
+
+  if (manifests.length === 1) {
+    return manifests[0].fsPath;
+  }
+
+  if (manifests.length > 1) {
+    const selected = await vscode.window.showQuickPick(manifests.map(uri => ({
+      label: path.basename(uri.fsPath),
+      description: vscode.workspace.asRelativePath(uri),
+      value: uri.fsPath
+    })), {
+      placeHolder: 'Select a prompt manifest'
+    });
+    return selected?.value;
+  }
+
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { 'Prompt Manifest': ['json', 'yaml', 'yml'] },
+    openLabel: 'Select Prompt Manifest'
+  });
+  return uris?.[0]?.fsPath;
+}
+
+async function generateFromManifest(context: vscode.ExtensionContext, uri?: vscode.Uri) {
+  const manifestPath = uri && isManifestFile(uri.fsPath) ? uri.fsPath : await pickManifest();
+  if (!manifestPath) return;
+
+  const provider = await ensureProvider('generate');
+  if (!provider) return;
+
+  let jobs: ManifestJob[];
+  try {
+    jobs = resolveManifestJobs(manifestPath, readManifest(manifestPath));
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to read manifest: ${error.message}`);
+    return;
+  }
+
+  if (jobs.length === 0) {
+    vscode.window.showWarningMessage('The manifest does not contain any images.');
+    return;
+  }
+
+  const lock = readLock(manifestPath);
+  const changed = jobs.filter(job => !isUpToDate(manifestPath, job, lock));
+  let toRun = changed;
+
+  if (changed.length < jobs.length) {
+    const choice = await vscode.window.showQuickPick([
+      { label: `$(sync) Generate ${changed.length} new or changed image(s)`, description: `${jobs.length - changed.length} up to date`, value: 'changed' },
+      { label: `$(refresh) Regenerate all ${jobs.length} image(s)`, value: 'all' }
+    ], {
+      placeHolder: path.basename(manifestPath),
+      title: '🍌 Banana Studio - Generate from Manifest'
+    });
+
+    if (!choice) return;
+    toRun = choice.value === 'all' ? jobs : changed;
+  }
+
+  if (toRun.length === 0) {
+    vscode.window.showInformationMessage(`All ${jobs.length} image(s) are up to date.`);
+    return;
+  }
+
+  const config = getConfig();
+  const rows = new Map<number, SummaryRow>();
+  for (const job of jobs) {
+    rows.set(job.index, {
+      label: getLockKey(manifestPath, job),
+      status: 'skipped',
+      detail: toRun.includes(job) ? 'Cancelled' : 'Up to date',
+      filePath: fs.existsSync(job.outputPath) ? job.outputPath : undefined
+    });
+  }
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Generating from manifest...',
+    cancellable: true
+  }, async (progress, token) => {
+    for (const [i, job] of toRun.entries()) {
+      if (token.isCancellationRequested) break;
+
+      const label = getLockKey(manifestPath, job);
+      progress.report({ message: `${i + 1}/${toRun.length}: ${label}`, increment: 100 / toRun.length });
+
+      try {
+        const result = await generateImageFile(withJobScope(provider, { file: job.outputPath, token }), job.prompt, job.outputPath, {
+          model: job.model || provider.imageModel,
+          aspectRatio: job.aspectRatio || config.aspectRatio,
+          resolution: job.resolution || config.resolution
+        }, job.referencePaths);
+
+        if (result.image) {
+          lock[label] = job.hash;
+          writeLock(manifestPath, lock);
+          rows.set(job.index, { label, status: 'success', detail: job.prompt, filePath: result.savedPath });
+        } else {
+          rows.set(job.index, { label, status: 'failed', detail: describeNoImage(result, job.referencePaths.length > 0) });
         }
+      } catch (error: any) {
+        if (error instanceof JobCancelledError) break;
+        console.error(`Nano Banana: Manifest entry ${label} failed:`, error);
+        rows.set(job.index, { label, status: 'failed', detail: error.message });
       }
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to generate image: ${error.message}`);
     }
   });
+
+  showSummaryPanel(context, `Manifest: ${path.basename(manifestPath)}`, Array.from(rows.values()));
 }
 
 // ==================== IMAGE EDITING ====================
@@ -801,10 +1778,11 @@ async function editImageFromExplorer(context: vscode.ExtensionContext, uri: vsco
 }
 
 async function editImage(context: vscode.ExtensionContext, imagePath: string) {
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
 
   // Pick model, aspect ratio, resolution
-  const options = await pickModelBeforeAction();
+  const options = await pickModelBeforeAction(provider);
   if (!options) return;
 
   const prompt = await vscode.window.showInputBox({
@@ -820,35 +1798,32 @@ async function editImage(context: vscode.ExtensionContext, imagePath: string) {
   const dir = path.dirname(imagePath);
   const defaultPath = path.join(dir, `${baseName}_edited.png`);
 
-  const saveUri = await vscode.window.showSaveDialog({
-    filters: { 'Images': ['png'] },
-    defaultUri: vscode.Uri.file(defaultPath)
-  });
+  const saveUri = await showImageSaveDialog('edit', defaultPath);
 
   if (!saveUri) return;
 
   await editAndSaveImage(context, imagePath, prompt, saveUri.fsPath, options);
 }
 
-async function quickEdit(context: vscode.ExtensionContext, uri?: vscode.Uri) {
-  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+async function quickEdit(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length > 1) {
+    await quickEditImages(context, imagePaths);
+    return;
+  }
 
-  if (!imagePath || !isImageFile(imagePath)) {
+  const imagePath = imagePaths[0];
+  if (!imagePath) {
     vscode.window.showErrorMessage('Please select an image file.');
     return;
   }
 
-  if (!await ensureAI()) return;
-
-  const config = getConfig();
-  const items = config.quickPrompts.map(p => ({
-    label: p.label,
-    description: `[${p.category || 'custom'}]`,
-    detail: p.prompt,
-    prompt: p.prompt
-  }));
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
 
-  if (items.length === 0) {
+  const quickPrompts = getQuickPrompts();
+  if (quickPrompts.length === 0) {
     const action = await vscode.window.showWarningMessage(
       'No quick prompts configured.',
       'Add Quick Prompt',
@@ -864,211 +1839,1280 @@ async function quickEdit(context: vscode.ExtensionContext, uri?: vscode.Uri) {
     return;
   }
 
-  const selected = await vscode.window.showQuickPick(items, {
-    placeHolder: 'Select a quick edit preset'
-  });
+  const selected = await pickQuickPrompt(context, quickPrompts);
+  if (!selected) return;
+
+  // Pick model, aspect ratio, resolution
+  const options = await pickModelBeforeAction(provider);
+  if (!options) return;
+
+  const defaultPath = getQuickEditPath(imagePath, selected.quickPrompt);
+
+  const saveUri = await showImageSaveDialog('edit', defaultPath);
+
+  if (!saveUri) return;
+
+  await editAndSaveImage(context, imagePath, selected.prompt, saveUri.fsPath, options);
+}
+
+/** Ask for a quick prompt and the values of its variables; undefined when cancelled */
+async function pickQuickPrompt(context: vscode.ExtensionContext, quickPrompts: QuickPrompt[]): Promise<{ quickPrompt: QuickPrompt; prompt: string } | undefined> {
+  const items = getQuickPromptItems(quickPrompts, getRecentPrompts(context.globalState));
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a quick edit preset',
+    matchOnDetail: true
+  });
+
+  if (!selected?.prompt) return undefined;
+
+  const prompt = await resolveQuickPrompt(selected.prompt);
+  if (prompt === undefined) return undefined;
+  await markPromptUsed(context.globalState, selected.prompt);
+  return { quickPrompt: selected.prompt, prompt };
+}
+
+/** Default name of a quick edit result: the input name with the preset label appended */
+function getQuickEditPath(imagePath: string, quickPrompt: QuickPrompt): string {
+  const ext = path.extname(imagePath);
+  const baseName = path.basename(imagePath, ext);
+  const dir = path.dirname(imagePath);
+  return path.join(dir, `${baseName}_${quickPrompt.label.toLowerCase().replace(/\s+/g, '_')}.png`);
+}
+
+async function editAndSaveImage(context: vscode.ExtensionContext, imagePath: string, prompt: string, savePath: string, options?: GenerationOptions) {
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
+
+  const config = getConfig();
+  const model = options?.model || provider.imageModel;
+  const aspectRatio = options?.aspectRatio || config.aspectRatio;
+  const resolution = options?.resolution || config.resolution;
+  const variations = clampVariations(options?.variations ?? config.variations);
+
+  if (variations > 1) {
+    const request = { model, aspectRatio, resolution, useGoogleSearch: config.enableGoogleSearch };
+    await showVariations(context, provider, {
+      title: 'Edit Variations',
+      prompt,
+      savePath,
+      count: variations,
+      options: request,
+      sourcePath: imagePath,
+      operation: 'edit',
+      inputs: [imagePath],
+      generate: scopedProvider => sendWithBrandStyle(scopedProvider, [readImageInput(imagePath)], prompt, request, getBrandStyle(imagePath)),
+      onKept: savedPaths => {
+        savedPaths.forEach(p => recordHistory(provider, 'edit', prompt, request, [imagePath], p));
+        showComparisonPreview(context, imagePath, savedPaths[0]);
+      }
+    });
+    return;
+  }
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Editing image...',
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
+    try {
+      progress.report({ message: `Using ${await getModelDisplayName(provider, model, config.enableGoogleSearch)}...` });
+
+      const started = Date.now();
+      const request = { model, aspectRatio, resolution, useGoogleSearch: config.enableGoogleSearch };
+      const result = await sendWithBrandStyle(scopedProvider, [readImageInput(imagePath)], prompt, request, getBrandStyle(imagePath));
+      const textResponse = result.text;
+
+      if (result.image) {
+        const savedPath = await writeImageOutput(savePath, Buffer.from(result.image.data, 'base64'), 'edit',
+          data => withProvenance(data, provider, 'edit', prompt, request, [imagePath]));
+        recordHistory(provider, 'edit', prompt, request, [imagePath], savedPath, textResponse, Date.now() - started);
+        showComparisonPreview(context, imagePath, savedPath, textResponse, result.grounding);
+        vscode.window.showInformationMessage(`Edited image saved to: ${savedPath}`);
+      } else {
+        showNoImageResult(context, result, prompt, true,
+          retryPrompt => editAndSaveImage(context, imagePath, retryPrompt, savePath, options));
+      }
+    } catch (error: any) {
+      showRequestError('Failed to edit image', error);
+    }
+  });
+}
+
+async function startEditSession(context: vscode.ExtensionContext, uri?: vscode.Uri) {
+  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+
+  if (!imagePath || !isImageFile(imagePath)) {
+    vscode.window.showErrorMessage('Please select an image file.');
+    return;
+  }
+
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
+
+  // Pick model, aspect ratio, resolution once for the whole session
+  const options = await pickModelBeforeAction(provider);
+  if (!options) return;
+
+  const config = getConfig();
+  EditSession.start({
+    imagePath,
+    sourceImage: readImageInput(imagePath),
+    provider,
+    options: { model: options.model, aspectRatio: options.aspectRatio, resolution: options.resolution, useGoogleSearch: config.enableGoogleSearch },
+    storageDir: path.join(context.globalStorageUri.fsPath, 'sessions', Date.now().toString()),
+    embedMetadata: config.embedMetadata,
+    showSaveDialog: defaultPath => showImageSaveDialog('edit', defaultPath),
+    writeOutput: (savePath, data, stamp) => writeImageOutput(savePath, data, 'edit', stamp, 'edit session')
+  });
+}
+
+/**
+ * Replace only the painted region of an image. Invoked by the image editor
+ * with the instruction and a PNG mask the size of the image.
+ */
+async function inpaintImage(context: vscode.ExtensionContext, uri: vscode.Uri, prompt: string, maskData: string): Promise<boolean> {
+  const imagePath = uri?.fsPath;
+  if (!imagePath || !isImageFile(imagePath) || !prompt || !maskData) {
+    vscode.window.showErrorMessage('Paint a region and enter an instruction to inpaint.');
+    return false;
+  }
+
+  const provider = await ensureProvider('edit');
+  if (!provider) return false;
+
+  const mask = Buffer.from(maskData.replace(/^data:image\/png;base64,/, ''), 'base64');
+  const bounds = await getMaskBounds(mask);
+  if (!bounds) {
+    vscode.window.showErrorMessage('The mask is empty. Paint the region you want to change first.');
+    return false;
+  }
+
+  let source: Buffer;
+  let width: number;
+  let height: number;
+  try {
+    source = await fs.promises.readFile(imagePath);
+    ({ width, height } = (await decodeImage(source)).bitmap);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to read image: ${error.message}`);
+    return false;
+  }
+
+  const options = await pickModelBeforeAction(provider, { aspectRatio: getClosestAspectRatio(width, height) });
+  if (!options) return false;
+
+  const ext = path.extname(imagePath);
+  const baseName = path.basename(imagePath, ext);
+  const saveUri = await showImageSaveDialog('edit', path.join(path.dirname(imagePath), `${baseName}_inpainted.png`));
+
+  if (!saveUri) return false;
+
+  const config = getConfig();
+
+  // The model sees the whole image; the mask composite guarantees nothing else changes
+  const percent = (value: number, total: number) => Math.round((value / total) * 100);
+  const regionPrompt = `${prompt}\n\nApply this change only inside the region from ${percent(bounds.x, width)}% to ${percent(bounds.x + bounds.width, width)}% horizontally and ${percent(bounds.y, height)}% to ${percent(bounds.y + bounds.height, height)}% vertically. Keep everything else exactly as it is, with the same framing and dimensions.`;
+  const blend = async (result: ImageResult): Promise<ImageResult> => {
+    if (!result.image) return result;
+    const output = await compositeWithMask(source, Buffer.from(result.image.data, 'base64'), mask, config.inpaintFeather);
+    return { ...result, image: { mimeType: 'image/png', data: output.toString('base64') } };
+  };
+
+  const variations = clampVariations(options.variations ?? config.variations);
+  if (variations > 1) {
+    return showVariations(context, provider, {
+      title: 'Inpaint Variations',
+      prompt,
+      savePath: saveUri.fsPath,
+      count: variations,
+      options,
+      sourcePath: imagePath,
+      operation: 'inpaint',
+      inputs: [imagePath],
+      generate: scopedProvider => scopedProvider.edit(readImageInput(imagePath), regionPrompt, options),
+      blend,
+      onKept: savedPaths => showComparisonPreview(context, imagePath, savedPaths[0])
+    });
+  }
+
+  return vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Inpainting region...',
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
+    try {
+      progress.report({ message: `Using ${await getModelDisplayName(provider, options.model)}...` });
+      const result = await scopedProvider.edit(readImageInput(imagePath), regionPrompt, options);
+
+      if (!result.image) {
+        showNoImageResult(context, result, prompt, true, retryPrompt => inpaintImage(context, uri, retryPrompt, maskData));
+        return false;
+      }
+
+      progress.report({ message: 'Blending region...' });
+      const blended = await blend(result);
+      const savedPath = await writeImageOutput(saveUri.fsPath, Buffer.from(blended.image!.data, 'base64'), 'inpaint',
+        data => withProvenance(data, provider, 'inpaint', prompt, options, [imagePath]));
+      showComparisonPreview(context, imagePath, savedPath, result.text);
+      vscode.window.showInformationMessage(`Inpainted image saved to: ${savedPath}`);
+      return true;
+    } catch (error: any) {
+      showRequestError('Failed to inpaint image', error);
+      return false;
+    }
+  });
+}
+
+/** Grow an image to a new aspect ratio or by explicit padding and let the model fill the new area */
+async function extendImageCanvas(context: vscode.ExtensionContext, uri?: vscode.Uri) {
+  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+
+  if (!imagePath || !isImageFile(imagePath)) {
+    vscode.window.showErrorMessage('Please select an image file.');
+    return;
+  }
+
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
+
+  let original;
+  try {
+    original = await readImage(imagePath);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to read image: ${error.message}`);
+    return;
+  }
+  const { width, height } = original.bitmap;
+
+  const items = [
+    ...ASPECT_RATIOS.map(ratio => {
+      const padding = getPaddingForAspectRatio(width, height, ratio);
+      const newWidth = width + padding.left + padding.right;
+      const newHeight = height + padding.top + padding.bottom;
+      return { label: ratio, description: `${ASPECT_RATIO_DESCRIPTIONS[ratio]} - ${newWidth}x${newHeight}`, padding };
+    }).filter(item => item.padding.top + item.padding.right + item.padding.bottom + item.padding.left > 0),
+    { label: '$(edit) Custom Padding...', description: 'Pixels to add on each side', padding: undefined }
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Extend ${width}x${height} canvas to...`
+  });
+
+  if (!selected) return;
+
+  let padding: CanvasPadding | undefined = selected.padding;
+  if (!padding) {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Pixels to add: top, right, bottom, left',
+      placeHolder: 'e.g. 0, 200, 0, 200',
+      ignoreFocusOut: true,
+      validateInput: value => parsePadding(value) ? null : 'Enter four non-negative whole numbers, at least one above 0'
+    });
+    if (!input) return;
+    padding = parsePadding(input)!;
+  }
+
+  const hint = await vscode.window.showInputBox({
+    placeHolder: 'e.g. continue the beach and sky',
+    prompt: 'Describe what should fill the new area (optional)',
+    ignoreFocusOut: true
+  });
+
+  if (hint === undefined) return;
+
+  const aspectRatio = selected.padding
+    ? selected.label
+    : getClosestAspectRatio(width + padding.left + padding.right, height + padding.top + padding.bottom);
+  const options = await pickModelBeforeAction(provider, { aspectRatio });
+  if (!options) return;
+
+  const ext = path.extname(imagePath);
+  const baseName = path.basename(imagePath, ext);
+  const saveUri = await showImageSaveDialog('edit', path.join(path.dirname(imagePath), `${baseName}_extended.png`));
+
+  if (!saveUri) return;
+
+  const prompt = 'The gray areas around this image are empty canvas. Fill them so the picture extends naturally beyond its original borders, '
+    + 'matching perspective, lighting, colors and style. Do not change, move or crop the existing content.'
+    + (hint.trim() ? ` ${hint.trim()}` : '');
+
+  await outpaintImage(context, provider, imagePath, padding, options, prompt, saveUri.fsPath);
+}
+
+/** Send the extended canvas to the model and blend its fill into the new area */
+async function outpaintImage(context: vscode.ExtensionContext, provider: ImageProvider, imagePath: string, padding: CanvasPadding, options: GenerationOptions, prompt: string, savePath: string) {
+  const config = getConfig();
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Extending canvas...',
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
+    try {
+      const extended = await extendCanvas(imagePath, padding);
+      progress.report({ message: `Using ${await getModelDisplayName(provider, options.model)}...` });
+
+      const result = await scopedProvider.edit({ mimeType: 'image/png', data: extended.canvas.toString('base64') }, prompt, options);
+
+      if (!result.image) {
+        showNoImageResult(context, result, prompt, true,
+          retryPrompt => outpaintImage(context, provider, imagePath, padding, options, retryPrompt, savePath));
+        return;
+      }
+
+      progress.report({ message: 'Blending new area...' });
+      const output = await compositeWithMask(extended.canvas, Buffer.from(result.image.data, 'base64'), extended.mask, config.inpaintFeather);
+      const savedPath = await writeImageOutput(savePath, output, 'outpaint',
+        data => withProvenance(data, provider, 'outpaint', prompt, options, [imagePath]));
+      showComparisonPreview(context, imagePath, savedPath, result.text);
+      vscode.window.showInformationMessage(`Extended image (${extended.width}x${extended.height}) saved to: ${savedPath}`);
+    } catch (error: any) {
+      showRequestError('Failed to extend canvas', error);
+    }
+  });
+}
+
+/** `"10, 20, 10, 20"` -> padding in CSS order (top, right, bottom, left) */
+function parsePadding(value: string): CanvasPadding | undefined {
+  const parts = value.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isInteger(n) || n < 0) || parts.every(n => n === 0)) {
+    return undefined;
+  }
+  const [top, right, bottom, left] = parts;
+  return { top, right, bottom, left };
+}
+
+// ==================== VARIATIONS ====================
+
+interface VariationRequest {
+  title: string;
+  prompt: string;
+  savePath: string;
+  count: number;
+  options: GenerationOptions;
+  sourcePath?: string;
+  /** Recorded in the provenance of every kept image */
+  operation: ProvenanceOperation;
+  inputs: string[];
+  /** Sends one request through the given provider */
+  generate: (provider: ImageProvider) => Promise<ImageResult>;
+  /** Applied to every returned image, also those of "More like this", e.g. to blend it into the source */
+  blend?: (result: ImageResult) => Promise<ImageResult>;
+  onKept: (savedPaths: string[]) => void;
+}
+
+function clampVariations(count: number): number {
+  return Math.min(Math.max(Math.round(count) || 1, 1), 8);
+}
+
+/**
+ * Run `count` requests in parallel and write every returned image to
+ * `tempDir`. Failed requests are reported but do not fail the batch.
+ */
+async function generateCandidates(count: number, tempDir: string, generate: () => Promise<ImageResult>): Promise<string[]> {
+  const results = await Promise.allSettled(Array.from({ length: count }, () => generate()));
+  fs.mkdirSync(tempDir, { recursive: true });
+
+  const paths: string[] = [];
+  const errors: string[] = [];
+  let firstFailure: unknown;
+
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      firstFailure ??= result.reason;
+      errors.push(getErrorMessage(result.reason));
+    } else if (!result.value.image) {
+      errors.push(describeNoImage(result.value, false));
+    } else {
+      const ext = getExtensionForMimeType(result.value.image.mimeType);
+      const candidatePath = path.join(tempDir, `candidate-${Date.now()}-${i}${ext}`);
+      fs.writeFileSync(candidatePath, Buffer.from(result.value.image.data, 'base64'));
+      paths.push(candidatePath);
+    }
+  });
+
+  if (errors.length > 0) {
+    console.error('Nano Banana: Some variations failed:', errors);
+    if (paths.length > 0) {
+      vscode.window.showWarningMessage(`${errors.length} of ${count} variation(s) failed: ${errors[0]}`);
+    }
+  }
+  if (paths.length === 0) {
+    // Rethrow the original error so it can still be classified
+    throw firstFailure ?? new Error(errors[0] || 'No image was generated.');
+  }
+  return paths;
+}
+
+/** Generate the candidates and show them in the gallery; false when none could be generated */
+async function showVariations(context: vscode.ExtensionContext, provider: ImageProvider, request: VariationRequest): Promise<boolean> {
+  const tempDir = path.join(context.globalStorageUri.fsPath, 'variations', String(Date.now()));
+  const config = getConfig();
+  const blend = (result: ImageResult) => request.blend ? request.blend(result) : result;
+  const stamp = (data: Buffer) => withProvenance(data, provider, request.operation, request.prompt, request.options, request.inputs);
+
+  const candidates = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Generating ${request.count} variations...`,
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: request.sourcePath || request.savePath, token });
+    try {
+      progress.report({ message: `Using ${await getModelDisplayName(provider, request.options.model, config.enableGoogleSearch)}...` });
+      return await generateCandidates(request.count, tempDir, async () => blend(await request.generate(scopedProvider)));
+    } catch (error: any) {
+      showRequestError('Failed to generate variations', error);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      return undefined;
+    }
+  });
+
+  if (!candidates) return false;
+
+  VariationGallery.show({
+    title: request.title,
+    prompt: request.prompt,
+    savePath: request.savePath,
+    tempDir,
+    candidates,
+    sourcePath: request.sourcePath,
+    requestMore: candidatePath => generateCandidates(request.count, tempDir, async () => blend(await sendWithBrandStyle(
+      withJobScope(provider, { file: request.sourcePath || request.savePath }),
+      [readImageInput(candidatePath)],
+      getMoreLikeThisPrompt(request),
+      { ...request.options, useGoogleSearch: config.enableGoogleSearch },
+      getBrandStyle(request.sourcePath || request.savePath)
+    ))),
+    save: (candidatePath, targetPath) => writeImageOutput(targetPath, fs.readFileSync(candidatePath), request.operation, stamp),
+    onKept: request.onKept
+  });
+  return true;
+}
+
+/**
+ * Prompt for "More like this". A generation prompt describes the image, so
+ * it is repeated; an edit instruction is already applied to the candidate
+ * and must not be applied a second time.
+ */
+function getMoreLikeThisPrompt(request: VariationRequest): string {
+  const base = 'Create a close variation of this image, keeping its composition, content and style.';
+  return request.sourcePath
+    ? `${base} Do not make any other changes.`
+    : `${base} The image shows: ${request.prompt}`;
+}
+
+async function setVariations() {
+  const config = getConfig();
+  const items = [1, 2, 3, 4, 6, 8].map(n => ({
+    label: config.variations === n ? `$(check) ${n}` : String(n),
+    description: n === 1 ? 'Save the result directly' : 'Pick from a gallery',
+    value: n
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Number of variations to generate per request'
+  });
+
+  if (selected) {
+    await vscode.workspace.getConfiguration('nanoBanana').update('variations', selected.value, vscode.ConfigurationTarget.Global);
+    vscode.window.showInformationMessage(`Variations set to: ${selected.value}`);
+  }
+}
+
+async function composeImages(context: vscode.ExtensionContext) {
+  const provider = await ensureProvider('compose');
+  if (!provider) return;
+
+  const maxImages = (await getModelRegistry()).maxInputImages(provider.id);
+  if (maxImages < 2) {
+    vscode.window.showErrorMessage(`${provider.displayName} cannot compose multiple images.`);
+    return;
+  }
+
+  const imageUris = await vscode.window.showOpenDialog({
+    canSelectMany: true,
+    filters: { 'Images': ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'] },
+    openLabel: `Select Images to Compose (2-${maxImages})`
+  });
+
+  if (!imageUris || imageUris.length < 2) {
+    vscode.window.showErrorMessage('Please select at least 2 images.');
+    return;
+  }
+
+  if (imageUris.length > maxImages) {
+    vscode.window.showErrorMessage(`Maximum ${maxImages} images can be composed.`);
+    return;
+  }
+
+  // Only offer models that accept this many images
+  const options = await pickModelBeforeAction(provider, { minInputImages: imageUris.length });
+  if (!options) return;
+
+  const prompt = await vscode.window.showInputBox({
+    placeHolder: 'Describe how you want to combine these images...',
+    prompt: 'Enter composition instructions',
+    ignoreFocusOut: true
+  });
+
+  if (!prompt) return;
+
+  const saveUri = await showImageSaveDialog('compose', path.join(path.dirname(imageUris[0].fsPath), 'composed-image.png'));
+
+  if (!saveUri) return;
+
+  await composeAndSaveImages(context, imageUris.map(u => u.fsPath), prompt, saveUri.fsPath, options);
+}
+
+async function composeAndSaveImages(context: vscode.ExtensionContext, imagePaths: string[], prompt: string, savePath: string, options?: GenerationOptions) {
+  const provider = await ensureProvider('compose');
+  if (!provider) return;
+
+  const config = getConfig();
+  const registry = await getModelRegistry();
+  const model = options?.model || registry.findImageModel(provider.id, imagePaths.length, provider.imageModel) || provider.imageModel;
+  const aspectRatio = options?.aspectRatio || config.aspectRatio;
+  const resolution = options?.resolution || config.resolution;
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Composing images...',
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: savePath, token });
+    try {
+      progress.report({ message: `Using ${await getModelDisplayName(provider, model, config.enableGoogleSearch)} with ${imagePaths.length} images...` });
+
+      const started = Date.now();
+      const request = { model, aspectRatio, resolution, useGoogleSearch: config.enableGoogleSearch };
+      const result = await scopedProvider.compose(imagePaths.map(readImageInput), prompt, request);
+      const textResponse = result.text;
+
+      if (result.image) {
+        const savedPath = await writeImageOutput(savePath, Buffer.from(result.image.data, 'base64'), 'compose',
+          data => withProvenance(data, provider, 'compose', prompt, request, imagePaths));
+        recordHistory(provider, 'compose', prompt, request, imagePaths, savedPath, textResponse, Date.now() - started);
+        showImagePreview(context, savedPath, textResponse, result.grounding);
+        vscode.window.showInformationMessage(`Composed image saved to: ${savedPath}`);
+      } else {
+        showNoImageResult(context, result, prompt, true,
+          retryPrompt => composeAndSaveImages(context, imagePaths, retryPrompt, savePath, options));
+      }
+    } catch (error: any) {
+      showRequestError('Failed to compose images', error);
+    }
+  });
+}
+
+// ==================== BULK OPERATIONS ====================
+
+/** Outcome of a bulk task for one file; the summary row links `filePath`, or else the input */
+interface BulkResult {
+  status?: SummaryRow['status'];
+  detail?: string;
+  filePath?: string;
+}
+
+/**
+ * Images a command runs on: the explorer multi-selection, the clicked file
+ * or the active editor. Selected folders are expanded with a glob the user
+ * can adjust. Returns undefined when cancelled or no image matched.
+ */
+async function getSelectedImages(uri?: vscode.Uri, uris?: vscode.Uri[]): Promise<string[] | undefined> {
+  const selection = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+  if (selection.length === 0) {
+    const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    return activePath && isImageFile(activePath) ? [activePath] : [];
+  }
+  if (!hasFolder(selection)) {
+    return selection.map(u => u.fsPath).filter(isImageFile);
+  }
+
+  const config = getConfig();
+  const include = await vscode.window.showInputBox({
+    title: 'Images to Process',
+    prompt: 'Glob pattern for the images inside the selected folder(s)',
+    value: config.bulkInclude,
+    ignoreFocusOut: true
+  });
+  if (!include) return undefined;
+
+  const imagePaths = (await expandSelection(selection, include, config.bulkExclude)).filter(isImageFile);
+  if (imagePaths.length === 0) {
+    vscode.window.showWarningMessage(`No images matching ${include} found.`);
+    return undefined;
+  }
+  return imagePaths;
+}
+
+/**
+ * Run `task` on every image, at most `nanoBanana.bulk.concurrency` at a
+ * time, and finish with a summary of the result of every file. Cancelling
+ * lets running tasks finish and skips the rest.
+ */
+async function runBulkOperation(context: vscode.ExtensionContext, title: string, imagePaths: string[], task: (imagePath: string, token: vscode.CancellationToken) => Promise<BulkResult>) {
+  const config = getConfig();
+
+  const rows = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `${title}: ${imagePaths.length} images...`,
+    cancellable: true
+  }, async (progress, token) => {
+    const results = await runQueue(imagePaths, config.bulkConcurrency, imagePath => task(imagePath, token), {
+      isCancelled: () => token.isCancellationRequested,
+      onSettled: (done, total) => progress.report({ message: `${done}/${total} done`, increment: 100 / total })
+    });
+
+    return results.map((result, i): SummaryRow => {
+      const imagePath = imagePaths[i];
+      const label = vscode.workspace.asRelativePath(imagePath);
+      switch (result.status) {
+        case 'fulfilled':
+          return { label, status: result.value.status || 'success', detail: result.value.detail, filePath: result.value.filePath || imagePath };
+        case 'rejected':
+          if (result.reason instanceof JobCancelledError) {
+            return { label, status: 'skipped', detail: 'Cancelled', filePath: imagePath };
+          }
+          console.error(`Nano Banana: ${title} failed for ${label}:`, result.reason);
+          return { label, status: 'failed', detail: getErrorMessage(result.reason), filePath: imagePath };
+        case 'cancelled':
+          return { label, status: 'skipped', detail: 'Cancelled', filePath: imagePath };
+      }
+    });
+  });
+
+  showSummaryPanel(context, title, rows);
+}
+
+async function quickEditImages(context: vscode.ExtensionContext, imagePaths: string[]) {
+  const provider = await ensureProvider('edit');
+  if (!provider) return;
+
+  const quickPrompts = getQuickPrompts();
+  if (quickPrompts.length === 0) {
+    const action = await vscode.window.showWarningMessage('No quick prompts configured.', 'Add Quick Prompt');
+    if (action === 'Add Quick Prompt') {
+      await addQuickPrompt();
+    }
+    return;
+  }
+
+  const selected = await pickQuickPrompt(context, quickPrompts);
+  if (!selected) return;
+
+  const options = await pickModelBeforeAction(provider);
+  if (!options) return;
+
+  const config = getConfig();
+  const request = { model: options.model, aspectRatio: options.aspectRatio, resolution: options.resolution, useGoogleSearch: config.enableGoogleSearch };
+  const format = getDefaultOutputFormat('edit');
+
+  await runBulkOperation(context, `Quick Edit: ${selected.quickPrompt.label}`, imagePaths, async (imagePath, token) => {
+    const started = Date.now();
+    const result = await sendWithBrandStyle(withJobScope(provider, { file: imagePath, token }), [readImageInput(imagePath)], selected.prompt, request, getBrandStyle(imagePath));
+    if (!result.image) {
+      throw new Error(describeNoImage(result, true));
+    }
+
+    const savedPath = await writeImageOutput(withFormatExtension(getQuickEditPath(imagePath, selected.quickPrompt), format), Buffer.from(result.image.data, 'base64'), 'edit',
+      data => withProvenance(data, provider, 'edit', selected.prompt, request, [imagePath]));
+    recordHistory(provider, 'edit', selected.prompt, request, [imagePath], savedPath, result.text, Date.now() - started);
+    return { detail: `Saved ${path.basename(savedPath)}`, filePath: savedPath };
+  });
+}
+
+async function describeImages(context: vscode.ExtensionContext, imagePaths: string[]) {
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
+
+  await runBulkOperation(context, 'Describe Images', imagePaths, async (imagePath, token) => {
+    const response = await withJobScope(provider, { file: imagePath, token }).understand({
+      model: provider.understandingModel,
+      prompt: DESCRIBE_PROMPT,
+      images: [readImageInput(imagePath)]
+    });
+    return { detail: response || 'No description generated.' };
+  });
+}
+
+async function extractTextFromImages(context: vscode.ExtensionContext, imagePaths: string[]) {
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
+
+  await runBulkOperation(context, 'Extract Text (OCR)', imagePaths, async (imagePath, token) => {
+    const response = await withJobScope(provider, { file: imagePath, token }).understand({
+      model: provider.understandingModel,
+      prompt: OCR_PROMPT,
+      images: [readImageInput(imagePath)]
+    });
+    return { detail: response || 'No text found.' };
+  });
+}
+
+async function detectSensitiveDataInImages(context: vscode.ExtensionContext, imagePaths: string[]) {
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
+
+  const prompt = getSensitiveDataPrompt();
+  await runBulkOperation(context, 'Sensitive Data Scan', imagePaths, async (imagePath, token) => {
+    const response = await withJobScope(provider, { file: imagePath, token }).understand({
+      model: provider.understandingModel,
+      prompt: prompt,
+      images: [readImageInput(imagePath)],
+      responseMimeType: 'application/json'
+    });
+
+    const detections = parseJsonResponse(response || '[]');
+    if (detections.length === 0) {
+      return { detail: 'No sensitive data found' };
+    }
+    const found = detections.map((d: any) => d.value ? `${d.type}: ${d.value}` : d.type);
+    return { detail: `Found ${detections.length} item(s):\n${found.join('\n')}` };
+  });
+}
+
+async function autoBlurImages(context: vscode.ExtensionContext, imagePaths: string[]) {
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
+
+  await runBulkOperation(context, 'Auto-Blur Sensitive Data', imagePaths, async (imagePath, token) => {
+    const detections = await detectSensitiveRegions(withJobScope(provider, { file: imagePath, token }), readImageInput(imagePath));
+    if (detections.length === 0) {
+      return { status: 'skipped', detail: 'No sensitive data detected' };
+    }
+
+    const { regionsBlurred } = await blurImageFile(imagePath, detections);
+    return regionsBlurred > 0
+      ? { detail: `Redacted ${regionsBlurred} region(s). Previous version in Banana Versions` }
+      : { status: 'skipped', detail: 'No valid regions to redact' };
+  });
+}
+
+// ==================== PIPELINES ====================
+
+interface PipelineItem extends vscode.QuickPickItem {
+  pipeline: Pipeline;
+}
+
+/** Pipelines from `nanoBanana.pipelines`; invalid ones are reported and left out */
+function getPipelines(): Pipeline[] {
+  const pipelines: Pipeline[] = [];
+  getConfig().pipelines.forEach((value, i) => {
+    try {
+      pipelines.push(validatePipeline(value, i));
+    } catch (error) {
+      vscode.window.showWarningMessage(getErrorMessage(error));
+    }
+  });
+  return pipelines;
+}
+
+/**
+ * Replace quick prompt steps by edits with the filled prompt, so variables
+ * are asked once for every selected image. Returns undefined when a prompt
+ * is missing or the user cancels.
+ */
+async function resolvePipelineSteps(context: vscode.ExtensionContext, pipeline: Pipeline): Promise<Pipeline | undefined> {
+  const steps: PipelineStep[] = [];
+
+  for (const step of pipeline.steps) {
+    if (step.type !== 'quickPrompt') {
+      steps.push(step);
+      continue;
+    }
+
+    const quickPrompt = getQuickPrompts().find(p => p.label === step.label);
+    if (!quickPrompt) {
+      vscode.window.showErrorMessage(`Pipeline "${pipeline.name}": quick prompt "${step.label}" not found.`);
+      return undefined;
+    }
+    const prompt = await resolveQuickPrompt(quickPrompt);
+    if (prompt === undefined) return undefined;
+    await markPromptUsed(context.globalState, quickPrompt);
+    steps.push({ type: 'edit', prompt });
+  }
+
+  return { ...pipeline, steps };
+}
+
+/** Name of a pipeline result: the input name with the pipeline suffix, in the format the pipeline produced */
+function getPipelineOutputPath(imagePath: string, pipeline: Pipeline, format: OutputFormat): string {
+  const ext = path.extname(imagePath);
+  const suffix = pipeline.suffix ?? `_${pipeline.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}`;
+  return withFormatExtension(path.join(path.dirname(imagePath), `${path.basename(imagePath, ext)}${suffix}${ext}`), format);
+}
+
+function getPipelineServices(
+  imagePath: string,
+  editProvider: ImageProvider | undefined,
+  understandProvider: ImageProvider | undefined,
+  request: ImageRequestOptions,
+  token: vscode.CancellationToken
+): PipelineServices {
+  const toInput = (image: Buffer): ImageInput => ({ mimeType: 'image/png', data: image.toString('base64') });
+  const scope = { file: imagePath, token };
+
+  return {
+    edit: async (image, prompt) => {
+      const result = await sendWithBrandStyle(withJobScope(editProvider!, scope), [toInput(image)], prompt, request, getBrandStyle(imagePath));
+      if (!result.image) {
+        throw new Error(describeNoImage(result, true));
+      }
+      return Buffer.from(result.image.data, 'base64');
+    },
+    redact: async image => {
+      const detections = await detectSensitiveRegions(withJobScope(understandProvider!, scope), toInput(image));
+      if (detections.length === 0) {
+        return { image, regions: 0 };
+      }
+      const decoded = await decodeImage(image);
+      const regions = await redactDetections(decoded, detections, getRedactionOptions());
+      return { image: await decoded.getBuffer('image/png'), regions };
+    },
+    describe: async (image, prompt) => {
+      const response = await withJobScope(understandProvider!, scope).understand({
+        model: understandProvider!.understandingModel,
+        prompt: prompt || DESCRIBE_PROMPT,
+        images: [toInput(image)]
+      });
+      return response || 'No description generated.';
+    },
+    resolvePath: filePath => {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(imagePath));
+      return path.resolve(folder?.uri.fsPath || path.dirname(imagePath), filePath);
+    }
+  };
+}
+
+/**
+ * Run a pipeline on the selected images. Each result is written next to its
+ * input, and the image after every step is kept in the extension storage.
+ * One image ends in a before/after preview, several in a summary.
+ */
+async function runPipelineOnFiles(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length === 0) {
+    vscode.window.showErrorMessage('Please select one or more image files.');
+    return;
+  }
+
+  const pipelines = getPipelines();
+  if (pipelines.length === 0) {
+    const action = await vscode.window.showWarningMessage('No pipelines configured.', 'Open Settings');
+    if (action === 'Open Settings') {
+      vscode.commands.executeCommand('workbench.action.openSettings', 'nanoBanana.pipelines');
+    }
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick<PipelineItem>(pipelines.map(p => ({
+    label: p.name,
+    description: p.description,
+    detail: p.steps.map(describeStep).join(' → '),
+    pipeline: p
+  })), {
+    placeHolder: imagePaths.length === 1 ? 'Select a pipeline' : `Select a pipeline to run on ${imagePaths.length} images`,
+    matchOnDescription: true
+  });
+  if (!selected) return;
+
+  const pipeline = await resolvePipelineSteps(context, selected.pipeline);
+  if (!pipeline) return;
+
+  const editPrompts = pipeline.steps.flatMap(s => s.type === 'edit' ? [s.prompt] : []);
+  const editProvider = editPrompts.length > 0 ? await ensureProvider('edit') : undefined;
+  if (editPrompts.length > 0 && !editProvider) return;
+  const needsUnderstanding = pipeline.steps.some(s => s.type === 'redact' || s.type === 'describe');
+  const understandProvider = needsUnderstanding ? await ensureProvider('understand') : undefined;
+  if (needsUnderstanding && !understandProvider) return;
+
+  const config = getConfig();
+  const request: ImageRequestOptions = {
+    model: editProvider?.imageModel || config.model,
+    aspectRatio: config.aspectRatio,
+    resolution: config.resolution,
+    useGoogleSearch: config.enableGoogleSearch
+  };
+  const runDir = path.join(context.globalStorageUri.fsPath, 'pipelines', String(Date.now()));
+  const hasConvertStep = pipeline.steps.some(s => s.type === 'convert');
+
+  const runOnImage = async (imagePath: string, token: vscode.CancellationToken, onStep?: (index: number, step: PipelineStep) => void) => {
+    const result = await runPipeline(pipeline, fs.readFileSync(imagePath), getPipelineServices(imagePath, editProvider, understandProvider, request, token), {
+      quality: config.outputQuality,
+      isCancelled: () => token.isCancellationRequested,
+      onStep
+    });
+
+    // Keep the image after every step so intermediate results can be inspected
+    const stepDir = path.join(runDir, `${imagePaths.indexOf(imagePath) + 1}-${path.basename(imagePath, path.extname(imagePath))}`);
+    fs.mkdirSync(stepDir, { recursive: true });
+    result.steps.forEach((s, j) => fs.writeFileSync(path.join(stepDir, `${String(j + 1).padStart(2, '0')}-${s.step.type}.png`), s.image));
+
+    // A convert step picks the format; otherwise the output format of edits applies
+    const setting = getOutputFormat('edit');
+    const format = hasConvertStep || setting === 'original' ? result.format : setting;
+    const outputPath = await writeImageOutput(getPipelineOutputPath(imagePath, pipeline, format), result.output, 'edit',
+      data => editProvider ? withProvenance(data, editProvider, 'edit', editPrompts.join('\n'), request, [imagePath]) : data,
+      'pipeline');
+
+    return { outputPath, stepDir, summary: result.steps.map(s => s.summary).join('\n') };
+  };
+
+  if (imagePaths.length > 1) {
+    await runBulkOperation(context, `Pipeline: ${pipeline.name}`, imagePaths, async (imagePath, token) => {
+      const run = await runOnImage(imagePath, token);
+      return { detail: run.summary, filePath: run.outputPath };
+    });
+    return;
+  }
+
+  const run = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Running "${pipeline.name}"...`,
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      return await runOnImage(imagePaths[0], token, (index, step) => progress.report({
+        message: `Step ${index + 1}/${pipeline.steps.length}: ${describeStep(step)}`
+      }));
+    } catch (error) {
+      showRequestError(`Pipeline "${pipeline.name}" failed`, error);
+      return undefined;
+    }
+  });
+  if (!run) return;
+
+  showComparisonPreview(context, imagePaths[0], run.outputPath, run.summary.split('\n').map(escapeHtml).join('<br>'));
+  const action = await vscode.window.showInformationMessage(`Pipeline result saved to: ${run.outputPath}`, 'Show Intermediate Steps');
+  if (action === 'Show Intermediate Steps') {
+    vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(run.stepDir));
+  }
+}
+
+// ==================== BRAND STYLE ====================
 
-  if (!selected) return;
+/**
+ * Brand style of the workspace folder holding `targetPath`, or of the first
+ * folder. Throws a StyleError when the style file is invalid.
+ */
+function getBrandStyle(targetPath?: string): ResolvedBrandStyle | undefined {
+  if (!getConfig().useBrandStyle) return undefined;
 
-  // Pick model, aspect ratio, resolution
-  const options = await pickModelBeforeAction();
-  if (!options) return;
+  const folder = (targetPath && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(targetPath))) || vscode.workspace.workspaceFolders?.[0];
+  const stylePath = folder && findStyleFile(folder.uri.fsPath);
+  return stylePath ? readBrandStyle(stylePath) : undefined;
+}
 
-  const ext = path.extname(imagePath);
-  const baseName = path.basename(imagePath, ext);
-  const dir = path.dirname(imagePath);
-  const defaultPath = path.join(dir, `${baseName}_${selected.label.toLowerCase().replace(/\s+/g, '_')}.png`);
+/**
+ * Send a request with the brand style text added to the prompt and its
+ * reference images after `images`: none makes it a generation, one an edit
+ * and several a composition.
+ */
+function sendWithBrandStyle(provider: ImageProvider, images: ImageInput[], prompt: string, request: ImageRequestOptions, style: ResolvedBrandStyle | undefined): Promise<ImageResult> {
+  const styledPrompt = style ? applyBrandStyle(prompt, style, images.length) : prompt;
+  const all = [...images, ...(style?.referencePaths || []).map(readImageInput)];
+
+  if (all.length === 0) {
+    return provider.generate(styledPrompt, request);
+  } else if (all.length === 1) {
+    return provider.edit(all[0], styledPrompt, request);
+  }
+  return provider.compose(all, styledPrompt, request);
+}
 
-  const saveUri = await vscode.window.showSaveDialog({
-    filters: { 'Images': ['png'] },
-    defaultUri: vscode.Uri.file(defaultPath)
-  });
+/** Open the brand style file of a workspace folder, creating it from a template */
+async function editBrandStyle() {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length === 0) {
+    vscode.window.showErrorMessage('Open a folder to define a brand style.');
+    return;
+  }
 
-  if (!saveUri) return;
+  const folder = folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Folder to define the brand style for' });
+  if (!folder) return;
 
-  await editAndSaveImage(context, imagePath, selected.prompt, saveUri.fsPath, options);
+  let stylePath = findStyleFile(folder.uri.fsPath);
+  if (!stylePath) {
+    stylePath = path.join(folder.uri.fsPath, STYLE_FILES[0]);
+    fs.mkdirSync(path.dirname(stylePath), { recursive: true });
+    fs.writeFileSync(stylePath, JSON.stringify(STYLE_TEMPLATE, null, 2) + '\n');
+  }
+
+  await vscode.window.showTextDocument(vscode.Uri.file(stylePath));
 }
 
-async function editAndSaveImage(context: vscode.ExtensionContext, imagePath: string, prompt: string, savePath: string, options?: GenerationOptions) {
+// ==================== OUTPUT FORMAT ====================
+
+type OutputOperation = Exclude<ProviderOperation, 'understand'>;
+
+/** Format setting for the operation; inpainting and outpainting count as edits */
+function getOutputFormat(operation: ProvenanceOperation): OutputFormatSetting {
   const config = getConfig();
-  const model = options?.model || config.model;
-  const aspectRatio = options?.aspectRatio || config.aspectRatio;
-  const resolution = options?.resolution || config.resolution;
+  const key: OutputOperation = operation === 'generate' || operation === 'compose' ? operation : 'edit';
+  return config.outputFormatOverrides[key] || config.outputFormat;
+}
 
-  await vscode.window.withProgress({
-    location: vscode.ProgressLocation.Notification,
-    title: 'Editing image...',
-    cancellable: false
-  }, async (progress) => {
-    try {
-      const modelName = model === 'gemini-2.5-flash-image' ? 'Banana Flash' : 'Banana Pro';
-      progress.report({ message: `Using ${modelName}...` });
-
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
-      const contents = [
-        { text: prompt },
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: base64Image
-          }
-        }
-      ];
+/** Format proposed in save dialogs and for file names typed without an extension */
+function getDefaultOutputFormat(operation: ProvenanceOperation): OutputFormat {
+  const format = getOutputFormat(operation);
+  return format === 'original' ? 'png' : format;
+}
 
-      let response;
+async function showImageSaveDialog(operation: ProvenanceOperation, defaultPath: string): Promise<vscode.Uri | undefined> {
+  const format = getDefaultOutputFormat(operation);
+  return vscode.window.showSaveDialog({
+    filters: getSaveFilters(format),
+    defaultUri: vscode.Uri.file(withFormatExtension(defaultPath, format))
+  });
+}
 
-      // Different API call format based on model
-      if (model === 'gemini-2.5-flash-image') {
-        // Flash model - simpler API
-        response = await ai.models.generateContent({
-          model: model,
-          contents: contents
-        });
-      } else {
-        // Pro model - supports full config with aspect ratio and resolution
-        response = await ai.models.generateContent({
-          model: model,
-          contents: contents,
-          config: {
-            responseModalities: ['TEXT', 'IMAGE'],
-            imageConfig: {
-              aspectRatio: aspectRatio,
-              imageSize: resolution
-            }
-          }
-        });
-      }
+/**
+ * Write a returned image so its bytes always match its extension. The
+ * extension of `savePath` picks the format and the image is transcoded when
+ * needed; with `original` the bytes are kept and the extension follows them
+ * instead. Provenance is stamped last since transcoding drops metadata.
+ * A file that is overwritten is kept in the version store, labeled with
+ * `versionOperation` when it differs from the provenance operation. Returns
+ * the path written.
+ */
+async function writeImageOutput(savePath: string, data: Buffer, operation: ProvenanceOperation, stamp: (data: Buffer) => Buffer, versionOperation: string = operation): Promise<string> {
+  const config = getConfig();
+  const setting = getOutputFormat(operation);
+  const returned = detectFormat(data);
+  const format = setting === 'original'
+    ? returned ?? getFormatForPath(savePath) ?? 'png'
+    : getFormatForPath(savePath) ?? setting;
+
+  const output = returned
+    ? await encodeImage(data, format, { quality: config.outputQuality, maxDimension: config.maxDimension })
+    : data;
+  const outputPath = withFormatExtension(savePath, format);
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  versions.save(outputPath, versionOperation);
+  fs.writeFileSync(outputPath, stamp(output));
+  return outputPath;
+}
 
-      let textResponse = '';
-      let outputImageData: string | undefined;
+// ==================== PROVENANCE ====================
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.text) {
-          textResponse += part.text;
-        } else if (part.inlineData) {
-          outputImageData = part.inlineData.data;
-        }
-      }
+/** Image bytes with how they were made embedded, unless disabled with `nanoBanana.embedMetadata` */
+function withProvenance(data: Buffer, provider: ImageProvider, operation: ProvenanceOperation, prompt: string, options: GenerationOptions, inputs: string[]): Buffer {
+  if (!getConfig().embedMetadata) return data;
 
-      if (outputImageData) {
-        const buffer = Buffer.from(outputImageData, 'base64');
-        fs.writeFileSync(savePath, buffer);
-        showComparisonPreview(context, imagePath, savePath, textResponse);
-        vscode.window.showInformationMessage(`Edited image saved to: ${savePath}`);
-      } else {
-        vscode.window.showErrorMessage('No image was generated.');
-        if (textResponse) {
-          showResultPanel(context, 'Edit Result', textResponse);
-        }
-      }
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to edit image: ${error.message}`);
-    }
-  });
+  try {
+    return embedProvenance(data, {
+      tool: PROVENANCE_TOOL,
+      operation,
+      provider: provider.id,
+      model: options.model,
+      aspectRatio: options.aspectRatio,
+      resolution: options.resolution,
+      prompt,
+      sources: inputs.map(p => vscode.workspace.asRelativePath(p)),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Nano Banana: Failed to embed provenance:', error);
+    return data;
+  }
 }
 
-async function composeImages(context: vscode.ExtensionContext) {
-  if (!await ensureAI()) return;
+async function showImageProvenance(context: vscode.ExtensionContext, uri?: vscode.Uri) {
+  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
 
-  const imageUris = await vscode.window.showOpenDialog({
-    canSelectMany: true,
-    filters: { 'Images': ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'] },
-    openLabel: 'Select Images to Compose (2-14)'
-  });
+  if (!imagePath || !isImageFile(imagePath)) {
+    vscode.window.showErrorMessage('Please select an image file.');
+    return;
+  }
 
-  if (!imageUris || imageUris.length < 2) {
-    vscode.window.showErrorMessage('Please select at least 2 images.');
+  const provenance = readProvenance(fs.readFileSync(imagePath));
+  if (!provenance) {
+    vscode.window.showInformationMessage(`${path.basename(imagePath)} has no ${PROVENANCE_TOOL} provenance metadata.`);
     return;
   }
 
-  if (imageUris.length > 14) {
-    vscode.window.showErrorMessage('Maximum 14 images can be composed.');
+  showResultPanel(context, `Provenance - ${path.basename(imagePath)}`, escapeHtml(formatProvenance(provenance)), imagePath);
+}
+
+// ==================== HISTORY ====================
+
+/** Remember how an image was made so it can be inspected and re-run from Banana History */
+function recordHistory(provider: ImageProvider, operation: HistoryOperation, prompt: string, options: GenerationOptions, inputs: string[], output: string, text?: string, durationMs?: number) {
+  history.add({
+    operation,
+    provider: provider.id,
+    model: options.model,
+    aspectRatio: options.aspectRatio,
+    resolution: options.resolution,
+    useGoogleSearch: getConfig().enableGoogleSearch || undefined,
+    prompt,
+    inputs,
+    output,
+    durationMs,
+    text: text || undefined
+  }).catch(error => console.error('Nano Banana: Failed to record history:', error));
+}
+
+function openHistoryEntry(context: vscode.ExtensionContext, entry: HistoryEntry) {
+  if (!fs.existsSync(entry.output)) {
+    vscode.window.showErrorMessage(`${path.basename(entry.output)} no longer exists.`);
     return;
   }
+  if (entry.operation === 'edit' && fs.existsSync(entry.inputs[0])) {
+    showComparisonPreview(context, entry.inputs[0], entry.output, entry.text);
+  } else {
+    showImagePreview(context, entry.output, entry.text);
+  }
+}
 
-  const prompt = await vscode.window.showInputBox({
-    placeHolder: 'Describe how you want to combine these images...',
-    prompt: 'Enter composition instructions',
-    ignoreFocusOut: true
-  });
+function compareHistoryEntry(context: vscode.ExtensionContext, entry: HistoryEntry) {
+  const before = entry.inputs[0];
+  if (!before || !fs.existsSync(before) || !fs.existsSync(entry.output)) {
+    vscode.window.showErrorMessage('The input or output of this entry no longer exists.');
+    return;
+  }
+  showComparisonPreview(context, before, entry.output, entry.text);
+}
 
-  if (!prompt) return;
+/** Run a recorded request again, optionally with an edited prompt, saving to a new location */
+async function rerunHistoryEntry(context: vscode.ExtensionContext, entry: HistoryEntry, tweakPrompt: boolean) {
+  let prompt = entry.prompt;
+  if (tweakPrompt) {
+    const tweaked = await vscode.window.showInputBox({
+      value: entry.prompt,
+      prompt: 'Edit the prompt and run it again',
+      ignoreFocusOut: true
+    });
+    if (!tweaked) return;
+    prompt = tweaked;
+  }
 
-  const saveUri = await vscode.window.showSaveDialog({
-    filters: { 'Images': ['png'] },
-    defaultUri: vscode.Uri.file(path.join(path.dirname(imageUris[0].fsPath), 'composed-image.png'))
-  });
+  const missing = entry.inputs.filter(p => !fs.existsSync(p));
+  if (missing.length > 0) {
+    vscode.window.showErrorMessage(`Input image not found: ${vscode.workspace.asRelativePath(missing[0])}`);
+    return;
+  }
+
+  const saveUri = await showImageSaveDialog(entry.operation, entry.output);
 
   if (!saveUri) return;
 
-  await composeAndSaveImages(context, imageUris.map(u => u.fsPath), prompt, saveUri.fsPath);
+  // A model name from another provider would fail, so fall back to the provider's default model
+  const sameProvider = entry.provider === getProviderId(entry.operation);
+  if (!sameProvider) {
+    vscode.window.showWarningMessage(`This image was made with ${entry.provider}; re-running with the current provider and its default model.`);
+  }
+  const options: GenerationOptions = {
+    model: sameProvider ? entry.model : '',
+    aspectRatio: entry.aspectRatio,
+    resolution: entry.resolution,
+    variations: 1
+  };
+
+  switch (entry.operation) {
+    case 'generate':
+      await generateAndSaveImage(context, prompt, saveUri.fsPath, options, entry.inputs);
+      break;
+    case 'edit':
+      await editAndSaveImage(context, entry.inputs[0], prompt, saveUri.fsPath, options);
+      break;
+    case 'compose':
+      await composeAndSaveImages(context, entry.inputs, prompt, saveUri.fsPath, options);
+      break;
+  }
 }
 
-async function composeAndSaveImages(context: vscode.ExtensionContext, imagePaths: string[], prompt: string, savePath: string) {
-  const config = getConfig();
-  const model = 'gemini-3-pro-image-preview';
+async function clearHistory() {
+  const confirm = await vscode.window.showWarningMessage(
+    'Clear the generation history of this workspace? Image files and .banana/history.jsonl are not touched.',
+    { modal: true },
+    'Clear History'
+  );
+  if (confirm === 'Clear History') {
+    await history.clear();
+  }
+}
 
-  await vscode.window.withProgress({
-    location: vscode.ProgressLocation.Notification,
-    title: 'Composing images...',
-    cancellable: false
-  }, async (progress) => {
-    try {
-      progress.report({ message: `Using ${model} with ${imagePaths.length} images...` });
+// ==================== VERSIONS ====================
 
-      const contents: any[] = [{ text: prompt }];
+/** Reveal the versions of an image in the Banana Versions view */
+async function showVersions(uri?: vscode.Uri) {
+  const filePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+  if (!filePath) {
+    vscode.window.showErrorMessage('Please select an image file.');
+    return;
+  }
 
-      for (const imagePath of imagePaths) {
-        const imageData = fs.readFileSync(imagePath);
-        const base64Image = imageData.toString('base64');
-        const mimeType = getMimeType(imagePath);
+  const fileVersions = versions.list(filePath);
+  if (fileVersions.length === 0) {
+    vscode.window.showInformationMessage(`${path.basename(filePath)} has no earlier versions. Versions are kept when an edit, redaction or restore overwrites a file.`);
+    return;
+  }
+  await versionsView.reveal({ kind: 'file', filePath, versions: fileVersions }, { expand: true, focus: true, select: true });
+}
 
-        contents.push({
-          inlineData: {
-            mimeType: mimeType,
-            data: base64Image
-          }
-        });
-      }
+function openVersion(context: vscode.ExtensionContext, node: VersionNode) {
+  if (node.kind !== 'version') return;
+  const versionPath = versions.getVersionPath(node.filePath, node.entry);
+  if (!fs.existsSync(versionPath)) {
+    vscode.window.showErrorMessage('The version file no longer exists.');
+    return;
+  }
+  showImagePreview(context, versionPath, `${path.basename(node.filePath)} before ${node.entry.operation}, ${new Date(node.entry.timestamp).toLocaleString()}`);
+}
 
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: contents,
-        config: {
-          responseModalities: ['TEXT', 'IMAGE'],
-          imageConfig: {
-            aspectRatio: config.aspectRatio,
-            imageSize: config.resolution
-          }
-        }
-      });
+/** Before/after comparison of a version with the current file */
+function compareVersion(context: vscode.ExtensionContext, node: VersionNode) {
+  if (node.kind !== 'version') return;
+  const versionPath = versions.getVersionPath(node.filePath, node.entry);
+  if (!fs.existsSync(versionPath) || !fs.existsSync(node.filePath)) {
+    vscode.window.showErrorMessage('The version or the current file no longer exists.');
+    return;
+  }
+  showComparisonPreview(context, versionPath, node.filePath, `Left: before ${node.entry.operation} (${new Date(node.entry.timestamp).toLocaleString()}) · Right: current`);
+}
 
-      let textResponse = '';
-      let outputImageData: string | undefined;
+function restoreVersion(node: VersionNode) {
+  if (node.kind !== 'version') return;
+  try {
+    versions.restore(node.filePath, node.entry);
+    vscode.window.showInformationMessage(`✓ Restored ${path.basename(node.filePath)} to before ${node.entry.operation}. The replaced content is kept as a new version.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to restore: ${getErrorMessage(error)}`);
+  }
+}
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.text) {
-          textResponse += part.text;
-        } else if (part.inlineData) {
-          outputImageData = part.inlineData.data;
-        }
-      }
+async function removeVersion(node: VersionNode) {
+  if (node.kind === 'version') {
+    versions.remove(node.filePath, node.entry);
+    return;
+  }
 
-      if (outputImageData) {
-        const buffer = Buffer.from(outputImageData, 'base64');
-        fs.writeFileSync(savePath, buffer);
-        showImagePreview(context, savePath, textResponse);
-        vscode.window.showInformationMessage(`Composed image saved to: ${savePath}`);
-      } else {
-        vscode.window.showErrorMessage('No image was generated.');
-      }
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to compose images: ${error.message}`);
+  const confirm = await vscode.window.showWarningMessage(
+    `Delete all ${node.versions.length} version(s) of ${path.basename(node.filePath)}? The file itself is not touched.`,
+    { modal: true },
+    'Delete Versions'
+  );
+  if (confirm === 'Delete Versions') {
+    versions.removeAll(node.filePath);
+  }
+}
+
+/** Apply `nanoBanana.versions.maxPerFile` and `maxAgeDays`; reports the result when run as a command */
+function pruneVersions(report: boolean) {
+  try {
+    const removed = versions.prune();
+    if (report) {
+      vscode.window.showInformationMessage(removed > 0 ? `Deleted ${removed} old version(s).` : 'No versions over the limits.');
     }
-  });
+  } catch (error) {
+    console.error('Nano Banana: Failed to prune versions:', getErrorMessage(error));
+    if (report) vscode.window.showErrorMessage(`Failed to prune versions: ${getErrorMessage(error)}`);
+  }
 }
 
 // ==================== IMAGE UNDERSTANDING ====================
@@ -1118,44 +3162,40 @@ async function analyzeImage(context: vscode.ExtensionContext, uri?: vscode.Uri)
   }
 }
 
-async function describeImage(context: vscode.ExtensionContext, uri?: vscode.Uri) {
-  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+async function describeImage(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length > 1) {
+    await describeImages(context, imagePaths);
+    return;
+  }
 
-  if (!imagePath || !isImageFile(imagePath)) {
+  const imagePath = imagePaths[0];
+  if (!imagePath) {
     vscode.window.showErrorMessage('Please select an image file.');
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Analyzing image...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: 'Provide a detailed description of this image. Include information about the main subjects, colors, composition, mood, and any notable details.' }
-        ]
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: DESCRIBE_PROMPT,
+        images: [readImageInput(imagePath)]
       });
 
-      const description = response.text || 'No description generated.';
+      const description = response || 'No description generated.';
       showResultPanel(context, 'Image Description', description, imagePath);
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to describe image: ${error.message}`);
+      showRequestError('Failed to describe image', error);
     }
   });
 }
@@ -1168,7 +3208,8 @@ async function askAboutImage(context: vscode.ExtensionContext, uri?: vscode.Uri)
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   const question = await vscode.window.showInputBox({
     placeHolder: 'What would you like to know about this image?',
@@ -1181,31 +3222,20 @@ async function askAboutImage(context: vscode.ExtensionContext, uri?: vscode.Uri)
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Analyzing image...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: question }
-        ]
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: question,
+        images: [readImageInput(imagePath)]
       });
 
-      const answer = response.text || 'No answer generated.';
+      const answer = response || 'No answer generated.';
       showResultPanel(context, 'Image Analysis', `**Question:** ${question}\n\n**Answer:** ${answer}`, imagePath);
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to analyze image: ${error.message}`);
+      showRequestError('Failed to analyze image', error);
     }
   });
 }
@@ -1218,19 +3248,16 @@ async function detectObjects(context: vscode.ExtensionContext, uri?: vscode.Uri)
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Detecting objects...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
       const prompt = `Detect all prominent objects in this image. Return a JSON array where each object has:
 - "label": the name of the object
 - "box_2d": bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000
@@ -1238,23 +3265,14 @@ async function detectObjects(context: vscode.ExtensionContext, uri?: vscode.Uri)
 
 Only return the JSON array, no other text.`;
 
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ],
-        config: {
-          responseMimeType: 'application/json'
-        }
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: prompt,
+        images: [readImageInput(imagePath)],
+        responseMimeType: 'application/json'
       });
 
-      const resultText = response.text || '[]';
+      const resultText = response || '[]';
       const detections = parseJsonResponse(resultText);
 
       // Get image dimensions
@@ -1262,9 +3280,9 @@ Only return the JSON array, no other text.`;
       const width = image.width;
       const height = image.height;
 
-      showDetectionPreview(context, imagePath, detections, width, height, 'Object Detection Results');
+      await showDetectionPreview(context, imagePath, detections, width, height, 'Object Detection Results');
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to detect objects: ${error.message}`);
+      showRequestError('Failed to detect objects', error);
     }
   });
 }
@@ -1277,7 +3295,8 @@ async function segmentObjects(context: vscode.ExtensionContext, uri?: vscode.Uri
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   const objectToSegment = await vscode.window.showInputBox({
     placeHolder: 'What objects to segment? (e.g., "all objects", "people", "cars")',
@@ -1290,14 +3309,10 @@ async function segmentObjects(context: vscode.ExtensionContext, uri?: vscode.Uri
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Segmenting objects...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
       const prompt = `Give the segmentation masks for ${objectToSegment}.
 Output a JSON list of segmentation masks where each entry contains:
 - "box_2d": the 2D bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000
@@ -1306,71 +3321,84 @@ Output a JSON list of segmentation masks where each entry contains:
 
 Only return the JSON array.`;
 
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ],
-        config: {
-          thinkingConfig: { thinkingBudget: 0 }
-        }
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: prompt,
+        images: [readImageInput(imagePath)],
+        thinkingBudget: 0
       });
 
-      const resultText = response.text || '[]';
+      const resultText = response || '[]';
       const segmentations = parseJsonResponse(resultText);
 
       const image = await Jimp.read(imagePath);
       const width = image.width;
       const height = image.height;
 
-      showDetectionPreview(context, imagePath, segmentations, width, height, 'Segmentation Results');
+      await showDetectionPreview(context, imagePath, segmentations, width, height, 'Segmentation Results');
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to segment objects: ${error.message}`);
+      showRequestError('Failed to segment objects', error);
     }
   });
 }
 
-async function extractText(context: vscode.ExtensionContext, uri?: vscode.Uri) {
-  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+/** Save the mask of a segmented object as a PNG, or the object itself on a transparent background */
+async function exportSegment(imagePath: string, detection: any, cutout: boolean) {
+  try {
+    const image = await Jimp.read(imagePath);
+    const mask = typeof detection?.mask === 'string' ? await decodeMask(detection.mask, detection.box_2d || [], image.width, image.height) : undefined;
+    if (!mask) {
+      vscode.window.showErrorMessage('This object has no valid segmentation mask.');
+      return;
+    }
 
-  if (!imagePath || !isImageFile(imagePath)) {
+    const name = String(detection.label || 'object').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'object';
+    const baseName = path.basename(imagePath, path.extname(imagePath));
+    const saveUri = await vscode.window.showSaveDialog({
+      filters: { 'PNG Image': ['png'] },
+      defaultUri: vscode.Uri.file(path.join(path.dirname(imagePath), `${baseName}_${name}_${cutout ? 'cutout' : 'mask'}.png`))
+    });
+    if (!saveUri) return;
+
+    const data = cutout ? await toCutoutPng(image, mask) : await toMaskPng(mask, image.width, image.height);
+    fs.writeFileSync(saveUri.fsPath, data);
+    vscode.window.showInformationMessage(`Saved ${cutout ? 'cut-out' : 'mask'} to ${vscode.workspace.asRelativePath(saveUri)}`);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to export ${cutout ? 'cut-out' : 'mask'}: ${error.message}`);
+  }
+}
+
+async function extractText(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length > 1) {
+    await extractTextFromImages(context, imagePaths);
+    return;
+  }
+
+  const imagePath = imagePaths[0];
+  if (!imagePath) {
     vscode.window.showErrorMessage('Please select an image file.');
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Extracting text...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: 'Extract all text visible in this image. Preserve the layout and formatting as much as possible. If there is no text, say "No text found in image."' }
-        ]
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: OCR_PROMPT,
+        images: [readImageInput(imagePath)]
       });
 
-      const extractedText = response.text || 'No text found.';
+      const extractedText = response || 'No text found.';
       showResultPanel(context, 'Extracted Text (OCR)', extractedText, imagePath);
 
       // Offer to copy to clipboard
@@ -1383,7 +3411,7 @@ async function extractText(context: vscode.ExtensionContext, uri?: vscode.Uri) {
         vscode.window.showInformationMessage('Text copied to clipboard!');
       }
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to extract text: ${error.message}`);
+      showRequestError('Failed to extract text', error);
     }
   });
 }
@@ -1395,7 +3423,8 @@ function getSensitiveDataPrompt(): string {
 }
 
 async function improveDetectionPrompt(context: vscode.ExtensionContext) {
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   const feedback = await vscode.window.showInputBox({
     placeHolder: 'e.g., "it missed @botfather username" or "add Arabic names detection"',
@@ -1408,8 +3437,9 @@ async function improveDetectionPrompt(context: vscode.ExtensionContext) {
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Improving detection prompt...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { token });
     try {
       const currentPrompt = getSensitiveDataPrompt();
 
@@ -1423,20 +3453,20 @@ ${feedback}
 
 Your task: Improve the prompt based on the feedback. Keep the same JSON output format. Only return the improved prompt text, nothing else. Do not include any explanation or markdown formatting.`;
 
-      const config = getConfig();
-      const response = await ai!.models.generateContent({
-        model: config.understandingModel,
-        contents: [{ text: enhanceRequest }]
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: enhanceRequest,
+        images: []
       });
 
-      const improvedPrompt = response.text?.trim();
+      const improvedPrompt = response.trim();
       if (improvedPrompt) {
         await globalState.update(SENSITIVE_PROMPT_KEY, improvedPrompt);
         vscode.window.showInformationMessage('✓ Detection prompt improved! Try detecting again.');
         console.log('Nano Banana: Updated prompt:', improvedPrompt);
       }
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to improve prompt: ${error.message}`);
+      showRequestError('Failed to improve prompt', error);
     }
   });
 }
@@ -1446,48 +3476,42 @@ async function resetDetectionPrompt(context: vscode.ExtensionContext) {
   vscode.window.showInformationMessage('✓ Detection prompt reset to default.');
 }
 
-async function detectSensitiveData(context: vscode.ExtensionContext, uri?: vscode.Uri) {
-  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+async function detectSensitiveData(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length > 1) {
+    await detectSensitiveDataInImages(context, imagePaths);
+    return;
+  }
 
-  if (!imagePath || !isImageFile(imagePath)) {
+  const imagePath = imagePaths[0];
+  if (!imagePath) {
     vscode.window.showErrorMessage('Please select an image file.');
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   // Scan for sensitive data
   const result = await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Scanning for sensitive data...',
-    cancellable: false
-  }, async () => {
+    cancellable: true
+  }, async (_progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
       // Get the current prompt (custom or default)
       const prompt = getSensitiveDataPrompt();
 
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ],
-        config: {
-          responseMimeType: 'application/json'
-        }
+      const response = await scopedProvider.understand({
+        model: provider.understandingModel,
+        prompt: prompt,
+        images: [readImageInput(imagePath)],
+        responseMimeType: 'application/json'
       });
 
-      const resultText = response.text || '[]';
+      const resultText = response || '[]';
       const detections = parseJsonResponse(resultText);
 
       const image = await Jimp.read(imagePath);
@@ -1496,7 +3520,7 @@ async function detectSensitiveData(context: vscode.ExtensionContext, uri?: vscod
 
       return { detections, width, height };
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to detect sensitive data: ${error.message}`);
+      showRequestError('Failed to detect sensitive data', error);
       return null;
     }
   });
@@ -1511,62 +3535,39 @@ async function detectSensitiveData(context: vscode.ExtensionContext, uri?: vscod
   }
 
   // Show preview with detections and blur buttons
-  showDetectionPreview(context, imagePath, detections.map((d: any) => ({
+  await showDetectionPreview(context, imagePath, detections.map((d: any) => ({
     ...d,
     label: d.value ? `${d.type}: ${d.value}` : d.type
   })), width, height, 'Sensitive Data Found', true);
 }
 
-async function autoBlurSensitive(context: vscode.ExtensionContext, uri?: vscode.Uri) {
-  const imagePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+async function autoBlurSensitive(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const imagePaths = await getSelectedImages(uri, uris);
+  if (!imagePaths) return;
+  if (imagePaths.length > 1) {
+    await autoBlurImages(context, imagePaths);
+    return;
+  }
 
-  if (!imagePath || !isImageFile(imagePath)) {
+  const imagePath = imagePaths[0];
+  if (!imagePath) {
     vscode.window.showErrorMessage('Please select an image file.');
     return;
   }
 
-  if (!await ensureAI()) return;
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
   await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Detecting and blurring sensitive data...',
-    cancellable: false
-  }, async (progress) => {
+    cancellable: true
+  }, async (progress, token) => {
+    const scopedProvider = withJobScope(provider, { file: imagePath, token });
     try {
-      const config = getConfig();
-      const imageData = fs.readFileSync(imagePath);
-      const base64Image = imageData.toString('base64');
-      const mimeType = getMimeType(imagePath);
-
       progress.report({ message: 'Scanning for sensitive data...' });
 
-      const sensitiveTypes = config.sensitiveDataTypes.join(', ');
-      const prompt = `Detect all sensitive or private information in this image. Look for: ${sensitiveTypes}.
-
-Return a JSON array where each detected item has:
-- "type": the type of sensitive data
-- "box_2d": bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000
-
-Only return the JSON array.`;
-
-      const response = await ai.models.generateContent({
-        model: config.understandingModel,
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ],
-        config: {
-          responseMimeType: 'application/json'
-        }
-      });
-
-      const resultText = response.text || '[]';
-      const detections = parseJsonResponse(resultText);
+      const detections = await detectSensitiveRegions(scopedProvider, readImageInput(imagePath));
 
       if (detections.length === 0) {
         vscode.window.showInformationMessage('No sensitive data detected. Image is clean!');
@@ -1581,174 +3582,354 @@ Only return the JSON array.`;
 
       await blurRegions(context, imagePath, detections, width, height);
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to auto-blur: ${error.message}`);
+      showRequestError('Failed to auto-blur', error);
     }
   });
 }
 
-async function blurRegions(context: vscode.ExtensionContext, imagePath: string, detections: any[], _width: number, _height: number) {
-  const config = getConfig();
-  // Jimp blur uses radius 1-100
-  const blurRadius = Math.min(Math.max(Math.round(config.blurIntensity / 2), 1), 100);
+/** Redaction settings, with the Jimp blur radius (1-100) for `nanoBanana.blurIntensity` */
+function getRedactionOptions(): RedactionOptions {
+  const config = getConfig();
+  return {
+    mode: config.redactionMode,
+    modesByType: config.redactionModesByType,
+    blurRadius: Math.min(Math.max(Math.round(config.blurIntensity / 2), 1), 100),
+    pixelSize: config.redactionPixelSize,
+    color: config.redactionColor,
+    padding: Math.max(0, Math.round(config.redactionPadding))
+  };
+}
+
+/** Regions holding any of the `nanoBanana.sensitiveDataTypes`, as detections with `box_2d` */
+async function detectSensitiveRegions(provider: ImageProvider, image: ImageInput): Promise<any[]> {
+  const sensitiveTypes = getConfig().sensitiveDataTypes.join(', ');
+  const prompt = `Detect all sensitive or private information in this image. Look for: ${sensitiveTypes}.
+
+Return a JSON array where each detected item has:
+- "type": the type of sensitive data
+- "box_2d": bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000
+
+Only return the JSON array.`;
+
+  const response = await provider.understand({
+    model: provider.understandingModel,
+    prompt: prompt,
+    images: [image],
+    responseMimeType: 'application/json'
+  });
+
+  return parseJsonResponse(response || '[]');
+}
+
+/**
+ * Redact the detections in an image file, keeping the previous content in
+ * the version store.
+ */
+async function blurImageFile(imagePath: string, detections: any[]): Promise<{ regionsBlurred: number; version?: VersionEntry }> {
+  const image = await Jimp.read(imagePath);
+  const regionsBlurred = await redactDetections(image, detections, getRedactionOptions());
+
+  if (regionsBlurred === 0) {
+    return { regionsBlurred };
+  }
+  const version = versions.save(imagePath, 'redact');
+  await image.write(imagePath as `${string}.${string}`);
+  return { regionsBlurred, version };
+}
+
+async function blurRegions(context: vscode.ExtensionContext, imagePath: string, detections: any[], _width: number, _height: number) {
+  try {
+    const { regionsBlurred, version } = await blurImageFile(imagePath, detections);
+
+    if (regionsBlurred > 0) {
+      vscode.window.showInformationMessage(`✓ Redacted ${regionsBlurred} region(s).`, ...(version ? ['Undo'] : [])).then(choice => {
+        if (choice === 'Undo' && version) restoreVersion({ kind: 'version', filePath: imagePath, entry: version });
+      });
+    } else {
+      vscode.window.showWarningMessage('No valid regions to redact.');
+    }
+  } catch (error: any) {
+    console.error('Nano Banana: Blur error:', error);
+    vscode.window.showErrorMessage(`Failed to blur regions: ${error.message}`);
+  }
+}
+
+/**
+ * Put a `_backup` copy made by earlier versions of the extension back in
+ * place of its original, keeping the current original in the version store.
+ */
+async function restoreFromBackup(uri?: vscode.Uri) {
+  const backupPath = uri?.fsPath;
+
+  if (!backupPath) {
+    vscode.window.showErrorMessage('Please right-click on a backup image file.');
+    return;
+  }
+
+  const ext = path.extname(backupPath);
+  const match = /^(.+)_backup$/.exec(path.basename(backupPath, ext));
+  if (!match) {
+    vscode.window.showErrorMessage('This is not a backup file. Backup files end in "_backup", e.g. screenshot_backup.png.');
+    return;
+  }
+  const originalPath = path.join(path.dirname(backupPath), `${match[1]}${ext}`);
+
+  try {
+    versions.save(originalPath, 'restore');
+    fs.copyFileSync(backupPath, originalPath);
+    fs.unlinkSync(backupPath);
+
+    vscode.window.showInformationMessage(`✓ Restored ${path.basename(originalPath)}. The replaced content is in Banana Versions.`);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to restore: ${error.message}`);
+  }
+}
 
-  try {
-    // Create backup before modifying
-    const ext = path.extname(imagePath);
-    const baseName = path.basename(imagePath, ext);
-    const dir = path.dirname(imagePath);
-    const backupPath = path.join(dir, `${baseName}_backup${ext}`);
+// ==================== WORKSPACE SCAN ====================
+
+/**
+ * Scan every image matching `nanoBanana.scan.include` for sensitive data and
+ * show the findings in the Sensitive Data view and the Problems panel.
+ * Images scanned before with the same content, model and prompt come from
+ * the cache.
+ */
+async function scanWorkspaceForSensitiveData() {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage('Open a folder to scan its images for sensitive data.');
+    return;
+  }
 
-    // Only create backup if it doesn't exist (first blur)
-    if (!fs.existsSync(backupPath)) {
-      fs.copyFileSync(imagePath, backupPath);
-      console.log(`Nano Banana: Backup created at ${backupPath}`);
-    }
+  const provider = await ensureProvider('understand');
+  if (!provider) return;
 
-    const image = await Jimp.read(imagePath);
-    const width = image.width;
-    const height = image.height;
-    let regionsBlurred = 0;
+  const config = getConfig();
+  const uris = await vscode.workspace.findFiles(config.scanInclude, config.scanExclude || null);
+  const imagePaths = uris.map(u => u.fsPath).filter(isImageFile).sort();
+  if (imagePaths.length === 0) {
+    vscode.window.showWarningMessage(`No images matching ${config.scanInclude} found.`);
+    return;
+  }
 
-    console.log(`Nano Banana: Blurring ${detections.length} detections on ${width}x${height} image`);
+  const prompt = getSensitiveDataPrompt() + SCAN_INSTRUCTIONS;
+  const promptHash = hashContent(prompt);
+  const startedAt = new Date().toISOString();
 
-    for (let i = 0; i < detections.length; i++) {
-      const detection = detections[i];
-      if (!detection.box_2d || detection.box_2d.length !== 4) {
-        console.log(`Nano Banana: Detection ${i} has no valid box_2d`);
-        continue;
-      }
+  const { files, cancelled } = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Scanning ${imagePaths.length} images for sensitive data...`,
+    cancellable: true
+  }, async (progress, token) => {
+    const results = await runQueue(imagePaths, config.bulkConcurrency, imagePath => scanImageFile(provider, imagePath, prompt, promptHash, token), {
+      isCancelled: () => token.isCancellationRequested,
+      onSettled: (done, total) => progress.report({ message: `${done}/${total} done`, increment: 100 / total })
+    });
 
-      // Convert normalized coordinates (0-1000) to pixels
-      const [ymin, xmin, ymax, xmax] = detection.box_2d;
-      let x = Math.round((xmin / 1000) * width);
-      let y = Math.round((ymin / 1000) * height);
-      let w = Math.round(((xmax - xmin) / 1000) * width);
-      let h = Math.round(((ymax - ymin) / 1000) * height);
-
-      // Clamp to image bounds
-      x = Math.max(0, Math.min(x, width - 1));
-      y = Math.max(0, Math.min(y, height - 1));
-      w = Math.min(w, width - x);
-      h = Math.min(h, height - y);
-
-      if (w <= 0 || h <= 0) {
-        console.log(`Nano Banana: Detection ${i} has invalid dimensions after clamping`);
-        continue;
+    const scanned: ScannedFile[] = [];
+    for (const [i, result] of results.entries()) {
+      if (result.status === 'fulfilled') {
+        scanned.push(result.value);
+      } else if (result.status === 'rejected' && !(result.reason instanceof JobCancelledError)) {
+        scanned.push({ filePath: imagePaths[i], hash: '', scannedAt: new Date().toISOString(), findings: [], cached: false, error: getErrorMessage(result.reason) });
       }
+    }
+    return { files: scanned, cancelled: scanned.length < imagePaths.length };
+  });
 
-      console.log(`Nano Banana: Blurring region ${i}: x=${x}, y=${y}, w=${w}, h=${h}`);
+  const report: ScanReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    model: provider.understandingModel,
+    promptHash,
+    include: config.scanInclude,
+    exclude: config.scanExclude,
+    cancelled,
+    files
+  };
+  await scanTree.setReport(report);
+  updateScanDiagnostics(report);
+
+  const withFindings = files.filter(f => f.findings.length > 0);
+  const highRisk = withFindings.filter(f => getHighestRisk(f.findings) === 'high').length;
+  const failed = files.filter(f => f.error).length;
+  const cached = files.filter(f => f.cached).length;
+
+  const parts = [`Scanned ${files.length} of ${imagePaths.length} image(s)${cached > 0 ? ` (${cached} unchanged, from cache)` : ''}`];
+  parts.push(withFindings.length > 0
+    ? `${withFindings.length} contain sensitive data, ${highRisk} of them high risk`
+    : 'no sensitive data found');
+  if (failed > 0) parts.push(`${failed} could not be scanned`);
+  if (cancelled) parts.push('cancelled');
+  const message = `${parts.join(', ')}.`;
+
+  const show = withFindings.length > 0 || failed > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+  const action = await show(message, 'Show Findings', 'Export Report');
+  if (action === 'Show Findings') {
+    await vscode.commands.executeCommand(`${ScanTreeProvider.viewId}.focus`);
+  } else if (action === 'Export Report') {
+    await exportScanReport();
+  }
+}
 
-      // Create blurred region and composite onto main image
-      const blurredRegion = image.clone()
-        .crop({ x, y, w, h })
-        .blur(blurRadius);
+/**
+ * Findings of one image, from the cache when its content was scanned before
+ * with the same model and prompt. Request errors are recorded on the file
+ * instead of failing the scan.
+ */
+async function scanImageFile(provider: ImageProvider, imagePath: string, prompt: string, promptHash: string, token: vscode.CancellationToken): Promise<ScannedFile> {
+  const hash = hashContent(await fs.promises.readFile(imagePath));
+  const model = provider.understandingModel;
+
+  const entry = scanCache.get(hash, model, promptHash);
+  if (entry) {
+    return { filePath: imagePath, hash, scannedAt: entry.scannedAt, findings: entry.findings, cached: true };
+  }
 
-      image.composite(blurredRegion, x, y);
-      regionsBlurred++;
-    }
+  try {
+    const response = await withJobScope(provider, { file: imagePath, token }).understand({
+      model,
+      prompt,
+      images: [readImageInput(imagePath)],
+      responseMimeType: 'application/json'
+    });
 
-    console.log(`Nano Banana: Blurred ${regionsBlurred} regions`);
+    const findings = normalizeFindings(parseJsonResponse(response || '[]'));
+    const scannedAt = new Date().toISOString();
+    await scanCache.set(hash, { model, promptHash, scannedAt, findings });
+    return { filePath: imagePath, hash, scannedAt, findings, cached: false };
+  } catch (error) {
+    if (error instanceof JobCancelledError) throw error;
+    console.error(`Nano Banana: Sensitive data scan failed for ${imagePath}:`, error);
+    return { filePath: imagePath, hash, scannedAt: new Date().toISOString(), findings: [], cached: false, error: getErrorMessage(error) };
+  }
+}
 
-    if (regionsBlurred > 0) {
-      await image.write(imagePath as `${string}.${string}`);
-      vscode.window.showInformationMessage(`✓ Blurred ${regionsBlurred} region(s). Backup: ${path.basename(backupPath)}`);
-    } else {
-      vscode.window.showWarningMessage('No valid regions to blur.');
+function updateScanDiagnostics(report: ScanReport | undefined) {
+  scanDiagnostics.clear();
+  for (const file of report?.files ?? []) {
+    const diagnostics = toDiagnostics(file);
+    if (diagnostics.length > 0) {
+      scanDiagnostics.set(vscode.Uri.file(file.filePath), diagnostics);
     }
-  } catch (error: any) {
-    console.error('Nano Banana: Blur error:', error);
-    vscode.window.showErrorMessage(`Failed to blur regions: ${error.message}`);
   }
 }
 
-async function restoreFromBackup(uri?: vscode.Uri) {
-  const backupPath = uri?.fsPath;
-
-  if (!backupPath) {
-    vscode.window.showErrorMessage('Please right-click on a backup image file.');
+/** Show the findings of a file on the image, ready to redact */
+async function openScanResult(context: vscode.ExtensionContext, node: ScanNode) {
+  const { file } = node;
+  if (!fs.existsSync(file.filePath)) {
+    vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(file.filePath)} no longer exists.`);
     return;
   }
 
-  // Check if it's a backup file
-  if (!backupPath.includes('_backup')) {
-    vscode.window.showErrorMessage('This is not a backup file. Backup files contain "_backup" in the name.');
+  const findings = file.findings.filter(f => f.box_2d);
+  if (findings.length === 0) {
+    await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file.filePath));
     return;
   }
 
-  // Get original filename by removing _backup
-  const ext = path.extname(backupPath);
-  const dir = path.dirname(backupPath);
-  const backupBaseName = path.basename(backupPath, ext);
-  const originalBaseName = backupBaseName.replace('_backup', '');
-  const originalPath = path.join(dir, `${originalBaseName}${ext}`);
+  const image = await Jimp.read(file.filePath);
+  await showDetectionPreview(context, file.filePath, findings.map(f => ({
+    ...f,
+    label: f.type
+  })), image.width, image.height, 'Sensitive Data Found', true);
+}
 
-  try {
-    // Copy backup to original
-    fs.copyFileSync(backupPath, originalPath);
+/** Save the last scan as SARIF, for code scanning tools, or JSON */
+async function exportScanReport() {
+  const report = scanTree.getReport();
+  if (!report) {
+    vscode.window.showWarningMessage('No scan results yet. Run "Scan Workspace for Sensitive Data" first.');
+    return;
+  }
 
-    // Delete the backup file
-    fs.unlinkSync(backupPath);
+  const format = await vscode.window.showQuickPick([
+    { label: 'SARIF', description: 'For code scanning tools and CI', extension: 'sarif' },
+    { label: 'JSON', description: 'Every scanned file with its findings', extension: 'json' }
+  ], { title: 'Export Scan Report' });
+  if (!format) return;
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const defaultName = `sensitive-data-scan.${format.extension}`;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, defaultName) : undefined,
+    filters: { [format.label]: [format.extension] }
+  });
+  if (!target) return;
 
-    vscode.window.showInformationMessage(`✓ Restored to ${originalBaseName}${ext}`);
-  } catch (error: any) {
-    vscode.window.showErrorMessage(`Failed to restore: ${error.message}`);
+  try {
+    await fs.promises.writeFile(target.fsPath, format.extension === 'sarif' ? toSarif(report) : toJsonReport(report));
+    const action = await vscode.window.showInformationMessage(`✓ Scan report saved to ${path.basename(target.fsPath)}`, 'Open');
+    if (action === 'Open') {
+      await vscode.window.showTextDocument(target);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save the report: ${getErrorMessage(error)}`);
   }
 }
 
+/** Clear the results and diagnostics; cached findings are kept */
+async function clearScanResults() {
+  await scanTree.setReport(undefined);
+  updateScanDiagnostics(undefined);
+}
+
 // ==================== PREVIEW PANELS ====================
 
 function openImagePreview(context: vscode.ExtensionContext, uri: vscode.Uri) {
   showImagePreview(context, uri.fsPath);
 }
 
-function showImagePreview(context: vscode.ExtensionContext, imagePath: string, description?: string) {
-  if (currentPanel) {
-    currentPanel.reveal(vscode.ViewColumn.Beside);
-  } else {
-    currentPanel = vscode.window.createWebviewPanel(
-      'nanoBananaPreview',
-      'Nano Banana Preview',
-      vscode.ViewColumn.Beside,
-      {
-        enableScripts: true,
-        localResourceRoots: [vscode.Uri.file(path.dirname(imagePath))]
-      }
-    );
+/**
+ * The shared preview panel, able to load `imagePaths`. Its resource roots
+ * are fixed when it is created, so a panel whose roots do not cover every
+ * image is replaced by one that does.
+ */
+function getPreviewPanel(title: string, imagePaths: string[]): vscode.WebviewPanel {
+  const isCovered = (filePath: string) => currentPanelRoots.some(root => {
+    const relative = path.relative(root, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
 
-    currentPanel.onDidDispose(() => {
-      currentPanel = undefined;
-    });
+  if (currentPanel && imagePaths.every(isCovered)) {
+    currentPanel.reveal(vscode.ViewColumn.Beside);
+    return currentPanel;
   }
+  currentPanel?.dispose();
+
+  // Workspace folders and version stores too, so later previews can mostly reuse the panel
+  currentPanelRoots = [...new Set([
+    ...imagePaths.map(p => path.dirname(p)),
+    ...(vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath),
+    ...versions.getRoots()
+  ])];
+  const panel = vscode.window.createWebviewPanel(
+    'nanoBananaPreview',
+    title,
+    vscode.ViewColumn.Beside,
+    {
+      enableScripts: true,
+      localResourceRoots: currentPanelRoots.map(root => vscode.Uri.file(root))
+    }
+  );
 
-  const imageUri = currentPanel.webview.asWebviewUri(vscode.Uri.file(imagePath));
-  currentPanel.webview.html = getPreviewHtml(imageUri.toString(), path.basename(imagePath), description);
+  panel.onDidDispose(() => {
+    if (currentPanel === panel) currentPanel = undefined;
+  });
+  currentPanel = panel;
+  return panel;
 }
 
-function showComparisonPreview(context: vscode.ExtensionContext, originalPath: string, editedPath: string, description?: string) {
-  if (currentPanel) {
-    currentPanel.reveal(vscode.ViewColumn.Beside);
-  } else {
-    currentPanel = vscode.window.createWebviewPanel(
-      'nanoBananaPreview',
-      'Nano Banana - Before/After',
-      vscode.ViewColumn.Beside,
-      {
-        enableScripts: true,
-        localResourceRoots: [
-          vscode.Uri.file(path.dirname(originalPath)),
-          vscode.Uri.file(path.dirname(editedPath))
-        ]
-      }
-    );
-
-    currentPanel.onDidDispose(() => {
-      currentPanel = undefined;
-    });
-  }
+function showImagePreview(context: vscode.ExtensionContext, imagePath: string, description?: string, grounding?: GroundingInfo) {
+  const panel = getPreviewPanel('Nano Banana Preview', [imagePath]);
+  const imageUri = panel.webview.asWebviewUri(vscode.Uri.file(imagePath));
+  panel.webview.html = getPreviewHtml(imageUri.toString(), path.basename(imagePath), description, grounding);
+}
 
-  const originalUri = currentPanel.webview.asWebviewUri(vscode.Uri.file(originalPath));
-  const editedUri = currentPanel.webview.asWebviewUri(vscode.Uri.file(editedPath));
-  currentPanel.webview.html = getComparisonHtml(originalUri.toString(), editedUri.toString(), description);
+function showComparisonPreview(context: vscode.ExtensionContext, originalPath: string, editedPath: string, description?: string, grounding?: GroundingInfo) {
+  const panel = getPreviewPanel('Nano Banana - Before/After', [originalPath, editedPath]);
+  const originalUri = panel.webview.asWebviewUri(vscode.Uri.file(originalPath));
+  const editedUri = panel.webview.asWebviewUri(vscode.Uri.file(editedPath));
+  panel.webview.html = getComparisonHtml(originalUri.toString(), editedUri.toString(), description, grounding);
 }
 
 function showResultPanel(context: vscode.ExtensionContext, title: string, content: string, imagePath?: string) {
@@ -1773,7 +3954,7 @@ function showResultPanel(context: vscode.ExtensionContext, title: string, conten
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${title}</title>
+  <title>${escapeHtml(title)}</title>
   <style>
     body {
       margin: 0;
@@ -1800,14 +3981,131 @@ function showResultPanel(context: vscode.ExtensionContext, title: string, conten
   </style>
 </head>
 <body>
-  <h1>🍌 ${title}</h1>
+  <h1>🍌 ${escapeHtml(title)}</h1>
   ${imageHtml}
   <div class="content">${content}</div>
 </body>
 </html>`;
 }
 
-function showDetectionPreview(context: vscode.ExtensionContext, imagePath: string, detections: any[], width: number, height: number, title: string, isSensitive: boolean = false) {
+function showSummaryPanel(context: vscode.ExtensionContext, title: string, rows: SummaryRow[]) {
+  const panel = vscode.window.createWebviewPanel(
+    'nanoBananaResult',
+    title,
+    vscode.ViewColumn.Beside,
+    { enableScripts: true }
+  );
+
+  panel.webview.onDidReceiveMessage(message => {
+    if (message.command === 'open' && typeof message.index === 'number') {
+      const filePath = rows[message.index]?.filePath;
+      if (filePath) {
+        vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath));
+      }
+    }
+  });
+
+  const counts = {
+    success: rows.filter(r => r.status === 'success').length,
+    skipped: rows.filter(r => r.status === 'skipped').length,
+    failed: rows.filter(r => r.status === 'failed').length
+  };
+  const icons = { success: '✅', skipped: '⏭️', failed: '❌' };
+
+  const rowsHtml = rows.map((row, i) => `
+    <tr class="${row.status}">
+      <td>${icons[row.status]}</td>
+      <td>${row.filePath ? `<a href="#" onclick="openFile(${i})">${escapeHtml(row.label)}</a>` : escapeHtml(row.label)}</td>
+      <td class="detail">${escapeHtml(row.detail || '')}</td>
+    </tr>`).join('');
+
+  panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      background: #1e1e1e;
+      color: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+    h1 {
+      font-size: 18px;
+      color: #ffd700;
+      margin-bottom: 10px;
+    }
+    .subtitle {
+      color: #888;
+      margin-bottom: 15px;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      background: #2d2d2d;
+      border-radius: 8px;
+      font-size: 13px;
+    }
+    td {
+      padding: 8px 10px;
+      border-bottom: 1px solid #3d3d3d;
+      vertical-align: top;
+    }
+    tr:last-child td {
+      border-bottom: none;
+    }
+    td:first-child {
+      width: 24px;
+    }
+    a {
+      color: #4da3ff;
+    }
+    .detail {
+      color: #aaa;
+      white-space: pre-wrap;
+    }
+    tr.failed .detail {
+      color: #ff6b6b;
+    }
+  </style>
+</head>
+<body>
+  <h1>🍌 ${escapeHtml(title)}</h1>
+  <p class="subtitle">${counts.success} succeeded · ${counts.skipped} skipped · ${counts.failed} failed</p>
+  <table>${rowsHtml}</table>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    function openFile(index) {
+      vscode.postMessage({ command: 'open', index });
+    }
+  </script>
+</body>
+</html>`;
+}
+
+/** A box of the detection preview after the user moved, resized, relabeled or drew it */
+interface EditedBox {
+  /** Detection the box came from, missing for boxes drawn by the user */
+  index?: number;
+  box_2d: [number, number, number, number];
+  label: string;
+  /** Segmentation mask of the detection as a semi-transparent PNG data URL */
+  overlay?: string;
+}
+
+/**
+ * Detections drawn over the image, where boxes can be moved, resized,
+ * relabeled, deleted and added before blurring. Blurring uses the corrected
+ * boxes; the other fields of a detection, such as its type, are kept.
+ * Segmentation masks are overlaid on their boxes, can be exported, and limit
+ * redaction to the object's pixels while their box is unchanged.
+ */
+async function showDetectionPreview(context: vscode.ExtensionContext, imagePath: string, detections: any[], width: number, height: number, title: string, isSensitive: boolean = false) {
   const panel = vscode.window.createWebviewPanel(
     'nanoBananaDetection',
     title,
@@ -1821,32 +4119,44 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
   const imageUri = panel.webview.asWebviewUri(vscode.Uri.file(imagePath));
 
   // Generate box data with detection info for blur
-  const boxes = detections.map((d: any, i: number) => {
-    if (!d.box_2d || d.box_2d.length !== 4) return null;
-
-    const [ymin, xmin, ymax, xmax] = d.box_2d;
-    const labelText = (d.label || (d.value ? `${d.type}: ${d.value}` : d.type) || 'Object').replace(/"/g, '\\"');
-
-    return {
-      left: `${xmin / 10}%`,
-      top: `${ymin / 10}%`,
-      width: `${(xmax - xmin) / 10}%`,
-      height: `${(ymax - ymin) / 10}%`,
-      label: labelText,
-      num: i + 1,
-      index: i
-    };
-  }).filter(Boolean);
+  const boxes: EditedBox[] = [];
+  for (const [i, d] of detections.entries()) {
+    if (!d.box_2d || d.box_2d.length !== 4) continue;
+
+    const mask = typeof d.mask === 'string' ? await decodeMask(d.mask, d.box_2d, width, height) : undefined;
+    boxes.push({
+      index: i,
+      box_2d: d.box_2d,
+      label: d.label || (d.value ? `${d.type}: ${d.value}` : d.type) || 'Object',
+      overlay: mask && await toOverlayDataUrl(mask)
+    });
+  }
+  const hasMasks = boxes.some(box => box.overlay);
 
-  const boxesJson = JSON.stringify(boxes);
+  // Labels come from the model, so keep them from closing the script tag
+  const boxesJson = JSON.stringify(boxes).replace(/</g, '\\u003c');
 
   // Handle messages from webview
   panel.webview.onDidReceiveMessage(async (message) => {
+    if (message.command === 'exportMask' || message.command === 'exportCutout') {
+      await exportSegment(imagePath, detections[message.index], message.command === 'exportCutout');
+    }
     if (message.command === 'blur') {
-      const indices = message.indices as number[];
-      const selectedDetections = indices.map(i => detections[i]).filter(Boolean);
-      if (selectedDetections.length > 0) {
-        await blurRegions(context, imagePath, selectedDetections, width, height);
+      const regions = (message.regions as EditedBox[]).map(region => {
+        const original = region.index !== undefined ? detections[region.index] : undefined;
+        const moved = !original || original.box_2d.some((value: number, i: number) => value !== region.box_2d[i]);
+        // A segmentation mask only fits the box it was returned with
+        const { mask, ...rest } = original || {};
+        return {
+          ...rest,
+          ...(moved || !message.useMasks ? {} : { mask }),
+          type: original?.type ?? region.label,
+          label: region.label,
+          box_2d: region.box_2d
+        };
+      });
+      if (regions.length > 0) {
+        await blurRegions(context, imagePath, regions, width, height);
       }
     }
   });
@@ -1885,6 +4195,10 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
       font-size: 13px;
       margin-right: 8px;
     }
+    .btn:disabled {
+      cursor: default;
+      opacity: 0.6;
+    }
     .btn-blur-all {
       background: #ff3333;
       color: white;
@@ -1892,36 +4206,49 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
     .btn-blur-all:hover {
       background: #cc2929;
     }
-    .btn-blur {
+    .btn-blur, .btn-delete, .btn-export {
       background: #444;
       color: white;
       padding: 4px 10px;
       font-size: 11px;
+      margin: 0 0 0 6px;
     }
-    .btn-blur:hover {
+    .btn-blur:hover:not(:disabled), .btn-delete:hover:not(:disabled) {
       background: #ff3333;
     }
+    .btn-export:hover {
+      background: #555;
+    }
     .btn-blur.blurred {
       background: #2a5a2a;
-      cursor: default;
+      opacity: 1;
     }
     .image-container {
       position: relative;
       display: inline-block;
+      user-select: none;
+      touch-action: none;
     }
     img {
+      display: block;
       max-width: 100%;
       height: auto;
       border-radius: 8px;
+      cursor: crosshair;
     }
     .box {
       position: absolute;
+      box-sizing: border-box;
       border: 3px solid #ff3333;
-      pointer-events: none;
+      cursor: move;
+    }
+    .box.selected {
+      border-color: #ffd700;
     }
     .box.blurred {
       border-color: #2a5a2a;
       opacity: 0.5;
+      cursor: default;
     }
     .box-number {
       position: absolute;
@@ -1937,7 +4264,42 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
       justify-content: center;
       font-size: 12px;
       font-weight: bold;
+      pointer-events: none;
+    }
+    .mask-overlay {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      border-radius: 0;
+      pointer-events: none;
+    }
+    .box.blurred .mask-overlay {
+      display: none;
     }
+    .mask-option {
+      color: #ccc;
+      font-size: 13px;
+    }
+    .box.selected .box-number {
+      background: #ffd700;
+      color: #000;
+    }
+    .handle {
+      position: absolute;
+      width: 10px;
+      height: 10px;
+      background: #ffd700;
+      border: 1px solid #000;
+      display: none;
+    }
+    .box.selected .handle {
+      display: block;
+    }
+    .handle.nw { top: -7px; left: -7px; cursor: nwse-resize; }
+    .handle.ne { top: -7px; right: -7px; cursor: nesw-resize; }
+    .handle.sw { bottom: -7px; left: -7px; cursor: nesw-resize; }
+    .handle.se { bottom: -7px; right: -7px; cursor: nwse-resize; }
     .findings {
       margin-top: 20px;
       padding: 15px;
@@ -1958,6 +4320,10 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
     .finding-item:last-child {
       border-bottom: none;
     }
+    .finding-item.selected .finding-num {
+      background: #ffd700;
+      color: #000;
+    }
     .finding-num {
       width: 24px;
       height: 24px;
@@ -1973,8 +4339,18 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
       flex-shrink: 0;
     }
     .finding-text {
-      color: #fff;
       flex: 1;
+      background: transparent;
+      color: #fff;
+      border: 1px solid transparent;
+      border-radius: 4px;
+      padding: 4px 6px;
+      font-size: 13px;
+    }
+    .finding-text:hover:not(:disabled), .finding-text:focus {
+      border-color: #555;
+      background: #1e1e1e;
+      outline: none;
     }
     .finding-item.blurred .finding-num {
       background: #2a5a2a;
@@ -1987,85 +4363,250 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
 </head>
 <body>
   <h1>🔍 ${title}</h1>
-  <p class="subtitle">Found ${detections.length} item(s)</p>
+  <p class="subtitle"><span id="count"></span> · Drag a box to move it, drag its corners to resize, drag on the image to add a box missed by the model, <kbd>Delete</kbd> removes the selected box.</p>
 
   <div class="actions">
-    <button class="btn btn-blur-all" onclick="blurAll()">🔒 Blur All</button>
+    <button class="btn btn-blur-all" id="blurAll" onclick="blurAll()">🔒 Redact All</button>
+    ${hasMasks ? '<label class="mask-option"><input type="checkbox" id="useMasks" checked /> Redact only the masked pixels</label>' : ''}
   </div>
 
   <div class="image-container" id="container">
-    <img src="${imageUri}" alt="Image" onload="drawBoxes()" />
+    <img id="image" src="${imageUri}" alt="Image" draggable="false" onload="render()" />
   </div>
 
-  <div class="findings" id="findings">
+  <div class="findings">
     <h2>⚠️ Detected Items</h2>
+    <div id="findings"></div>
   </div>
 
   <script>
     const vscode = acquireVsCodeApi();
-    const boxes = ${boxesJson};
-    const blurredIndices = new Set();
-
-    function drawBoxes() {
-      const container = document.getElementById('container');
-      const findings = document.getElementById('findings');
+    const MIN_SIZE = 5;
+    const boxes = ${boxesJson}.map((box, i) => ({ ...box, id: i, blurred: false }));
+    let nextId = boxes.length;
+    let selectedId = null;
+    let drag = null;
+
+    const container = document.getElementById('container');
+    const image = document.getElementById('image');
+
+    function render() {
+      renderBoxes();
+      renderList();
+    }
 
-      boxes.forEach((box) => {
-        // Draw rectangle with number
+    function renderBoxes() {
+      container.querySelectorAll('.box').forEach(el => el.remove());
+      boxes.forEach((box, i) => {
         const div = document.createElement('div');
-        div.className = 'box';
-        div.id = 'box-' + box.index;
-        div.style.left = box.left;
-        div.style.top = box.top;
-        div.style.width = box.width;
-        div.style.height = box.height;
+        div.className = 'box' + (box.blurred ? ' blurred' : '') + (box.id === selectedId ? ' selected' : '');
+        div.id = 'box-' + box.id;
+        div.dataset.id = box.id;
+        placeBox(div, box);
+
+        if (box.overlay) {
+          const overlay = document.createElement('img');
+          overlay.className = 'mask-overlay';
+          overlay.src = box.overlay;
+          overlay.draggable = false;
+          div.appendChild(overlay);
+        }
 
         const numBadge = document.createElement('div');
         numBadge.className = 'box-number';
-        numBadge.textContent = box.num;
+        numBadge.textContent = i + 1;
         div.appendChild(numBadge);
 
+        if (!box.blurred) {
+          ['nw', 'ne', 'sw', 'se'].forEach(corner => {
+            const handle = document.createElement('div');
+            handle.className = 'handle ' + corner;
+            handle.dataset.corner = corner;
+            div.appendChild(handle);
+          });
+        }
         container.appendChild(div);
+      });
+    }
+
+    function placeBox(div, box) {
+      const [ymin, xmin, ymax, xmax] = box.box_2d;
+      div.style.left = (xmin / 10) + '%';
+      div.style.top = (ymin / 10) + '%';
+      div.style.width = ((xmax - xmin) / 10) + '%';
+      div.style.height = ((ymax - ymin) / 10) + '%';
+    }
 
-        // Add to findings list with blur button
+    function renderList() {
+      const findings = document.getElementById('findings');
+      findings.innerHTML = '';
+      boxes.forEach((box, i) => {
         const item = document.createElement('div');
-        item.className = 'finding-item';
-        item.id = 'item-' + box.index;
-        item.innerHTML = \`
-          <div class="finding-num">\${box.num}</div>
-          <div class="finding-text">\${box.label}</div>
-          <button class="btn btn-blur" onclick="blurOne(\${box.index})">Blur</button>
-        \`;
+        item.className = 'finding-item' + (box.blurred ? ' blurred' : '') + (box.id === selectedId ? ' selected' : '');
+
+        const num = document.createElement('div');
+        num.className = 'finding-num';
+        num.textContent = i + 1;
+
+        const label = document.createElement('input');
+        label.className = 'finding-text';
+        label.value = box.label;
+        label.disabled = box.blurred;
+        label.title = 'Rename';
+        label.addEventListener('focus', () => select(box.id));
+        label.addEventListener('input', () => box.label = label.value);
+
+        const blur = document.createElement('button');
+        blur.className = 'btn btn-blur' + (box.blurred ? ' blurred' : '');
+        blur.textContent = box.blurred ? '✓ Redacted' : 'Redact';
+        blur.disabled = box.blurred;
+        blur.addEventListener('click', () => blurBoxes([box]));
+
+        const remove = document.createElement('button');
+        remove.className = 'btn btn-delete';
+        remove.textContent = '✕';
+        remove.title = 'Delete box';
+        remove.disabled = box.blurred;
+        remove.addEventListener('click', () => removeBox(box.id));
+
+        item.append(num, label);
+        if (box.overlay) {
+          item.append(exportButton('Mask', 'Export the mask as a black and white PNG', 'exportMask', box), exportButton('Cut-out', 'Export the object on a transparent background', 'exportCutout', box));
+        }
+        item.append(blur, remove);
         findings.appendChild(item);
       });
+
+      const remaining = boxes.filter(b => !b.blurred).length;
+      document.getElementById('count').textContent = boxes.length + ' box(es)' + (remaining < boxes.length ? ', ' + remaining + ' not redacted' : '');
+      document.getElementById('blurAll').disabled = remaining === 0;
     }
 
-    function blurOne(index) {
-      if (blurredIndices.has(index)) return;
-      vscode.postMessage({ command: 'blur', indices: [index] });
-      markAsBlurred(index);
+    function exportButton(text, title, command, box) {
+      const button = document.createElement('button');
+      button.className = 'btn btn-export';
+      button.textContent = text;
+      button.title = title;
+      button.addEventListener('click', () => vscode.postMessage({ command, index: box.index }));
+      return button;
     }
 
-    function blurAll() {
-      const indices = boxes.map(b => b.index).filter(i => !blurredIndices.has(i));
-      if (indices.length === 0) return;
-      vscode.postMessage({ command: 'blur', indices });
-      indices.forEach(i => markAsBlurred(i));
-    }
-
-    function markAsBlurred(index) {
-      blurredIndices.add(index);
-      const box = document.getElementById('box-' + index);
-      const item = document.getElementById('item-' + index);
-      if (box) box.classList.add('blurred');
-      if (item) {
-        item.classList.add('blurred');
-        const btn = item.querySelector('.btn-blur');
-        if (btn) {
-          btn.textContent = '✓ Blurred';
-          btn.classList.add('blurred');
+    function select(id) {
+      if (selectedId === id) return;
+      selectedId = id;
+      container.querySelectorAll('.box').forEach(el => el.classList.toggle('selected', Number(el.dataset.id) === id));
+      document.querySelectorAll('.finding-item').forEach((el, i) => el.classList.toggle('selected', boxes[i].id === id));
+    }
+
+    function removeBox(id) {
+      const index = boxes.findIndex(b => b.id === id);
+      if (index < 0 || boxes[index].blurred) return;
+      boxes.splice(index, 1);
+      if (selectedId === id) selectedId = null;
+      render();
+    }
+
+    /** Pointer position in the 0-1000 coordinates of box_2d */
+    function toPoint(e) {
+      const rect = image.getBoundingClientRect();
+      const clamp = value => Math.max(0, Math.min(1000, Math.round(value)));
+      return {
+        x: clamp((e.clientX - rect.left) / rect.width * 1000),
+        y: clamp((e.clientY - rect.top) / rect.height * 1000)
+      };
+    }
+
+    container.addEventListener('pointerdown', (e) => {
+      if (e.button !== 0) return;
+      const point = toPoint(e);
+      const boxElement = e.target.closest('.box');
+      const box = boxElement && boxes.find(b => b.id === Number(boxElement.dataset.id));
+
+      if (box && box.blurred) return;
+      if (box) {
+        select(box.id);
+        drag = { box, start: point, original: box.box_2d.slice(), corner: e.target.dataset.corner || null };
+      } else {
+        const added = { id: nextId++, label: 'Added box', box_2d: [point.y, point.x, point.y, point.x], blurred: false, added: true };
+        boxes.push(added);
+        selectedId = added.id;
+        renderBoxes();
+        drag = { box: added, start: point, original: added.box_2d.slice(), corner: 'se' };
+      }
+      container.setPointerCapture(e.pointerId);
+      e.preventDefault();
+    });
+
+    container.addEventListener('pointermove', (e) => {
+      if (!drag) return;
+      const point = toPoint(e);
+      const [ymin, xmin, ymax, xmax] = drag.original;
+
+      if (drag.corner) {
+        const corner = drag.corner;
+        const top = corner[0] === 'n' ? point.y : ymin;
+        const bottom = corner[0] === 's' ? point.y : ymax;
+        const left = corner[1] === 'w' ? point.x : xmin;
+        const right = corner[1] === 'e' ? point.x : xmax;
+        drag.box.box_2d = [Math.min(top, bottom), Math.min(left, right), Math.max(top, bottom), Math.max(left, right)];
+      } else {
+        const dy = Math.max(-ymin, Math.min(1000 - ymax, point.y - drag.start.y));
+        const dx = Math.max(-xmin, Math.min(1000 - xmax, point.x - drag.start.x));
+        drag.box.box_2d = [ymin + dy, xmin + dx, ymax + dy, xmax + dx];
+      }
+      const element = document.getElementById('box-' + drag.box.id);
+      if (drag.box.overlay && drag.box.box_2d.some((value, i) => value !== drag.original[i])) {
+        // The mask only fits the box the model returned
+        drag.box.overlay = null;
+        element.querySelector('.mask-overlay').remove();
+      }
+      placeBox(element, drag.box);
+    });
+
+    container.addEventListener('pointerup', () => {
+      if (!drag) return;
+      const [ymin, xmin, ymax, xmax] = drag.box.box_2d;
+      const added = drag.box.added;
+      drag.box.added = false;
+      if (ymax - ymin < MIN_SIZE || xmax - xmin < MIN_SIZE) {
+        if (added) {
+          removeBox(drag.box.id);
+        } else {
+          drag.box.box_2d = drag.original;
+          render();
+        }
+      } else {
+        render();
+        if (added) {
+          const labels = document.querySelectorAll('.finding-text');
+          labels[labels.length - 1].select();
         }
       }
+      drag = null;
+    });
+
+    document.addEventListener('keydown', (e) => {
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId !== null && e.target.tagName !== 'INPUT') {
+        removeBox(selectedId);
+        e.preventDefault();
+      } else if (e.key === 'Escape' && e.target.tagName !== 'INPUT') {
+        selectedId = null;
+        render();
+      }
+    });
+
+    function blurBoxes(selected) {
+      const regions = selected.filter(b => !b.blurred).map(b => ({ index: b.index, box_2d: b.box_2d, label: b.label.trim() || 'Region' }));
+      if (regions.length === 0) return;
+      const useMasks = document.getElementById('useMasks');
+      vscode.postMessage({ command: 'blur', regions, useMasks: !useMasks || useMasks.checked });
+      selected.forEach(b => b.blurred = true);
+      if (selected.some(b => b.id === selectedId)) selectedId = null;
+      render();
+    }
+
+    function blurAll() {
+      blurBoxes(boxes);
     }
   </script>
 </body>
@@ -2074,7 +4615,7 @@ function showDetectionPreview(context: vscode.ExtensionContext, imagePath: strin
 
 // ==================== UTILITY FUNCTIONS ====================
 
-function getPreviewHtml(imageUri: string, filename: string, description?: string): string {
+function getPreviewHtml(imageUri: string, filename: string, description?: string, grounding?: GroundingInfo): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -2121,6 +4662,31 @@ function getPreviewHtml(imageUri: string, filename: string, description?: string
       font-size: 14px;
       line-height: 1.5;
     }
+    .sources {
+      margin-top: 20px;
+      padding: 15px;
+      background: #2d2d2d;
+      border-radius: 8px;
+      max-width: 600px;
+      font-size: 13px;
+      line-height: 1.5;
+    }
+    .sources h2 {
+      font-size: 13px;
+      color: #ffd700;
+      margin: 0 0 8px 0;
+    }
+    .sources ol {
+      margin: 0;
+      padding-left: 20px;
+    }
+    .sources a {
+      color: #4da3ff;
+    }
+    .search-queries {
+      margin-top: 8px;
+      color: #888;
+    }
   </style>
 </head>
 <body>
@@ -2130,11 +4696,12 @@ function getPreviewHtml(imageUri: string, filename: string, description?: string
     <img src="${imageUri}" alt="Generated Image" />
   </div>
   ${description ? `<div class="description">${description}</div>` : ''}
+  ${getGroundingHtml(grounding)}
 </body>
 </html>`;
 }
 
-function getComparisonHtml(originalUri: string, editedUri: string, description?: string): string {
+function getComparisonHtml(originalUri: string, editedUri: string, description?: string, grounding?: GroundingInfo): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -2187,6 +4754,33 @@ function getComparisonHtml(originalUri: string, editedUri: string, description?:
       line-height: 1.5;
       text-align: center;
     }
+    .sources {
+      margin-top: 20px;
+      padding: 15px;
+      background: #2d2d2d;
+      border-radius: 8px;
+      max-width: 1020px;
+      margin-left: auto;
+      margin-right: auto;
+      font-size: 13px;
+      line-height: 1.5;
+    }
+    .sources h2 {
+      font-size: 13px;
+      color: #ffd700;
+      margin: 0 0 8px 0;
+    }
+    .sources ol {
+      margin: 0;
+      padding-left: 20px;
+    }
+    .sources a {
+      color: #4da3ff;
+    }
+    .search-queries {
+      margin-top: 8px;
+      color: #888;
+    }
   </style>
 </head>
 <body>
@@ -2202,10 +4796,30 @@ function getComparisonHtml(originalUri: string, editedUri: string, description?:
     </div>
   </div>
   ${description ? `<div class="description">${description}</div>` : ''}
+  ${getGroundingHtml(grounding)}
 </body>
 </html>`;
 }
 
+function getGroundingHtml(grounding?: GroundingInfo): string {
+  if (!grounding || (grounding.sources.length === 0 && grounding.searchQueries.length === 0)) {
+    return '';
+  }
+
+  const sources = grounding.sources
+    .map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title)}</a></li>`)
+    .join('');
+  const queries = grounding.searchQueries.length > 0
+    ? `<div class="search-queries">Searched: ${grounding.searchQueries.map(q => escapeHtml(q)).join(' · ')}</div>`
+    : '';
+
+  return `<div class="sources">
+    <h2>🔎 Grounded with Google Search</h2>
+    ${sources ? `<ol>${sources}</ol>` : ''}
+    ${queries}
+  </div>`;
+}
+
 function isImageFile(filePath: string): boolean {
   const ext = path.extname(filePath).toLowerCase();
   return IMAGE_EXTENSIONS.includes(ext);
@@ -0,0 +1,322 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml } from './types';
+
+export interface VariationGalleryOptions {
+  title: string;
+  prompt: string;
+  /** Where the first kept candidate is saved; others get numbered names next to it */
+  savePath: string;
+  /** Directory holding the candidate files, deleted when the gallery closes */
+  tempDir: string;
+  candidates: string[];
+  /** Shown next to the candidates when editing an existing image */
+  sourcePath?: string;
+  /** Generate more candidates similar to the given one */
+  requestMore: (candidatePath: string) => Promise<string[]>;
+  /** Write a kept candidate to the target path; returns the path actually written */
+  save: (candidatePath: string, targetPath: string) => Promise<string>;
+  /** Called with the saved paths once the user keeps one or more candidates */
+  onKept: (savedPaths: string[]) => void;
+}
+
+/**
+ * Webview grid of generated candidates. The user keeps one or several,
+ * discards the rest or asks for more like a chosen candidate.
+ */
+export class VariationGallery {
+  public static readonly viewType = 'nanoBananaGallery';
+
+  private readonly candidates: string[];
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly options: VariationGalleryOptions) {
+    this.candidates = [...options.candidates];
+
+    panel.onDidDispose(() => this.cleanup());
+    panel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.command) {
+        case 'keep':
+          await this.keep(message.indices as number[]);
+          break;
+        case 'discard':
+          this.panel.dispose();
+          break;
+        case 'more':
+          await this.more(message.index as number);
+          break;
+      }
+    });
+
+    panel.webview.html = this.getHtml();
+  }
+
+  public static show(options: VariationGalleryOptions): VariationGallery {
+    const roots = [vscode.Uri.file(options.tempDir)];
+    if (options.sourcePath) {
+      roots.push(vscode.Uri.file(path.dirname(options.sourcePath)));
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      VariationGallery.viewType,
+      options.title,
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: roots
+      }
+    );
+
+    return new VariationGallery(panel, options);
+  }
+
+  private async keep(indices: number[]) {
+    const selected = indices.map(i => this.candidates[i]).filter(Boolean);
+    if (selected.length === 0) return;
+
+    try {
+      const savedPaths: string[] = [];
+      for (const [i, candidate] of selected.entries()) {
+        const target = i === 0 ? this.options.savePath : getNumberedPath(this.options.savePath);
+        savedPaths.push(await this.options.save(candidate, target));
+      }
+
+      this.panel.dispose();
+      vscode.window.showInformationMessage(
+        savedPaths.length === 1
+          ? `Image saved to: ${savedPaths[0]}`
+          : `Saved ${savedPaths.length} images next to ${path.basename(this.options.savePath)}`
+      );
+      this.options.onKept(savedPaths);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to save images: ${error.message}`);
+    }
+  }
+
+  private async more(index: number) {
+    const candidate = this.candidates[index];
+    if (!candidate) return;
+
+    try {
+      const added = await this.options.requestMore(candidate);
+      const start = this.candidates.length;
+      this.candidates.push(...added);
+      this.panel.webview.postMessage({
+        command: 'addCandidates',
+        candidates: added.map((p, i) => ({ index: start + i, uri: this.toWebviewUri(p) }))
+      });
+    } catch (error: any) {
+      this.panel.webview.postMessage({ command: 'moreFailed' });
+      vscode.window.showErrorMessage(`Failed to generate more variations: ${error.message}`);
+    }
+  }
+
+  private cleanup() {
+    fs.rmSync(this.options.tempDir, { recursive: true, force: true });
+  }
+
+  private toWebviewUri(filePath: string): string {
+    return this.panel.webview.asWebviewUri(vscode.Uri.file(filePath)).toString();
+  }
+
+  private getHtml(): string {
+    const candidates = this.candidates.map((p, index) => ({ index, uri: this.toWebviewUri(p) }));
+    const sourceHtml = this.options.sourcePath
+      ? `<div class="source"><h2>Original</h2><img src="${this.toWebviewUri(this.options.sourcePath)}" alt="Original" /></div>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(this.options.title)}</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      background: #1e1e1e;
+      color: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+    h1 {
+      font-size: 18px;
+      color: #ffd700;
+      margin-bottom: 10px;
+    }
+    .prompt {
+      color: #888;
+      margin-bottom: 15px;
+    }
+    .actions {
+      position: sticky;
+      top: 0;
+      padding: 10px 0;
+      background: #1e1e1e;
+      z-index: 10;
+    }
+    .btn {
+      padding: 8px 16px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      margin-right: 8px;
+      background: #444;
+      color: white;
+    }
+    .btn-keep {
+      background: #2a7a2a;
+    }
+    .btn-keep:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+    .btn-small {
+      padding: 4px 10px;
+      font-size: 11px;
+    }
+    .source h2 {
+      font-size: 14px;
+      color: #888;
+    }
+    .source img {
+      max-width: 240px;
+      border-radius: 8px;
+    }
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+      gap: 16px;
+      margin-top: 15px;
+    }
+    .card {
+      background: #2d2d2d;
+      border: 3px solid transparent;
+      border-radius: 8px;
+      padding: 8px;
+      cursor: pointer;
+    }
+    .card.selected {
+      border-color: #ffd700;
+    }
+    .card img {
+      width: 100%;
+      height: auto;
+      border-radius: 4px;
+      display: block;
+    }
+    .card-footer {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-top: 8px;
+      font-size: 12px;
+      color: #aaa;
+    }
+    .pending {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: 160px;
+      color: #888;
+    }
+  </style>
+</head>
+<body>
+  <h1>🍌 ${escapeHtml(this.options.title)}</h1>
+  <div class="prompt">${escapeHtml(this.options.prompt)}</div>
+  ${sourceHtml}
+
+  <div class="actions">
+    <button class="btn btn-keep" id="keep" onclick="keepSelected()" disabled>💾 Keep Selected</button>
+    <button class="btn" onclick="discard()">🗑️ Discard All</button>
+  </div>
+
+  <div class="grid" id="grid"></div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    const grid = document.getElementById('grid');
+    const keepButton = document.getElementById('keep');
+    const selected = new Set();
+    let pending = null;
+
+    function addCandidate(candidate) {
+      const card = document.createElement('div');
+      card.className = 'card';
+      card.id = 'card-' + candidate.index;
+      card.innerHTML = \`
+        <img src="\${candidate.uri}" alt="Variation \${candidate.index + 1}" />
+        <div class="card-footer">
+          <span>#\${candidate.index + 1}</span>
+          <button class="btn btn-small" onclick="more(event, \${candidate.index})">✨ More like this</button>
+        </div>
+      \`;
+      card.addEventListener('click', () => toggle(candidate.index));
+      grid.appendChild(card);
+    }
+
+    function toggle(index) {
+      if (selected.has(index)) {
+        selected.delete(index);
+      } else {
+        selected.add(index);
+      }
+      document.getElementById('card-' + index).classList.toggle('selected', selected.has(index));
+      keepButton.disabled = selected.size === 0;
+      keepButton.textContent = selected.size > 1 ? '💾 Keep ' + selected.size + ' Selected' : '💾 Keep Selected';
+    }
+
+    function keepSelected() {
+      vscode.postMessage({ command: 'keep', indices: Array.from(selected).sort((a, b) => a - b) });
+    }
+
+    function discard() {
+      vscode.postMessage({ command: 'discard' });
+    }
+
+    function more(event, index) {
+      event.stopPropagation();
+      if (pending) return;
+      pending = document.createElement('div');
+      pending.className = 'card pending';
+      pending.textContent = 'Generating more like #' + (index + 1) + '...';
+      grid.appendChild(pending);
+      vscode.postMessage({ command: 'more', index });
+    }
+
+    function clearPending() {
+      if (pending) {
+        pending.remove();
+        pending = null;
+      }
+    }
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.command === 'addCandidates') {
+        clearPending();
+        message.candidates.forEach(addCandidate);
+      } else if (message.command === 'moreFailed') {
+        clearPending();
+      }
+    });
+
+    ${JSON.stringify(candidates)}.forEach(addCandidate);
+  </script>
+</body>
+</html>`;
+  }
+}
+
+/** `dir/name.png` -> first free `dir/name_2.png`, `dir/name_3.png`, ... */
+function getNumberedPath(filePath: string): string {
+  const ext = path.extname(filePath);
+  const base = filePath.slice(0, filePath.length - ext.length);
+  for (let n = 2; ; n++) {
+    const candidate = `${base}_${n}${ext}`;
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
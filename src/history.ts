@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderId } from './providers';
+
+// ==================== TYPES ====================
+
+export type HistoryOperation = 'generate' | 'edit' | 'compose';
+
+export interface HistoryEntry {
+  id: string;
+  /** ISO timestamp of when the image was written */
+  timestamp: string;
+  operation: HistoryOperation;
+  provider: ProviderId;
+  model: string;
+  aspectRatio: string;
+  resolution: string;
+  useGoogleSearch?: boolean;
+  prompt: string;
+  /** Source image for edits, reference or composed images otherwise */
+  inputs: string[];
+  output: string;
+  durationMs?: number;
+  /** Text the model returned alongside the image */
+  text?: string;
+}
+
+export interface HistorySettings {
+  /** Entries kept; older ones are dropped */
+  maxEntries: number;
+  /** Also append every entry to `.banana/history.jsonl` */
+  writeToWorkspace: boolean;
+}
+
+const HISTORY_KEY = 'nanoBanana.history';
+const HISTORY_FILE = path.join('.banana', 'history.jsonl');
+
+// ==================== STORE ====================
+
+/**
+ * Generation history kept in workspace storage. Optionally every entry is
+ * also appended to `.banana/history.jsonl` so it can be shared with the team.
+ */
+export class HistoryStore {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento, private readonly settings: () => HistorySettings) {}
+
+  getAll(): HistoryEntry[] {
+    return this.state.get<HistoryEntry[]>(HISTORY_KEY, []);
+  }
+
+  get(id: string): HistoryEntry | undefined {
+    return this.getAll().find(e => e.id === id);
+  }
+
+  /** Most recent entry that produced the file */
+  findByOutput(filePath: string): HistoryEntry | undefined {
+    return this.getAll().find(e => path.normalize(e.output) === path.normalize(filePath));
+  }
+
+  async add(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry> {
+    const { maxEntries, writeToWorkspace } = this.settings();
+    const full: HistoryEntry = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+
+    await this.state.update(HISTORY_KEY, [full, ...this.getAll()].slice(0, Math.max(1, maxEntries)));
+
+    if (writeToWorkspace) {
+      try {
+        appendToWorkspaceLog(full);
+      } catch (error: any) {
+        console.error('Nano Banana: Failed to write history file:', error.message);
+      }
+    }
+
+    this.changeEmitter.fire();
+    return full;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.state.update(HISTORY_KEY, this.getAll().filter(e => e.id !== id));
+    this.changeEmitter.fire();
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(HISTORY_KEY, []);
+    this.changeEmitter.fire();
+  }
+}
+
+/** Append to the history file of the workspace folder holding the output, with folder-relative paths */
+function appendToWorkspaceLog(entry: HistoryEntry) {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(entry.output));
+  if (!folder) return;
+
+  const root = folder.uri.fsPath;
+  const relative = (p: string) => path.relative(root, p).split(path.sep).join('/');
+  const record = { ...entry, inputs: entry.inputs.map(relative), output: relative(entry.output) };
+
+  const logPath = path.join(root, HISTORY_FILE);
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  fs.appendFileSync(logPath, JSON.stringify(record) + '\n');
+}
+
+// ==================== TREE VIEW ====================
+
+const OPERATION_ICONS: Record<HistoryOperation, string> = {
+  generate: 'sparkle',
+  edit: 'edit',
+  compose: 'layers'
+};
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry> {
+  public static readonly viewId = 'nanoBananaHistory';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly store: HistoryStore) {
+    store.onDidChange(() => this.changeEmitter.fire());
+  }
+
+  getChildren(element?: HistoryEntry): HistoryEntry[] {
+    return element ? [] : this.store.getAll();
+  }
+
+  getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+    const item = new vscode.TreeItem(entry.prompt.replace(/\s+/g, ' '), vscode.TreeItemCollapsibleState.None);
+    const exists = fs.existsSync(entry.output);
+
+    item.id = entry.id;
+    item.description = `${path.basename(entry.output)} · ${formatAge(entry.timestamp)}`;
+    item.iconPath = new vscode.ThemeIcon(exists ? OPERATION_ICONS[entry.operation] : 'warning');
+    item.contextValue = `historyEntry.${entry.operation}`;
+    item.tooltip = getTooltip(entry, exists);
+    item.command = {
+      command: 'nanoBanana.history.open',
+      title: 'Open',
+      arguments: [entry]
+    };
+    return item;
+  }
+}
+
+function getTooltip(entry: HistoryEntry, exists: boolean): vscode.MarkdownString {
+  const lines = [
+    `**${entry.operation}** · ${new Date(entry.timestamp).toLocaleString()}`,
+    '',
+    entry.prompt,
+    '',
+    `- Provider: ${entry.provider}`,
+    `- Model: \`${entry.model}\``,
+    `- Aspect ratio: ${entry.aspectRatio} · Resolution: ${entry.resolution}`
+  ];
+  if (entry.useGoogleSearch) lines.push('- Google Search grounding');
+  if (entry.durationMs !== undefined) lines.push(`- Took ${(entry.durationMs / 1000).toFixed(1)}s`);
+  for (const input of entry.inputs) lines.push(`- Input: ${vscode.workspace.asRelativePath(input)}`);
+  lines.push(`- Output: ${vscode.workspace.asRelativePath(entry.output)}${exists ? '' : ' (missing)'}`);
+  if (entry.text) lines.push('', `> ${entry.text.replace(/\n/g, '\n> ')}`);
+
+  return new vscode.MarkdownString(lines.join('\n'));
+}
+
+export function formatAge(timestamp: string): string {
+  const seconds = Math.max(0, (Date.now() - new Date(timestamp).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
+import { Provenance, readProvenance } from './provenance';
+import { escapeHtml } from './types';
 
 export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorProvider {
   public static readonly viewType = 'bananaStudio.imagePreview';
@@ -40,7 +43,14 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
     const imageUri = webviewPanel.webview.asWebviewUri(document.uri);
     const imagePath = document.uri.fsPath;
 
-    webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, imageUri.toString(), imagePath);
+    let provenance: Provenance | undefined;
+    try {
+      provenance = readProvenance(fs.readFileSync(imagePath));
+    } catch (error) {
+      console.error('Nano Banana: Failed to read provenance:', error);
+    }
+
+    webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, imageUri.toString(), imagePath, provenance);
 
     // Handle messages from the webview
     webviewPanel.webview.onDidReceiveMessage(async (message) => {
@@ -51,6 +61,17 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
         case 'quickEdit':
           vscode.commands.executeCommand('nanoBanana.quickEdit', document.uri);
           break;
+        case 'editSession':
+          vscode.commands.executeCommand('nanoBanana.startEditSession', document.uri);
+          break;
+        case 'extendCanvas':
+          vscode.commands.executeCommand('nanoBanana.extendCanvas', document.uri);
+          break;
+        case 'inpaint': {
+          const saved = await vscode.commands.executeCommand<boolean>('nanoBanana.inpaintImage', document.uri, message.prompt, message.mask);
+          webviewPanel.webview.postMessage({ command: saved ? 'inpaintDone' : 'inpaintFailed' });
+          break;
+        }
         case 'analyzeImage':
           vscode.commands.executeCommand('nanoBanana.analyzeImage', document.uri);
           break;
@@ -69,6 +90,9 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
         case 'autoBlur':
           vscode.commands.executeCommand('nanoBanana.autoBlurSensitive', document.uri);
           break;
+        case 'showProvenance':
+          vscode.commands.executeCommand('nanoBanana.showProvenance', document.uri);
+          break;
         case 'copyImage':
           // Copy image to clipboard
           try {
@@ -82,7 +106,7 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
     });
   }
 
-  private getHtmlForWebview(webview: vscode.Webview, imageUri: string, imagePath: string): string {
+  private getHtmlForWebview(webview: vscode.Webview, imageUri: string, imagePath: string, provenance?: Provenance): string {
     const fileName = path.basename(imagePath);
 
     return `<!DOCTYPE html>
@@ -178,11 +202,123 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
       margin-left: auto;
       opacity: 0.6;
     }
+
+    .provenance {
+      position: fixed;
+      bottom: 10px;
+      left: 10px;
+      max-width: 420px;
+      background: rgba(37, 37, 38, 0.92);
+      border: 1px solid #454545;
+      border-radius: 6px;
+      padding: 6px 10px;
+      font-size: 12px;
+      z-index: 800;
+    }
+
+    .provenance summary {
+      cursor: pointer;
+      color: #ffd700;
+    }
+
+    .provenance dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 4px 10px;
+      margin-top: 8px;
+    }
+
+    .provenance dt {
+      color: #888;
+    }
+
+    .provenance dd {
+      word-break: break-word;
+    }
+
+    #mask {
+      position: absolute;
+      top: 0;
+      left: 0;
+      opacity: 0.5;
+      display: none;
+      cursor: crosshair;
+    }
+
+    body.masking #mask {
+      display: block;
+    }
+
+    .mask-toolbar {
+      position: fixed;
+      top: 10px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: #252526;
+      border: 1px solid #454545;
+      border-radius: 6px;
+      padding: 8px;
+      display: none;
+      align-items: center;
+      gap: 8px;
+      font-size: 12px;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
+      z-index: 900;
+    }
+
+    body.masking .mask-toolbar {
+      display: flex;
+    }
+
+    .mask-toolbar button {
+      padding: 5px 10px;
+      border: none;
+      border-radius: 4px;
+      background: #444;
+      color: #fff;
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    .mask-toolbar button.active {
+      background: #094771;
+    }
+
+    .mask-toolbar button.primary {
+      background: #b8860b;
+    }
+
+    .mask-toolbar button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .mask-toolbar input[type="text"] {
+      width: 260px;
+      background: #3c3c3c;
+      color: #fff;
+      border: 1px solid #454545;
+      border-radius: 4px;
+      padding: 5px 8px;
+    }
   </style>
 </head>
 <body>
   <div class="image-container">
     <img src="${imageUri}" alt="${fileName}" id="image" />
+    <canvas id="mask"></canvas>
+  </div>
+
+  ${provenance ? getProvenanceHtml(provenance) : ''}
+
+  <div class="mask-toolbar" id="maskToolbar">
+    <button id="brushTool" class="active" title="Paint the region to change">🖌️ Brush</button>
+    <button id="rectTool" title="Drag a rectangle over the region to change">▭ Rectangle</button>
+    <label>Size <input type="range" id="brushSize" min="5" max="120" value="30" /></label>
+    <button id="clearMask">Clear</button>
+    <input type="text" id="inpaintPrompt" placeholder="What should replace the painted region?" />
+    <button id="applyInpaint" class="primary">Apply</button>
+    <button id="cancelMask">Cancel</button>
   </div>
 
   <div class="context-menu" id="contextMenu">
@@ -195,6 +331,18 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
       <span class="icon">⚡</span>
       <span>Quick Edit with Preset</span>
     </div>
+    <div class="menu-item" data-action="editSession">
+      <span class="icon">💬</span>
+      <span>Start Edit Session</span>
+    </div>
+    <div class="menu-item" data-action="startMask">
+      <span class="icon">🖌️</span>
+      <span>Inpaint Region...</span>
+    </div>
+    <div class="menu-item" data-action="extendCanvas">
+      <span class="icon">↔️</span>
+      <span>Extend Canvas</span>
+    </div>
     <div class="menu-separator"></div>
     <div class="menu-item" data-action="describeImage">
       <span class="icon">💬</span>
@@ -218,6 +366,10 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
       <span>Auto-Blur Sensitive</span>
     </div>
     <div class="menu-separator"></div>
+    <div class="menu-item" data-action="showProvenance">
+      <span class="icon">ℹ️</span>
+      <span>Show Image Provenance</span>
+    </div>
     <div class="menu-item" data-action="copyImage">
       <span class="icon">📋</span>
       <span>Copy Path</span>
@@ -248,8 +400,12 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
     document.querySelectorAll('.menu-item').forEach(item => {
       item.addEventListener('click', () => {
         const action = item.dataset.action;
-        vscode.postMessage({ command: action });
         contextMenu.classList.remove('show');
+        if (action === 'startMask') {
+          startMask();
+          return;
+        }
+        vscode.postMessage({ command: action });
       });
     });
 
@@ -257,6 +413,116 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
     document.addEventListener('keydown', (e) => {
       if (e.key === 'Escape') {
         contextMenu.classList.remove('show');
+        if (document.body.classList.contains('masking')) {
+          stopMask();
+        }
+      }
+    });
+
+    // ===== Inpainting mask =====
+    // The canvas has the image's natural size and is scaled over it, so the
+    // exported mask lines up pixel for pixel with the original.
+    const mask = document.getElementById('mask');
+    const maskContext = mask.getContext('2d');
+    const applyButton = document.getElementById('applyInpaint');
+    let tool = 'brush';
+    let drawing = false;
+    let start = null;
+    let snapshot = null;
+
+    function startMask() {
+      mask.width = image.naturalWidth;
+      mask.height = image.naturalHeight;
+      fitMask();
+      document.body.classList.add('masking');
+      document.getElementById('inpaintPrompt').focus();
+    }
+
+    function stopMask() {
+      document.body.classList.remove('masking');
+      maskContext.clearRect(0, 0, mask.width, mask.height);
+      applyButton.disabled = false;
+    }
+
+    function fitMask() {
+      mask.style.width = image.clientWidth + 'px';
+      mask.style.height = image.clientHeight + 'px';
+    }
+
+    function toImagePoint(e) {
+      const rect = mask.getBoundingClientRect();
+      return {
+        x: (e.clientX - rect.left) * mask.width / rect.width,
+        y: (e.clientY - rect.top) * mask.height / rect.height
+      };
+    }
+
+    function setTool(name) {
+      tool = name;
+      document.getElementById('brushTool').classList.toggle('active', name === 'brush');
+      document.getElementById('rectTool').classList.toggle('active', name === 'rect');
+    }
+
+    mask.addEventListener('mousedown', (e) => {
+      if (e.button !== 0) return;
+      drawing = true;
+      start = toImagePoint(e);
+      maskContext.fillStyle = maskContext.strokeStyle = '#ffd700';
+      maskContext.lineCap = maskContext.lineJoin = 'round';
+      maskContext.lineWidth = document.getElementById('brushSize').value * mask.width / mask.getBoundingClientRect().width;
+      if (tool === 'rect') {
+        snapshot = maskContext.getImageData(0, 0, mask.width, mask.height);
+      } else {
+        maskContext.beginPath();
+        maskContext.moveTo(start.x, start.y);
+        maskContext.lineTo(start.x, start.y);
+        maskContext.stroke();
+      }
+    });
+
+    mask.addEventListener('mousemove', (e) => {
+      if (!drawing) return;
+      const point = toImagePoint(e);
+      if (tool === 'rect') {
+        maskContext.putImageData(snapshot, 0, 0);
+        maskContext.fillRect(Math.min(start.x, point.x), Math.min(start.y, point.y), Math.abs(point.x - start.x), Math.abs(point.y - start.y));
+      } else {
+        maskContext.lineTo(point.x, point.y);
+        maskContext.stroke();
+      }
+    });
+
+    window.addEventListener('mouseup', () => {
+      drawing = false;
+      snapshot = null;
+    });
+
+    window.addEventListener('resize', () => {
+      if (document.body.classList.contains('masking')) {
+        fitMask();
+      }
+    });
+
+    document.getElementById('brushTool').addEventListener('click', () => setTool('brush'));
+    document.getElementById('rectTool').addEventListener('click', () => setTool('rect'));
+    document.getElementById('clearMask').addEventListener('click', () => maskContext.clearRect(0, 0, mask.width, mask.height));
+    document.getElementById('cancelMask').addEventListener('click', stopMask);
+
+    applyButton.addEventListener('click', () => {
+      const prompt = document.getElementById('inpaintPrompt').value.trim();
+      if (!prompt) {
+        document.getElementById('inpaintPrompt').focus();
+        return;
+      }
+      applyButton.disabled = true;
+      vscode.postMessage({ command: 'inpaint', prompt, mask: mask.toDataURL('image/png') });
+    });
+
+    window.addEventListener('message', (event) => {
+      if (event.data.command === 'inpaintDone') {
+        stopMask();
+      } else if (event.data.command === 'inpaintFailed') {
+        applyButton.disabled = false;
       }
     });
   </script>
@@ -264,3 +530,24 @@ export class BananaImageEditorProvider implements vscode.CustomReadonlyEditorPro
 </html>`;
   }
 }
+
+/** Collapsible section describing how the image was made */
+function getProvenanceHtml(provenance: Provenance): string {
+  const rows: [string, string | undefined][] = [
+    ['Operation', provenance.operation],
+    ['Date', new Date(provenance.timestamp).toLocaleString()],
+    ['Model', `${provenance.model} (${provenance.provider})`],
+    ['Aspect ratio', provenance.aspectRatio],
+    ['Resolution', provenance.resolution],
+    ['Sources', provenance.sources.join(', ') || undefined],
+    ['Earlier steps', provenance.previousPrompts?.join(' → ') || undefined],
+    ['Prompt', provenance.prompt]
+  ];
+
+  return `<details class="provenance">
+    <summary>🍌 Made with ${escapeHtml(provenance.tool)}</summary>
+    <dl>
+      ${rows.filter(([, value]) => value).map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value!)}</dd>`).join('\n      ')}
+    </dl>
+  </details>`;
+}
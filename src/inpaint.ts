@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import { Jimp } from 'jimp';
+import { decodeImage, JimpImage } from './output';
+import { ASPECT_RATIOS, AspectRatio } from './types';
+
+/** Pixel rectangle covering every painted pixel of a mask */
+export interface MaskBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounds of the painted area. The mask is a PNG where any non-transparent
+ * pixel marks the region to replace; returns undefined for an empty mask.
+ */
+export async function getMaskBounds(mask: Buffer): Promise<MaskBounds | undefined> {
+  const image = await Jimp.read(mask);
+  const { width, height, data } = image.bitmap;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  return maxX < 0 ? undefined : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/** Pixels added on each side when extending a canvas */
+export interface CanvasPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Color of the new area in the canvas sent to the model */
+const CANVAS_FILL = 0x808080ff;
+
+/** Supported aspect ratio closest to the given dimensions */
+export function getClosestAspectRatio(width: number, height: number): AspectRatio {
+  const target = Math.log(width / height);
+  let best: AspectRatio = ASPECT_RATIOS[0];
+  for (const ratio of ASPECT_RATIOS) {
+    const [w, h] = ratio.split(':').map(Number);
+    const [bw, bh] = best.split(':').map(Number);
+    if (Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target)) {
+      best = ratio;
+    }
+  }
+  return best;
+}
+
+/** Decode a file or image bytes in any supported format, WebP included */
+export async function readImage(source: string | Buffer): Promise<JimpImage> {
+  return decodeImage(typeof source === 'string' ? await fs.promises.readFile(source) : source);
+}
+
+/**
+ * Blend the model output into the original through the mask and return a PNG.
+ * Feathering only fades inwards from the mask edge, so every pixel outside
+ * the painted area is copied from the original unchanged.
+ */
+export async function compositeWithMask(original: string | Buffer, generated: Buffer, mask: Buffer, feather: number): Promise<Buffer> {
+  const base = await readImage(original);
+  const { width, height } = base.bitmap;
+
+  const replacement = await decodeImage(generated);
+  if (replacement.bitmap.width !== width || replacement.bitmap.height !== height) {
+    replacement.resize({ w: width, h: height });
+  }
+
+  const maskImage = await Jimp.read(mask);
+  if (maskImage.bitmap.width !== width || maskImage.bitmap.height !== height) {
+    maskImage.resize({ w: width, h: height });
+  }
+
+  // Mask alpha as an opaque grayscale image so blurring never touches transparency
+  const weights = new Jimp({ width, height, color: 0x000000ff });
+  for (let i = 0; i < width * height; i++) {
+    const alpha = maskImage.bitmap.data[i * 4 + 3];
+    weights.bitmap.data[i * 4] = alpha;
+  }
+  const feathered = feather > 0 ? weights.clone().blur(feather) : weights;
+
+  const out = base.bitmap.data;
+  const src = replacement.bitmap.data;
+  for (let i = 0; i < width * height; i++) {
+    const w = Math.min(weights.bitmap.data[i * 4], feathered.bitmap.data[i * 4]) / 255;
+    if (w === 0) continue;
+    for (let c = 0; c < 4; c++) {
+      const p = i * 4 + c;
+      out[p] = Math.round(out[p] * (1 - w) + src[p] * w);
+    }
+  }
+
+  return base.getBuffer('image/png');
+}
+
+/**
+ * Padding that grows an image to the aspect ratio, keeping it centered.
+ * Only one dimension grows; returns zero padding when it already matches.
+ */
+export function getPaddingForAspectRatio(width: number, height: number, aspectRatio: string): CanvasPadding {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const targetWidth = Math.max(width, Math.round(height * w / h));
+  const targetHeight = Math.max(height, Math.round(width * h / w));
+  const extraX = targetWidth - width;
+  const extraY = targetHeight - height;
+  return {
+    top: Math.floor(extraY / 2),
+    right: Math.ceil(extraX / 2),
+    bottom: Math.ceil(extraY / 2),
+    left: Math.floor(extraX / 2)
+  };
+}
+
+/**
+ * Place the original on a larger canvas. Returns the canvas for the model and
+ * a mask covering only the added area, both as PNGs.
+ */
+export async function extendCanvas(original: string | Buffer, padding: CanvasPadding): Promise<{ canvas: Buffer; mask: Buffer; width: number; height: number }> {
+  const image = await readImage(original);
+  const width = image.bitmap.width + padding.left + padding.right;
+  const height = image.bitmap.height + padding.top + padding.bottom;
+
+  // Copy rows rather than composite() so transparent pixels are kept as they are
+  const canvas = new Jimp({ width, height, color: CANVAS_FILL });
+  const mask = new Jimp({ width, height, color: 0xffffffff });
+  const rowBytes = image.bitmap.width * 4;
+  for (let y = 0; y < image.bitmap.height; y++) {
+    const target = ((y + padding.top) * width + padding.left) * 4;
+    image.bitmap.data.copy(canvas.bitmap.data, target, y * rowBytes, (y + 1) * rowBytes);
+    mask.bitmap.data.fill(0, target, target + rowBytes);
+  }
+
+  return { canvas: await canvas.getBuffer('image/png'), mask: await mask.getBuffer('image/png'), width, height };
+}
@@ -0,0 +1,419 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  ImageChat,
+  ImageInput,
+  ImageProvider,
+  ImageRequestOptions,
+  ImageResult,
+  ProviderOperation,
+  UnderstandRequest,
+  UsageInfo
+} from './providers';
+import { RateLimiter, RetrySettings, sendWithRetry } from './requests';
+
+// ==================== TYPES ====================
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Provider operations, plus turns of a multi-turn edit session */
+export type JobOperation = ProviderOperation | 'session';
+
+export interface Job {
+  id: number;
+  operation: JobOperation;
+  provider: ImageProvider;
+  model: string;
+  prompt: string;
+  aspectRatio?: string;
+  resolution?: string;
+  /** File the request works on, when the caller told */
+  file?: string;
+  /** Command that started the request */
+  command?: string;
+  state: JobState;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  /** Attempts sent so far, counting automatic retries */
+  attempts: number;
+  /** What a running job is waiting for, such as a retry or the rate limit */
+  note?: string;
+  /** Billed usage reported with the response */
+  usage?: UsageInfo;
+  /** Runs the same request again as a new job; not set for session turns */
+  retry?: () => Promise<ImageResult | string>;
+}
+
+/** What a scoped provider attaches to the jobs it starts */
+export interface JobScope {
+  file?: string;
+  /** Cancels every job started through the scope */
+  token?: vscode.CancellationToken;
+}
+
+/** A command invocation; requests sent while it runs are attributed to it */
+export interface CommandRun {
+  command: string;
+  /** Set once the user approved costly requests for the rest of the run */
+  approved?: boolean;
+}
+
+export interface JobManagerOptions {
+  maxConcurrent: () => number;
+  retrySettings: () => RetrySettings;
+  limiter: RateLimiter;
+  /** Runs before a job is queued; throwing refuses the job */
+  guard?: (job: Job) => Promise<void>;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+type JobInfo = Pick<Job, 'operation' | 'provider' | 'model' | 'prompt' | 'aspectRatio' | 'resolution' | 'file' | 'command'>;
+
+const MAX_FINISHED_JOBS = 50;
+
+const commandRuns = new AsyncLocalStorage<CommandRun>();
+
+// ==================== COMMAND CONTEXT ====================
+
+/** Run a command callback so requests it sends, even after awaits, know the command */
+export function runInCommand<T>(command: string, callback: () => T): T {
+  return commandRuns.run({ command }, callback);
+}
+
+export function getCommandRun(): CommandRun | undefined {
+  return commandRuns.getStore();
+}
+
+// ==================== MANAGER ====================
+
+/**
+ * Tracks every AI request. At most `maxConcurrent()` jobs run at a time and
+ * the rest wait in order. Running jobs share the rate limiter and retry
+ * quota and transient errors. Cancelling aborts the request through its
+ * signal and settles the caller right away, even if the backend ignores the
+ * signal.
+ */
+export class JobManager implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly finishEmitter = new vscode.EventEmitter<Job>();
+  /** Fired once per job when it succeeds, fails or is cancelled */
+  public readonly onDidFinish = this.finishEmitter.event;
+
+  private jobs: Job[] = [];
+  private nextId = 1;
+  private readonly controllers = new Map<number, AbortController>();
+  private readonly waiting: Array<{ job: Job; start: () => void }> = [];
+
+  constructor(private readonly options: JobManagerOptions) {}
+
+  /** Newest first */
+  getJobs(): Job[] {
+    return this.jobs;
+  }
+
+  getCounts(): { running: number; queued: number } {
+    return {
+      running: this.jobs.filter(j => j.state === 'running').length,
+      queued: this.jobs.filter(j => j.state === 'queued').length
+    };
+  }
+
+  run<T extends ImageResult | string>(info: JobInfo, task: (signal: AbortSignal, job: Job) => Promise<T>, token?: vscode.CancellationToken, retryable = true): Promise<T> {
+    const job: Job = { ...info, id: this.nextId++, state: 'queued', queuedAt: Date.now(), attempts: 0 };
+    if (retryable) {
+      job.retry = () => this.run(info, task);
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.jobs.unshift(job);
+    this.prune();
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const cancelled = () => reject(new JobCancelledError());
+      controller.signal.addEventListener('abort', cancelled);
+
+      const start = () => {
+        if (controller.signal.aborted) return;
+        job.state = 'running';
+        job.startedAt = Date.now();
+        this.changeEmitter.fire();
+
+        const settings = this.options.retrySettings();
+        sendWithRetry(() => {
+          job.attempts++;
+          this.setNote(job, undefined);
+          return task(controller.signal, job);
+        }, {
+          settings,
+          signal: controller.signal,
+          limiter: this.options.limiter,
+          provider: job.provider.id,
+          onWait: delay => this.setNote(job, `Rate limit, waiting ${Math.ceil(delay / 1000)}s`),
+          onRetry: (attempt, delay, error) => this.setNote(job, `Retry ${attempt}/${settings.maxRetries} in ${Math.ceil(delay / 1000)}s: ${error.message}`)
+        }).then(result => {
+          if (controller.signal.aborted) return;
+          if (typeof result !== 'string' && result.usage) {
+            job.usage = result.usage;
+          }
+          this.finish(job, 'succeeded');
+          resolve(result);
+        }, error => {
+          if (controller.signal.aborted) return;
+          this.finish(job, 'failed', error?.message || String(error));
+          reject(error);
+        });
+      };
+
+      const enqueue = () => {
+        if (controller.signal.aborted) return;
+        this.waiting.push({ job, start });
+        this.startWaiting();
+      };
+
+      if (!this.options.guard) {
+        enqueue();
+        return;
+      }
+      this.options.guard(job).then(enqueue, error => {
+        if (controller.signal.aborted) return;
+        this.finish(job, error instanceof JobCancelledError ? 'cancelled' : 'failed', error?.message || String(error));
+        reject(error);
+      });
+    });
+
+    const subscription = token?.onCancellationRequested(() => this.cancel(job));
+    if (token?.isCancellationRequested) this.cancel(job);
+    const cleanup = () => subscription?.dispose();
+    promise.then(cleanup, cleanup);
+
+    this.changeEmitter.fire();
+    return promise;
+  }
+
+  cancel(job: Job) {
+    if (job.state !== 'queued' && job.state !== 'running') return;
+
+    const index = this.waiting.findIndex(w => w.job === job);
+    if (index >= 0) this.waiting.splice(index, 1);
+
+    this.controllers.get(job.id)?.abort();
+    this.finish(job, 'cancelled');
+  }
+
+  cancelAll() {
+    this.jobs.filter(j => j.state === 'queued' || j.state === 'running').forEach(j => this.cancel(j));
+  }
+
+  clearFinished() {
+    this.jobs = this.jobs.filter(j => j.state === 'queued' || j.state === 'running');
+    this.changeEmitter.fire();
+  }
+
+  private setNote(job: Job, note: string | undefined) {
+    if (job.note === note) return;
+    job.note = note;
+    this.changeEmitter.fire();
+  }
+
+  private finish(job: Job, state: JobState, error?: string) {
+    job.state = state;
+    job.finishedAt = Date.now();
+    job.error = error;
+    job.note = undefined;
+    this.controllers.delete(job.id);
+    this.changeEmitter.fire();
+    this.finishEmitter.fire(job);
+    this.startWaiting();
+  }
+
+  private startWaiting() {
+    const limit = Math.max(1, Math.round(this.options.maxConcurrent()) || 1);
+    while (this.waiting.length > 0 && this.getCounts().running < limit) {
+      this.waiting.shift()!.start();
+    }
+  }
+
+  /** Keep every active job and the most recent finished ones */
+  private prune() {
+    let finished = 0;
+    this.jobs = this.jobs.filter(j => j.state === 'queued' || j.state === 'running' || ++finished <= MAX_FINISHED_JOBS);
+  }
+
+  dispose() {
+    this.cancelAll();
+    this.changeEmitter.dispose();
+    this.finishEmitter.dispose();
+  }
+}
+
+// ==================== TRACKED PROVIDER ====================
+
+/**
+ * Provider that runs every request of the wrapped provider as a job, so it
+ * shows up in the jobs view and can be cancelled.
+ */
+export class TrackedProvider implements ImageProvider {
+  constructor(private readonly inner: ImageProvider, private readonly jobs: JobManager, private readonly scope: JobScope = {}) {}
+
+  get id() { return this.inner.id; }
+  get displayName() { return this.inner.displayName; }
+  get imageModel() { return this.inner.imageModel; }
+  get understandingModel() { return this.inner.understandingModel; }
+
+  /** Same provider with a file shown on its jobs and a token that cancels them */
+  withScope(scope: JobScope): TrackedProvider {
+    return new TrackedProvider(this.inner, this.jobs, { ...this.scope, ...scope });
+  }
+
+  generate(prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.runImage('generate', prompt, options, signal => this.inner.generate(prompt, { ...options, signal }));
+  }
+
+  edit(image: ImageInput, prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.runImage('edit', prompt, options, signal => this.inner.edit(image, prompt, { ...options, signal }));
+  }
+
+  compose(images: ImageInput[], prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.runImage('compose', prompt, options, signal => this.inner.compose(images, prompt, { ...options, signal }));
+  }
+
+  understand(request: UnderstandRequest): Promise<string> {
+    return this.jobs.run({
+      operation: 'understand',
+      provider: this.inner,
+      model: request.model,
+      prompt: request.prompt,
+      file: this.scope.file,
+      command: getCommandRun()?.command
+    }, (signal, job) => this.inner.understand({ ...request, signal, onUsage: usage => job.usage = usage }), this.scope.token);
+  }
+
+  startChat(options: ImageRequestOptions, snapshot?: unknown): ImageChat {
+    const chat = this.inner.startChat(options, snapshot);
+    return {
+      // Turns change the conversation, so they cannot be retried on their own
+      send: (prompt, image) => this.jobs.run(this.getInfo('session', prompt, options), signal => chat.send(prompt, image, signal), this.scope.token, false),
+      snapshot: () => chat.snapshot()
+    };
+  }
+
+  private runImage(operation: JobOperation, prompt: string, options: ImageRequestOptions, task: (signal: AbortSignal) => Promise<ImageResult>): Promise<ImageResult> {
+    return this.jobs.run(this.getInfo(operation, prompt, options), task, this.scope.token);
+  }
+
+  private getInfo(operation: JobOperation, prompt: string, options: ImageRequestOptions): JobInfo {
+    return {
+      operation,
+      provider: this.inner,
+      model: options.model,
+      prompt,
+      aspectRatio: options.aspectRatio,
+      resolution: options.resolution,
+      file: this.scope.file,
+      command: getCommandRun()?.command
+    };
+  }
+}
+
+// ==================== TREE VIEW ====================
+
+const STATE_ICONS: Record<JobState, vscode.ThemeIcon> = {
+  queued: new vscode.ThemeIcon('clock'),
+  running: new vscode.ThemeIcon('loading~spin'),
+  succeeded: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+  failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+  cancelled: new vscode.ThemeIcon('circle-slash')
+};
+
+export class JobsTreeProvider implements vscode.TreeDataProvider<Job>, vscode.Disposable {
+  public static readonly viewId = 'nanoBananaJobs';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly jobs: JobManager) {
+    jobs.onDidChange(() => {
+      this.changeEmitter.fire();
+      this.updateTimer();
+    });
+  }
+
+  getChildren(element?: Job): Job[] {
+    return element ? [] : this.jobs.getJobs();
+  }
+
+  getTreeItem(job: Job): vscode.TreeItem {
+    const target = job.file ? path.basename(job.file) : job.prompt.replace(/\s+/g, ' ');
+    const item = new vscode.TreeItem(`${job.operation}: ${target}`, vscode.TreeItemCollapsibleState.None);
+
+    item.id = String(job.id);
+    item.description = [
+      job.model,
+      formatElapsed(job),
+      job.attempts > 1 ? `attempt ${job.attempts}` : '',
+      job.note || (job.state === 'running' || job.state === 'succeeded' ? '' : job.state)
+    ].filter(Boolean).join(' · ');
+    item.iconPath = STATE_ICONS[job.state];
+    item.contextValue = `job.${job.state}${job.retry ? '.retryable' : ''}`;
+    item.tooltip = getTooltip(job);
+    item.command = {
+      command: 'nanoBanana.jobs.show',
+      title: 'Show Details',
+      arguments: [job]
+    };
+    return item;
+  }
+
+  /** Refresh elapsed times every second while a job runs */
+  private updateTimer() {
+    const active = this.jobs.getCounts().running > 0;
+    if (active && !this.timer) {
+      this.timer = setInterval(() => this.changeEmitter.fire(), 1000);
+    } else if (!active && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  dispose() {
+    if (this.timer) clearInterval(this.timer);
+    this.changeEmitter.dispose();
+  }
+}
+
+/** Time spent running, or waiting while queued */
+export function formatElapsed(job: Job): string {
+  const from = job.startedAt ?? job.queuedAt;
+  const to = job.finishedAt ?? Date.now();
+  return `${((to - from) / 1000).toFixed(job.finishedAt ? 1 : 0)}s`;
+}
+
+function getTooltip(job: Job): vscode.MarkdownString {
+  const lines = [
+    `**${job.operation}** · ${job.state} · ${formatElapsed(job)}`,
+    '',
+    job.prompt,
+    '',
+    `- Provider: ${job.provider.displayName}`,
+    `- Model: \`${job.model}\``
+  ];
+  if (job.aspectRatio) lines.push(`- Aspect ratio: ${job.aspectRatio} · Resolution: ${job.resolution}`);
+  if (job.file) lines.push(`- File: ${vscode.workspace.asRelativePath(job.file)}`);
+  if (job.attempts > 1) lines.push(`- Attempts: ${job.attempts}`);
+  if (job.note) lines.push('', job.note);
+  if (job.error) lines.push('', `> ${job.error.replace(/\n/g, '\n> ')}`);
+
+  return new vscode.MarkdownString(lines.join('\n'));
+}
@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// ==================== TYPES ====================
+
+export interface ManifestEntry {
+  prompt: string;
+  /** Output path, relative to the manifest file */
+  output: string;
+  model?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  /** Reference image paths, relative to the manifest file */
+  references?: string[];
+}
+
+export interface Manifest {
+  defaults: Omit<ManifestEntry, 'prompt' | 'output'>;
+  images: ManifestEntry[];
+}
+
+/** Resolved entry with absolute paths and the hash of everything that affects the output */
+export interface ManifestJob {
+  index: number;
+  prompt: string;
+  outputPath: string;
+  model?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  referencePaths: string[];
+  hash: string;
+}
+
+/** Output path (relative to the manifest) -> input hash of the last successful generation */
+export type ManifestLock = Record<string, string>;
+
+export class ManifestError extends Error {
+  constructor(manifestPath: string, message: string) {
+    super(`${path.basename(manifestPath)}: ${message}`);
+    this.name = 'ManifestError';
+  }
+}
+
+export const MANIFEST_GLOB = '**/*.banana.{json,yaml,yml}';
+
+// ==================== PARSING ====================
+
+export function isManifestFile(filePath: string): boolean {
+  return /\.banana\.(json|ya?ml)$/i.test(filePath);
+}
+
+/**
+ * Read a manifest. The file is either a list of entries or an object with
+ * `images` and optional `defaults` applied to every entry.
+ */
+export function readManifest(manifestPath: string): Manifest {
+  const text = fs.readFileSync(manifestPath, 'utf8');
+  let parsed: unknown;
+
+  try {
+    parsed = /\.ya?ml$/i.test(manifestPath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new ManifestError(manifestPath, `invalid ${/\.ya?ml$/i.test(manifestPath) ? 'YAML' : 'JSON'}: ${error.message}`);
+  }
+
+  const root = (Array.isArray(parsed) ? { images: parsed } : parsed) as Record<string, unknown> | null;
+  if (!root || typeof root !== 'object' || !Array.isArray(root.images)) {
+    throw new ManifestError(manifestPath, 'expected a list of images or an object with an "images" list');
+  }
+
+  const defaults = (root.defaults && typeof root.defaults === 'object' ? root.defaults : {}) as Manifest['defaults'];
+  const images = root.images.map((entry: unknown, i: number) => validateEntry(manifestPath, entry, i));
+
+  const outputs = new Set<string>();
+  for (const entry of images) {
+    const key = path.normalize(entry.output);
+    if (outputs.has(key)) {
+      throw new ManifestError(manifestPath, `duplicate output "${entry.output}"`);
+    }
+    outputs.add(key);
+  }
+
+  return { defaults, images };
+}
+
+function validateEntry(manifestPath: string, entry: unknown, index: number): ManifestEntry {
+  const e = entry as Record<string, unknown>;
+  if (typeof e !== 'object' || e === null) {
+    throw new ManifestError(manifestPath, `entry ${index + 1} is not an object`);
+  }
+  if (typeof e.prompt !== 'string' || !e.prompt.trim()) {
+    throw new ManifestError(manifestPath, `entry ${index + 1} is missing "prompt"`);
+  }
+  if (typeof e.output !== 'string' || !e.output.trim()) {
+    throw new ManifestError(manifestPath, `entry ${index + 1} is missing "output"`);
+  }
+  for (const key of ['model', 'aspectRatio', 'resolution'] as const) {
+    if (e[key] !== undefined && typeof e[key] !== 'string') {
+      throw new ManifestError(manifestPath, `entry ${index + 1}: "${key}" must be a string`);
+    }
+  }
+  if (e.references !== undefined && (!Array.isArray(e.references) || !e.references.every(r => typeof r === 'string'))) {
+    throw new ManifestError(manifestPath, `entry ${index + 1}: "references" must be a list of paths`);
+  }
+  return e as unknown as ManifestEntry;
+}
+
+/** Resolve paths, apply defaults and compute the input hash of every entry */
+export function resolveManifestJobs(manifestPath: string, manifest: Manifest): ManifestJob[] {
+  const baseDir = path.dirname(manifestPath);
+
+  return manifest.images.map((entry, index) => {
+    const merged = { ...manifest.defaults, ...entry };
+    const referencePaths = (merged.references || []).map(r => path.resolve(baseDir, r));
+
+    for (const referencePath of referencePaths) {
+      if (!fs.existsSync(referencePath)) {
+        throw new ManifestError(manifestPath, `entry ${index + 1}: reference image not found: ${path.relative(baseDir, referencePath)}`);
+      }
+    }
+
+    const hash = crypto.createHash('sha256');
+    hash.update(JSON.stringify([merged.prompt, merged.model, merged.aspectRatio, merged.resolution]));
+    for (const referencePath of referencePaths) {
+      hash.update(fs.readFileSync(referencePath));
+    }
+
+    return {
+      index,
+      prompt: merged.prompt,
+      outputPath: path.resolve(baseDir, merged.output),
+      model: merged.model,
+      aspectRatio: merged.aspectRatio,
+      resolution: merged.resolution,
+      referencePaths,
+      hash: hash.digest('hex')
+    };
+  });
+}
+
+// ==================== LOCK FILE ====================
+
+/**
+ * `images.banana.yaml` -> `images.banana.yaml.lock.json`. The manifest's
+ * extension stays in the name so a JSON and a YAML manifest of the same name
+ * have separate locks.
+ */
+export function getLockPath(manifestPath: string): string {
+  return `${manifestPath}.lock.json`;
+}
+
+/** Lock name of earlier releases, shared by manifests differing only in extension */
+function getLegacyLockPath(manifestPath: string): string {
+  return manifestPath.replace(/\.(json|ya?ml)$/i, '.lock.json');
+}
+
+/**
+ * Read the lock, falling back to a lock of earlier releases. Entries only
+ * match when their hash does, so a legacy lock written for the other
+ * manifest of a pair never marks a job as up to date by mistake.
+ */
+export function readLock(manifestPath: string): ManifestLock {
+  const lockPath = getLockPath(manifestPath);
+  try {
+    return JSON.parse(fs.readFileSync(fs.existsSync(lockPath) ? lockPath : getLegacyLockPath(manifestPath), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+export function writeLock(manifestPath: string, lock: ManifestLock): void {
+  const sorted = Object.fromEntries(Object.entries(lock).sort(([a], [b]) => a.localeCompare(b)));
+  fs.writeFileSync(getLockPath(manifestPath), JSON.stringify(sorted, null, 2) + '\n');
+}
+
+export function getLockKey(manifestPath: string, job: ManifestJob): string {
+  return path.relative(path.dirname(manifestPath), job.outputPath).split(path.sep).join('/');
+}
+
+/** A job is up to date when its output exists and its inputs have not changed */
+export function isUpToDate(manifestPath: string, job: ManifestJob, lock: ManifestLock): boolean {
+  return fs.existsSync(job.outputPath) && lock[getLockKey(manifestPath, job)] === job.hash;
+}
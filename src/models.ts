@@ -0,0 +1,238 @@
+import { ProviderId } from './providers';
+import { RESOLUTIONS, Resolution } from './types';
+
+// ==================== TYPES ====================
+
+export interface ModelCapabilities {
+  name: string;
+  displayName: string;
+  description?: string;
+  provider: ProviderId;
+  /** Image generation/editing model (as opposed to an understanding model) */
+  outputsImages: boolean;
+  supportsAspectRatio: boolean;
+  /** Largest `imageSize` the model accepts; undefined when the output size is fixed */
+  maxResolution?: Resolution;
+  maxInputImages: number;
+  supportsSearchGrounding: boolean;
+  supportsThinkingBudget: boolean;
+}
+
+/** A model as returned by the live `models.list()` API */
+export interface LiveModel {
+  name: string;
+  displayName: string;
+  description?: string;
+  supportedActions?: string[];
+}
+
+export type ModelCapabilityOverrides = Record<string, Partial<Omit<ModelCapabilities, 'name'>>>;
+
+// ==================== BUILT-IN MODELS ====================
+
+const BUILTIN_MODELS: ModelCapabilities[] = [
+  {
+    name: 'gemini-2.5-flash-image',
+    displayName: 'Banana Flash',
+    description: 'Fast and efficient - best for quick generations',
+    provider: 'gemini',
+    outputsImages: true,
+    supportsAspectRatio: true,
+    maxInputImages: 3,
+    supportsSearchGrounding: false,
+    supportsThinkingBudget: false
+  },
+  {
+    name: 'gemini-3-pro-image-preview',
+    displayName: 'Banana Pro',
+    description: 'Professional quality with advanced reasoning',
+    provider: 'gemini',
+    outputsImages: true,
+    supportsAspectRatio: true,
+    maxResolution: '4K',
+    maxInputImages: 14,
+    supportsSearchGrounding: true,
+    supportsThinkingBudget: false
+  },
+  {
+    name: 'gemini-3-flash-preview',
+    displayName: 'Gemini 3 Flash',
+    description: 'Fast understanding',
+    provider: 'gemini',
+    outputsImages: false,
+    supportsAspectRatio: false,
+    maxInputImages: 3600,
+    supportsSearchGrounding: true,
+    supportsThinkingBudget: true
+  },
+  {
+    name: 'gemini-3-pro-preview',
+    displayName: 'Gemini 3 Pro',
+    description: 'Advanced understanding',
+    provider: 'gemini',
+    outputsImages: false,
+    supportsAspectRatio: false,
+    maxInputImages: 3600,
+    supportsSearchGrounding: true,
+    supportsThinkingBudget: true
+  },
+  {
+    name: 'gemini-2.5-flash-preview-05-20',
+    displayName: 'Gemini 2.5 Flash',
+    description: 'Fast understanding',
+    provider: 'gemini',
+    outputsImages: false,
+    supportsAspectRatio: false,
+    maxInputImages: 3600,
+    supportsSearchGrounding: true,
+    supportsThinkingBudget: true
+  },
+  {
+    name: 'gpt-image-1',
+    displayName: 'GPT Image',
+    provider: 'openai',
+    outputsImages: true,
+    supportsAspectRatio: true,
+    maxInputImages: 16,
+    supportsSearchGrounding: false,
+    supportsThinkingBudget: false
+  },
+  {
+    name: 'local',
+    displayName: 'Local Stable Diffusion',
+    provider: 'local',
+    outputsImages: true,
+    supportsAspectRatio: true,
+    maxResolution: '2K',
+    maxInputImages: 1,
+    supportsSearchGrounding: false,
+    supportsThinkingBudget: false
+  }
+];
+
+/**
+ * Best guess for models we have no entry for, based on naming conventions.
+ * Users can correct it with the `nanoBanana.modelCapabilities` setting.
+ */
+export function inferCapabilities(name: string, provider: ProviderId = 'gemini', displayName?: string): ModelCapabilities {
+  const lower = name.toLowerCase();
+
+  if (provider === 'openai') {
+    const outputsImages = lower.includes('image') || lower.startsWith('dall-e');
+    return {
+      name,
+      displayName: displayName || name,
+      provider,
+      outputsImages,
+      supportsAspectRatio: outputsImages,
+      maxInputImages: lower.startsWith('gpt-image') ? 16 : 1,
+      supportsSearchGrounding: false,
+      supportsThinkingBudget: false
+    };
+  }
+
+  if (provider === 'local') {
+    return { ...BUILTIN_MODELS.find(m => m.name === 'local')!, name, displayName: displayName || name };
+  }
+
+  const outputsImages = lower.includes('image');
+  const isPro = lower.includes('pro');
+  return {
+    name,
+    displayName: displayName || name,
+    provider,
+    outputsImages,
+    supportsAspectRatio: outputsImages,
+    maxResolution: outputsImages && isPro ? '4K' : undefined,
+    maxInputImages: outputsImages ? (isPro ? 14 : 3) : 3600,
+    supportsSearchGrounding: isPro || (!outputsImages && /gemini-(2\.5|3)/.test(lower)),
+    supportsThinkingBudget: !outputsImages && /gemini-(2\.5|3)/.test(lower)
+  };
+}
+
+export function normalizeModelName(name: string): string {
+  return name.replace(/^models\//, '');
+}
+
+// ==================== REGISTRY ====================
+
+/**
+ * Built-in model descriptions merged with the live model list and the
+ * user's `nanoBanana.modelCapabilities` overrides.
+ */
+export class ModelRegistry {
+  private readonly models = new Map<string, ModelCapabilities>();
+
+  constructor(liveModels: LiveModel[] = [], private readonly overrides: ModelCapabilityOverrides = {}) {
+    for (const model of BUILTIN_MODELS) {
+      this.models.set(model.name, model);
+    }
+
+    for (const live of liveModels) {
+      if (live.supportedActions && !live.supportedActions.includes('generateContent')) continue;
+      const name = normalizeModelName(live.name);
+      const known = this.models.get(name);
+      this.models.set(name, known
+        ? { ...known, description: known.description || live.description }
+        : { ...inferCapabilities(name, 'gemini', live.displayName), description: live.description });
+    }
+
+    for (const [name, override] of Object.entries(overrides)) {
+      const base = this.models.get(name) || inferCapabilities(name, override.provider);
+      this.models.set(name, { ...base, ...override, name });
+    }
+  }
+
+  get(name: string, provider: ProviderId = 'gemini'): ModelCapabilities {
+    const normalized = normalizeModelName(name);
+    return this.models.get(normalized) || inferCapabilities(normalized, provider);
+  }
+
+  list(filter?: (model: ModelCapabilities) => boolean): ModelCapabilities[] {
+    const models = Array.from(this.models.values());
+    return filter ? models.filter(filter) : models;
+  }
+
+  /** Resolutions the model accepts, smallest first */
+  getResolutions(name: string, provider?: ProviderId): Resolution[] {
+    const max = this.get(name, provider).maxResolution;
+    return max ? RESOLUTIONS.slice(0, RESOLUTIONS.indexOf(max) + 1) : [];
+  }
+
+  /** Clamp a resolution to what the model accepts */
+  clampResolution(name: string, resolution: string, provider?: ProviderId): Resolution | undefined {
+    const resolutions = this.getResolutions(name, provider);
+    if (resolutions.length === 0) return undefined;
+    return (resolutions as string[]).includes(resolution)
+      ? resolution as Resolution
+      : resolutions[resolutions.length - 1];
+  }
+
+  /**
+   * Pick an image model for the provider that accepts `inputImages` images,
+   * preferring `preferred` when it qualifies.
+   */
+  findImageModel(provider: ProviderId, inputImages: number, preferred: string): string | undefined {
+    if (this.get(preferred, provider).maxInputImages >= inputImages) {
+      return preferred;
+    }
+    return this.list(m => m.provider === provider && m.outputsImages && m.maxInputImages >= inputImages)[0]?.name;
+  }
+
+  maxInputImages(provider: ProviderId): number {
+    return Math.max(0, ...this.list(m => m.provider === provider && m.outputsImages).map(m => m.maxInputImages));
+  }
+}
+
+/** One-line summary of what a model supports, for quick pick details */
+export function formatCapabilities(model: ModelCapabilities): string {
+  const features: string[] = [];
+  if (model.outputsImages) {
+    if (model.supportsAspectRatio) features.push('Aspect ratio');
+    features.push(model.maxResolution ? `Up to ${model.maxResolution}` : 'Fixed size');
+    features.push(`${model.maxInputImages} input image${model.maxInputImages === 1 ? '' : 's'}`);
+  }
+  if (model.supportsSearchGrounding) features.push('Google Search');
+  if (model.supportsThinkingBudget) features.push('Thinking budget');
+  return `${model.name} - ${features.join(' · ')}`;
+}
@@ -0,0 +1,150 @@
+import * as path from 'path';
+import { Jimp } from 'jimp';
+
+// ==================== TYPES ====================
+
+export const OUTPUT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Configured output format; `original` writes the bytes the model returned */
+export type OutputFormatSetting = OutputFormat | 'original';
+
+export interface EncodeOptions {
+  /** JPEG and WebP quality, 1-100 */
+  quality: number;
+  /** Longest side in pixels; 0 keeps the original size */
+  maxDimension: number;
+}
+
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  webp: '.webp'
+};
+
+/** Save dialog filters, the given format first so it is preselected */
+export function getSaveFilters(first: OutputFormat): Record<string, string[]> {
+  const all: Record<OutputFormat, [string, string[]]> = {
+    png: ['PNG', ['png']],
+    jpeg: ['JPEG', ['jpg', 'jpeg']],
+    webp: ['WebP', ['webp']]
+  };
+  const order = [first, ...OUTPUT_FORMATS.filter(f => f !== first)];
+  return Object.fromEntries(order.map(f => all[f]));
+}
+
+// ==================== FORMAT DETECTION ====================
+
+/** Format implied by a file name, undefined for other extensions */
+export function getFormatForPath(filePath: string): OutputFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.png': return 'png';
+    case '.jpg':
+    case '.jpeg': return 'jpeg';
+    case '.webp': return 'webp';
+    default: return undefined;
+  }
+}
+
+/** Format of image bytes from their signature, regardless of the MIME type we were told */
+export function detectFormat(data: Buffer): OutputFormat | undefined {
+  if (data.length > 8 && data[0] === 0x89 && data.toString('latin1', 1, 4) === 'PNG') return 'png';
+  if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8) return 'jpeg';
+  if (data.length > 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  return undefined;
+}
+
+/** `filePath` with the extension of `format`, replacing another image extension if present */
+export function withFormatExtension(filePath: string, format: OutputFormat): string {
+  if (getFormatForPath(filePath) === format) return filePath;
+  const ext = path.extname(filePath);
+  const base = /^\.(png|jpe?g|webp|gif|bmp)$/i.test(ext) ? filePath.slice(0, -ext.length) : filePath;
+  return base + FORMAT_EXTENSIONS[format];
+}
+
+// ==================== ENCODING ====================
+
+export type JimpImage = Awaited<ReturnType<typeof Jimp.read>>;
+
+/** Decode image bytes with Jimp, including WebP which Jimp cannot read itself */
+export async function decodeImage(data: Buffer): Promise<JimpImage> {
+  return detectFormat(data) === 'webp' ? Jimp.fromBitmap(await decodeWebp(data)) as JimpImage : Jimp.read(data);
+}
+
+/**
+ * Encode image bytes as `format`, downscaling to `maxDimension`. Bytes that
+ * already have the right format and size are returned untouched so nothing
+ * is recompressed needlessly.
+ */
+export async function encodeImage(data: Buffer, format: OutputFormat, options: EncodeOptions): Promise<Buffer> {
+  const source = detectFormat(data);
+  const image = await decodeImage(data);
+  const { width, height } = image.bitmap;
+  const tooLarge = options.maxDimension > 0 && Math.max(width, height) > options.maxDimension;
+
+  if (source === format && !tooLarge) {
+    return data;
+  }
+
+  if (tooLarge) {
+    image.scaleToFit({ w: options.maxDimension, h: options.maxDimension });
+  }
+
+  const quality = Math.min(Math.max(Math.round(options.quality) || 90, 1), 100);
+  switch (format) {
+    case 'jpeg':
+      return image.getBuffer('image/jpeg', { quality });
+    case 'webp':
+      return encodeWebp(image.bitmap, quality);
+    default:
+      return image.getBuffer('image/png');
+  }
+}
+
+// ==================== WEBP ====================
+
+/*
+ * Jimp has no built-in WebP codec. The libwebp WebAssembly builds are
+ * embedded in the bundle (esbuild `binary` loader) and handed to the codec
+ * directly, so nothing is fetched from disk at runtime.
+ */
+
+interface Bitmap {
+  width: number;
+  height: number;
+  data: Buffer | Uint8Array | Uint8ClampedArray;
+}
+
+let webpEncoder: Promise<(bitmap: Bitmap, quality: number) => Promise<ArrayBuffer>> | undefined;
+let webpDecoder: Promise<(data: Buffer) => Promise<Bitmap>> | undefined;
+
+async function encodeWebp(bitmap: Bitmap, quality: number): Promise<Buffer> {
+  webpEncoder ??= (async () => {
+    const { default: encode, init } = await import('@jsquash/webp/encode.js');
+    const { simd } = await import('wasm-feature-detect');
+    const { default: wasmBinary } = await (await simd()
+      ? import('@jsquash/webp/codec/enc/webp_enc_simd.wasm')
+      : import('@jsquash/webp/codec/enc/webp_enc.wasm'));
+    await init({ wasmBinary, locateFile: (file: string) => file } as Parameters<typeof init>[0]);
+    return (b: Bitmap, q: number) => encode({ width: b.width, height: b.height, data: new Uint8ClampedArray(b.data), colorSpace: 'srgb' }, { quality: q });
+  })();
+
+  const encode = await webpEncoder;
+  return Buffer.from(await encode(bitmap, quality));
+}
+
+async function decodeWebp(data: Buffer): Promise<{ width: number; height: number; data: Buffer }> {
+  webpDecoder ??= (async () => {
+    const { default: decode, init } = await import('@jsquash/webp/decode.js');
+    const { default: wasmBinary } = await import('@jsquash/webp/codec/dec/webp_dec.wasm');
+    await init({ wasmBinary, locateFile: (file: string) => file } as Parameters<typeof init>[0]);
+    return async (d: Buffer) => {
+      const image = await decode(d.buffer.slice(d.byteOffset, d.byteOffset + d.byteLength) as ArrayBuffer);
+      return { width: image.width, height: image.height, data: image.data };
+    };
+  })();
+
+  const decode = await webpDecoder;
+  const bitmap = await decode(data);
+  return { width: bitmap.width, height: bitmap.height, data: Buffer.from(bitmap.data.buffer, bitmap.data.byteOffset, bitmap.data.byteLength) };
+}
@@ -0,0 +1,235 @@
+import { Jimp } from 'jimp';
+import { decodeImage, detectFormat, encodeImage, JimpImage, OUTPUT_FORMATS, OutputFormat } from './output';
+
+// ==================== TYPES ====================
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export type PipelineStep =
+  /** AI edit with a fixed prompt */
+  | { type: 'edit'; prompt: string }
+  /** AI edit with a quick prompt, looked up by label */
+  | { type: 'quickPrompt'; label: string }
+  /** Detect sensitive data and redact it */
+  | { type: 'redact' }
+  /** Describe the image; the text is reported with the result */
+  | { type: 'describe'; prompt?: string }
+  /** Exact size, or scale down so the longest side fits `maxDimension` */
+  | { type: 'resize'; width?: number; height?: number; maxDimension?: number }
+  /** Pixel rectangle, or trim uniform borders when `content` is set */
+  | { type: 'crop'; content?: boolean; x?: number; y?: number; width?: number; height?: number }
+  /** Format of the final file */
+  | { type: 'convert'; format: OutputFormat; quality?: number }
+  /** Overlay an image such as a logo; `scale` is relative to the image width */
+  | { type: 'watermark'; image: string; position?: WatermarkPosition; scale?: number; opacity?: number; margin?: number };
+
+export type PipelineStepType = PipelineStep['type'];
+
+export interface Pipeline {
+  name: string;
+  description?: string;
+  steps: PipelineStep[];
+  /** Appended to the file name of the result; defaults to the pipeline name */
+  suffix?: string;
+}
+
+/** AI steps, implemented by the extension with the configured providers */
+export interface PipelineServices {
+  edit(image: Buffer, prompt: string): Promise<Buffer>;
+  /** Returns the image with sensitive regions redacted and how many were found */
+  redact(image: Buffer): Promise<{ image: Buffer; regions: number }>;
+  describe(image: Buffer, prompt?: string): Promise<string>;
+  /** Absolute path of a file referenced by a step */
+  resolvePath(filePath: string): string;
+}
+
+export interface StepResult {
+  step: PipelineStep;
+  summary: string;
+  /** Image after the step, as PNG */
+  image: Buffer;
+}
+
+export interface PipelineResult {
+  /** Final image, in the format set by the last convert step or else the input format */
+  output: Buffer;
+  format: OutputFormat;
+  steps: StepResult[];
+}
+
+export class PipelineError extends Error {
+  constructor(pipeline: string, message: string) {
+    super(`Pipeline "${pipeline}": ${message}`);
+    this.name = 'PipelineError';
+  }
+}
+
+const STEP_TYPES: PipelineStepType[] = ['edit', 'quickPrompt', 'redact', 'describe', 'resize', 'crop', 'convert', 'watermark'];
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+// ==================== VALIDATION ====================
+
+/** Check a pipeline from the settings, throwing a PipelineError for the first problem */
+export function validatePipeline(value: unknown, index: number): Pipeline {
+  const p = value as Record<string, unknown>;
+  if (typeof p !== 'object' || p === null || typeof p.name !== 'string' || !p.name.trim()) {
+    throw new PipelineError(`#${index + 1}`, 'missing "name"');
+  }
+  if (!Array.isArray(p.steps) || p.steps.length === 0) {
+    throw new PipelineError(p.name, '"steps" must be a non-empty list');
+  }
+
+  p.steps.forEach((value: unknown, i: number) => {
+    const step = value as Record<string, unknown>;
+    const fail = (message: string) => { throw new PipelineError(p.name as string, `step ${i + 1}: ${message}`); };
+
+    if (typeof step !== 'object' || step === null || !STEP_TYPES.includes(step.type as PipelineStepType)) {
+      fail(`"type" must be one of ${STEP_TYPES.join(', ')}`);
+    }
+    const isPositive = (key: string) => step[key] === undefined || (typeof step[key] === 'number' && (step[key] as number) > 0);
+
+    switch (step.type) {
+      case 'edit':
+        if (typeof step.prompt !== 'string' || !step.prompt.trim()) fail('"prompt" is required');
+        break;
+      case 'quickPrompt':
+        if (typeof step.label !== 'string' || !step.label) fail('"label" is required');
+        break;
+      case 'resize':
+        if (!['width', 'height', 'maxDimension'].every(isPositive)) fail('sizes must be positive numbers');
+        if (step.width === undefined && step.height === undefined && step.maxDimension === undefined) fail('set "width", "height" or "maxDimension"');
+        break;
+      case 'crop':
+        if (!step.content && !['width', 'height'].every(k => typeof step[k] === 'number' && isPositive(k))) fail('set "content": true or a "width" and "height"');
+        break;
+      case 'convert':
+        if (!OUTPUT_FORMATS.includes(step.format as OutputFormat)) fail(`"format" must be one of ${OUTPUT_FORMATS.join(', ')}`);
+        break;
+      case 'watermark':
+        if (typeof step.image !== 'string' || !step.image) fail('"image" is required');
+        if (step.position !== undefined && !WATERMARK_POSITIONS.includes(step.position as WatermarkPosition)) fail(`"position" must be one of ${WATERMARK_POSITIONS.join(', ')}`);
+        break;
+    }
+  });
+
+  return p as unknown as Pipeline;
+}
+
+export function describeStep(step: PipelineStep): string {
+  switch (step.type) {
+    case 'edit': return `Edit: ${step.prompt}`;
+    case 'quickPrompt': return `Quick prompt: ${step.label}`;
+    case 'redact': return 'Redact sensitive data';
+    case 'describe': return 'Describe';
+    case 'resize': return step.maxDimension ? `Resize to fit ${step.maxDimension}px` : `Resize to ${step.width ?? 'auto'}x${step.height ?? 'auto'}`;
+    case 'crop': return step.content ? 'Crop to content' : `Crop ${step.width}x${step.height} at ${step.x ?? 0},${step.y ?? 0}`;
+    case 'convert': return `Convert to ${step.format.toUpperCase()}`;
+    case 'watermark': return `Watermark (${step.position || 'bottom-right'})`;
+  }
+}
+
+// ==================== RUNNING ====================
+
+/**
+ * Run the steps in order. Local steps work on the decoded image and the
+ * final file is encoded once at the end, so lossy formats are not
+ * recompressed between steps. `quickPrompt` steps must have been replaced
+ * by `edit` steps before running.
+ */
+export async function runPipeline(
+  pipeline: Pipeline,
+  input: Buffer,
+  services: PipelineServices,
+  options: { quality: number; onStep?: (index: number, step: PipelineStep) => void; isCancelled?: () => boolean }
+): Promise<PipelineResult> {
+  let image = await decodeImage(input);
+  let format: OutputFormat = detectFormat(input) ?? 'png';
+  let quality = options.quality;
+  const steps: StepResult[] = [];
+
+  for (const [i, step] of pipeline.steps.entries()) {
+    if (options.isCancelled?.()) {
+      throw new PipelineError(pipeline.name, 'cancelled');
+    }
+    options.onStep?.(i, step);
+
+    let summary = describeStep(step);
+    switch (step.type) {
+      case 'edit':
+        image = await decodeImage(await services.edit(await image.getBuffer('image/png'), step.prompt));
+        break;
+      case 'quickPrompt':
+        throw new PipelineError(pipeline.name, `quick prompt "${step.label}" was not resolved`);
+      case 'redact': {
+        const result = await services.redact(await image.getBuffer('image/png'));
+        image = await decodeImage(result.image);
+        summary = result.regions > 0 ? `Redacted ${result.regions} sensitive region(s)` : 'No sensitive data found';
+        break;
+      }
+      case 'describe':
+        summary = await services.describe(await image.getBuffer('image/png'), step.prompt);
+        break;
+      case 'resize':
+        resize(image, step);
+        break;
+      case 'crop':
+        crop(image, step);
+        break;
+      case 'convert':
+        format = step.format;
+        quality = step.quality ?? quality;
+        break;
+      case 'watermark':
+        await watermark(image, step, services.resolvePath(step.image));
+        break;
+    }
+
+    steps.push({ step, summary, image: await image.getBuffer('image/png') });
+  }
+
+  const output = await encodeImage(await image.getBuffer('image/png'), format, { quality, maxDimension: 0 });
+  return { output, format, steps };
+}
+
+function resize(image: JimpImage, step: Extract<PipelineStep, { type: 'resize' }>) {
+  if (step.maxDimension) {
+    if (Math.max(image.width, image.height) > step.maxDimension) {
+      image.scaleToFit({ w: step.maxDimension, h: step.maxDimension });
+    }
+  } else if (step.width && step.height) {
+    image.resize({ w: step.width, h: step.height });
+  } else if (step.width) {
+    image.resize({ w: step.width });
+  } else if (step.height) {
+    image.resize({ h: step.height });
+  }
+}
+
+function crop(image: JimpImage, step: Extract<PipelineStep, { type: 'crop' }>) {
+  if (step.content) {
+    image.autocrop({ tolerance: 0.02, cropOnlyFrames: false });
+    return;
+  }
+
+  const x = Math.min(Math.max(step.x ?? 0, 0), image.width - 1);
+  const y = Math.min(Math.max(step.y ?? 0, 0), image.height - 1);
+  image.crop({ x, y, w: Math.min(step.width!, image.width - x), h: Math.min(step.height!, image.height - y) });
+}
+
+async function watermark(image: JimpImage, step: Extract<PipelineStep, { type: 'watermark' }>, markPath: string) {
+  const mark = await Jimp.read(markPath);
+  const width = Math.max(1, Math.round(image.width * (step.scale ?? 0.15)));
+  mark.resize({ w: width });
+  if (step.opacity !== undefined) {
+    mark.opacity(Math.min(Math.max(step.opacity, 0), 1));
+  }
+
+  const margin = step.margin ?? Math.round(image.width * 0.02);
+  const position = step.position || 'bottom-right';
+  const x = position === 'center' ? (image.width - mark.width) / 2
+    : position.endsWith('left') ? margin : image.width - mark.width - margin;
+  const y = position === 'center' ? (image.height - mark.height) / 2
+    : position.startsWith('top') ? margin : image.height - mark.height - margin;
+
+  image.composite(mark, Math.round(x), Math.round(y));
+}
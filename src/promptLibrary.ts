@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isMap, isScalar, isSeq, Node, parseDocument } from 'yaml';
+import { QuickPrompt } from './quickPrompts';
+
+// ==================== TYPES ====================
+
+/** Problem in a library file, as character offsets into its text */
+export interface LibraryProblem {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedLibrary {
+  /** Valid prompts; invalid entries are skipped and reported */
+  prompts: QuickPrompt[];
+  problems: LibraryProblem[];
+}
+
+export const PROMPT_LIBRARY_GLOB = '.banana/prompts/*.json';
+export const PROMPT_LIBRARY_DIR = path.join('.banana', 'prompts');
+
+// ==================== PARSING ====================
+
+/**
+ * Parse a prompt library: a list of quick prompts, or an object with a
+ * `prompts` list. The text is also read as YAML, a superset of JSON, only to
+ * locate entries so problems point at the offending lines.
+ */
+export function parsePromptLibrary(text: string): ParsedLibrary {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    const position = /position (\d+)/.exec(error.message);
+    const start = position ? Number(position[1]) : 0;
+    return { prompts: [], problems: [{ message: `Invalid JSON: ${error.message}`, start, end: start + 1 }] };
+  }
+
+  const doc = parseDocument(text);
+  const root = doc.errors.length === 0 ? doc.contents : null;
+  const whole = { start: 0, end: Math.max(1, text.indexOf('\n')) };
+
+  const isList = Array.isArray(parsed);
+  const list = isList ? parsed as unknown[] : (parsed as Record<string, unknown> | null)?.prompts;
+  if (!Array.isArray(list)) {
+    return { prompts: [], problems: [{ message: 'Expected a list of prompts or an object with a "prompts" list', ...whole }] };
+  }
+
+  const listNode = isList ? root : isMap(root) ? root.get('prompts', true) as Node | undefined : undefined;
+  const entryNodes = isSeq(listNode) ? listNode.items as Node[] : [];
+
+  const prompts: QuickPrompt[] = [];
+  const problems: LibraryProblem[] = [];
+  const labels = new Set<string>();
+
+  list.forEach((entry, i) => {
+    const node = entryNodes[i];
+    const report = (message: string, field?: string) => {
+      problems.push({ message: `Prompt ${i + 1}: ${message}`, ...getRange(node, field) ?? getRange(listNode) ?? whole });
+    };
+
+    const problem = validatePrompt(entry);
+    if (problem) {
+      report(problem.message, problem.field);
+      return;
+    }
+
+    const prompt = entry as QuickPrompt;
+    if (labels.has(prompt.label)) {
+      report(`duplicate label "${prompt.label}"`, 'label');
+      return;
+    }
+    labels.add(prompt.label);
+    prompts.push({ label: prompt.label, prompt: prompt.prompt, category: prompt.category, variables: prompt.variables });
+  });
+
+  return { prompts, problems };
+}
+
+function validatePrompt(entry: unknown): { message: string; field?: string } | undefined {
+  const e = entry as Record<string, unknown>;
+  if (typeof e !== 'object' || e === null || Array.isArray(e)) {
+    return { message: 'expected an object with "label" and "prompt"' };
+  }
+  for (const key of ['label', 'prompt'] as const) {
+    if (typeof e[key] !== 'string' || !(e[key] as string).trim()) {
+      return { message: `"${key}" must be a non-empty string`, field: e[key] === undefined ? undefined : key };
+    }
+  }
+  if (e.category !== undefined && typeof e.category !== 'string') {
+    return { message: '"category" must be a string', field: 'category' };
+  }
+  if (e.variables === undefined) return undefined;
+
+  if (!Array.isArray(e.variables)) {
+    return { message: '"variables" must be a list', field: 'variables' };
+  }
+  for (const v of e.variables as Record<string, unknown>[]) {
+    if (typeof v !== 'object' || v === null || typeof v.name !== 'string' || !v.name) {
+      return { message: 'every variable needs a "name"', field: 'variables' };
+    }
+    if ((v.description !== undefined && typeof v.description !== 'string') || (v.default !== undefined && typeof v.default !== 'string')) {
+      return { message: `variable "${v.name}": "description" and "default" must be strings`, field: 'variables' };
+    }
+    if (v.options !== undefined && (!Array.isArray(v.options) || !v.options.every(o => typeof o === 'string'))) {
+      return { message: `variable "${v.name}": "options" must be a list of strings`, field: 'variables' };
+    }
+  }
+  return undefined;
+}
+
+/** Offsets of a node, or of one of its fields when it is an object */
+function getRange(node: unknown, field?: string): { start: number; end: number } | undefined {
+  if (field && isMap(node)) {
+    const pair = node.items.find(p => isScalar(p.key) && p.key.value === field);
+    const keyRange = (pair?.key as Node | undefined)?.range;
+    const valueRange = (pair?.value as Node | undefined)?.range;
+    if (keyRange) return { start: keyRange[0], end: valueRange ? valueRange[1] : keyRange[1] };
+  }
+  const range = (node as Node | undefined)?.range;
+  return range ? { start: range[0], end: range[1] } : undefined;
+}
+
+// ==================== WORKSPACE LIBRARIES ====================
+
+/**
+ * Quick prompts from `.banana/prompts/*.json` in every workspace folder.
+ * Files are re-read when they change, and problems are reported in the
+ * Problems panel.
+ */
+export class PromptLibrary implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('bananaPrompts');
+  private readonly watcher = vscode.workspace.createFileSystemWatcher(`**/${PROMPT_LIBRARY_GLOB}`);
+  private prompts: QuickPrompt[] = [];
+
+  constructor() {
+    this.watcher.onDidCreate(() => this.reload());
+    this.watcher.onDidChange(() => this.reload());
+    this.watcher.onDidDelete(() => this.reload());
+    this.reload();
+  }
+
+  /** Prompts of every library, with `source` set to the workspace-relative file path */
+  getPrompts(): QuickPrompt[] {
+    return this.prompts;
+  }
+
+  async reload(): Promise<void> {
+    const files = await vscode.workspace.findFiles(PROMPT_LIBRARY_GLOB);
+    files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+    const prompts: QuickPrompt[] = [];
+    this.diagnostics.clear();
+
+    for (const file of files) {
+      try {
+        const bytes = await vscode.workspace.fs.readFile(file);
+        const text = Buffer.from(bytes).toString('utf8');
+        const library = parsePromptLibrary(text);
+        const source = vscode.workspace.asRelativePath(file);
+
+        prompts.push(...library.prompts.map(p => ({ ...p, source })));
+        this.diagnostics.set(file, library.problems.map(problem => {
+          const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(offsetToPosition(text, problem.start), offsetToPosition(text, problem.end)),
+            problem.message,
+            vscode.DiagnosticSeverity.Error
+          );
+          diagnostic.source = 'Banana Studio';
+          return diagnostic;
+        }));
+      } catch (error: any) {
+        console.error(`Nano Banana: Failed to read prompt library ${file.fsPath}:`, error.message);
+      }
+    }
+
+    this.prompts = prompts;
+    this.changeEmitter.fire();
+  }
+
+  dispose() {
+    this.watcher.dispose();
+    this.diagnostics.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+function offsetToPosition(text: string, offset: number): vscode.Position {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
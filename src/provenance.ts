@@ -0,0 +1,364 @@
+// ==================== TYPES ====================
+
+export type ProvenanceOperation = 'generate' | 'edit' | 'compose' | 'inpaint' | 'outpaint';
+
+/** How an image was made, stored inside the image file itself */
+export interface Provenance {
+  tool: string;
+  operation: ProvenanceOperation;
+  provider: string;
+  model: string;
+  aspectRatio?: string;
+  resolution?: string;
+  prompt: string;
+  /** Earlier instructions when the image came out of a multi-turn session */
+  previousPrompts?: string[];
+  /** Source or reference images, relative to the workspace */
+  sources: string[];
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+export const PROVENANCE_TOOL = 'Banana Studio';
+
+/** PNG iTXt keyword and XMP property holding the JSON record */
+const PROVENANCE_KEY = 'BananaStudio';
+const XMP_NAMESPACE = 'https://github.com/AnassKartit/banana-studio-vscode/ns/1.0/';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+/** IPTC digital source type for images created by a generative model */
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Return a copy of the image with the provenance embedded: `iTXt`/`tEXt`
+ * chunks for PNG, an XMP packet for JPEG and WebP. Other formats are
+ * returned unchanged.
+ */
+export function embedProvenance(data: Buffer, provenance: Provenance): Buffer {
+  if (isPng(data)) return embedInPng(data, provenance);
+  if (isJpeg(data)) return embedInJpeg(data, provenance);
+  if (isWebp(data)) return embedInWebp(data, provenance);
+  return data;
+}
+
+/** Read provenance written by `embedProvenance`; undefined when there is none */
+export function readProvenance(data: Buffer): Provenance | undefined {
+  let json: string | undefined;
+  if (isPng(data)) {
+    json = readPngText(data)[PROVENANCE_KEY];
+  } else {
+    const xmp = isJpeg(data) ? readJpegXmp(data) : isWebp(data) ? readWebpXmp(data) : undefined;
+    const match = xmp?.match(/<banana:provenance>([\s\S]*?)<\/banana:provenance>/);
+    json = match ? unescapeXml(match[1]) : undefined;
+  }
+
+  if (!json) return undefined;
+  try {
+    return toProvenance(JSON.parse(json));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check a parsed record, which comes from a file anyone may have written.
+ * Missing lists become empty; anything else malformed is no provenance.
+ */
+function toProvenance(value: unknown): Provenance | undefined {
+  const record = value as Record<string, unknown> | null;
+  if (!record || typeof record !== 'object') return undefined;
+
+  const isString = (key: string) => typeof record[key] === 'string';
+  const isOptionalString = (key: string) => record[key] === undefined || isString(key);
+  const toStrings = (list: unknown) => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+
+  if (!['tool', 'operation', 'provider', 'model', 'prompt', 'timestamp'].every(isString)
+    || !['aspectRatio', 'resolution'].every(isOptionalString)) {
+    return undefined;
+  }
+
+  return {
+    ...record,
+    sources: toStrings(record.sources),
+    previousPrompts: record.previousPrompts === undefined ? undefined : toStrings(record.previousPrompts)
+  } as Provenance;
+}
+
+/** Human-readable summary for result panels */
+export function formatProvenance(provenance: Provenance): string {
+  const lines = [
+    `Created with ${provenance.tool} (${provenance.operation})`,
+    `Date: ${new Date(provenance.timestamp).toLocaleString()}`,
+    `Provider: ${provenance.provider}`,
+    `Model: ${provenance.model}`
+  ];
+  if (provenance.aspectRatio) lines.push(`Aspect ratio: ${provenance.aspectRatio}`);
+  if (provenance.resolution) lines.push(`Resolution: ${provenance.resolution}`);
+  if (provenance.sources.length > 0) lines.push(`Sources: ${provenance.sources.join(', ')}`);
+  lines.push('', 'Prompt:', provenance.prompt);
+  if (provenance.previousPrompts?.length) {
+    lines.push('', 'Earlier instructions:', ...provenance.previousPrompts.map((p, i) => `${i + 1}. ${p}`));
+  }
+  return lines.join('\n');
+}
+
+// ==================== PNG ====================
+
+function isPng(data: Buffer): boolean {
+  return data.length > 8 && data.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+/** Insert the chunks right after IHDR, replacing ones from an earlier run */
+function embedInPng(data: Buffer, provenance: Provenance): Buffer {
+  const chunks: Buffer[] = [PNG_SIGNATURE];
+  let offset = 8;
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    const keyword = type === 'iTXt' || type === 'tEXt' ? data.toString('latin1', offset + 8, data.indexOf(0, offset + 8)) : '';
+
+    if (!(type === 'iTXt' && keyword === PROVENANCE_KEY) && !(type === 'tEXt' && keyword === 'Software')) {
+      chunks.push(data.subarray(offset, end));
+    }
+    if (type === 'IHDR') {
+      chunks.push(
+        createPngChunk('tEXt', Buffer.from(`Software\0${PROVENANCE_TOOL}`, 'latin1')),
+        createPngChunk('iTXt', Buffer.concat([
+          Buffer.from(`${PROVENANCE_KEY}\0\0\0\0\0`, 'latin1'),
+          Buffer.from(JSON.stringify(provenance), 'utf8')
+        ]))
+      );
+    }
+    offset = end;
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/** Uncompressed tEXt and iTXt entries by keyword */
+function readPngText(data: Buffer): Record<string, string> {
+  const text: Record<string, string> = {};
+  let offset = 8;
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'tEXt') {
+      const separator = body.indexOf(0);
+      text[body.toString('latin1', 0, separator)] = body.toString('latin1', separator + 1);
+    } else if (type === 'iTXt') {
+      // keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+      const keywordEnd = body.indexOf(0);
+      const compressed = body[keywordEnd + 1] === 1;
+      const languageEnd = body.indexOf(0, keywordEnd + 3);
+      const translatedEnd = body.indexOf(0, languageEnd + 1);
+      if (!compressed && translatedEnd >= 0) {
+        text[body.toString('latin1', 0, keywordEnd)] = body.toString('utf8', translatedEnd + 1);
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  return text;
+}
+
+function createPngChunk(type: string, body: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + body.length);
+  chunk.writeUInt32BE(body.length, 0);
+  chunk.write(type, 4, 'latin1');
+  body.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + body.length)), 8 + body.length);
+  return chunk;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ==================== XMP ====================
+
+function buildXmp(provenance: Provenance): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+        xmlns:banana="${XMP_NAMESPACE}">
+      <xmp:CreatorTool>${PROVENANCE_TOOL}</xmp:CreatorTool>
+      <xmp:CreateDate>${provenance.timestamp}</xmp:CreateDate>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>
+      <Iptc4xmpExt:DigitalSourceType>${AI_SOURCE_TYPE}</Iptc4xmpExt:DigitalSourceType>
+      <banana:provenance>${escapeXml(JSON.stringify(provenance))}</banana:provenance>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+}
+
+// ==================== JPEG ====================
+
+function isJpeg(data: Buffer): boolean {
+  return data.length > 3 && data[0] === 0xff && data[1] === 0xd8;
+}
+
+/** Insert an APP1 XMP segment after any APP0 (JFIF) segment, replacing an existing XMP segment */
+function embedInJpeg(data: Buffer, provenance: Provenance): Buffer {
+  const payload = Buffer.concat([Buffer.from(XMP_HEADER, 'latin1'), Buffer.from(buildXmp(provenance), 'utf8')]);
+  if (payload.length + 2 > 0xffff) return data;
+
+  const segment = Buffer.alloc(4 + payload.length);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(payload.length + 2, 2);
+  payload.copy(segment, 4);
+
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  let offset = 2;
+  let inserted = false;
+
+  // Walk the header segments up to the start of scan
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + data.readUInt16BE(offset + 2);
+
+    if (!inserted && marker !== 0xe0) {
+      parts.push(segment);
+      inserted = true;
+    }
+    if (!(marker === 0xe1 && isXmpSegment(data, offset))) {
+      parts.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!inserted) parts.push(segment);
+  parts.push(data.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function isXmpSegment(data: Buffer, offset: number): boolean {
+  return data.toString('latin1', offset + 4, offset + 4 + XMP_HEADER.length) === XMP_HEADER;
+}
+
+function readJpegXmp(data: Buffer): string | undefined {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + data.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && isXmpSegment(data, offset)) {
+      return data.toString('utf8', offset + 4 + XMP_HEADER.length, end);
+    }
+    offset = end;
+  }
+  return undefined;
+}
+
+// ==================== WEBP ====================
+
+function isWebp(data: Buffer): boolean {
+  return data.length > 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP';
+}
+
+interface RiffChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readRiffChunks(data: Buffer): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const type = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+/**
+ * Append an `XMP ` chunk. Simple (lossy/lossless) files get the extended
+ * `VP8X` header that WebP requires for metadata.
+ */
+function embedInWebp(data: Buffer, provenance: Provenance): Buffer {
+  const chunks = readRiffChunks(data).filter(c => c.type !== 'XMP ');
+  let header = chunks.find(c => c.type === 'VP8X');
+
+  if (!header) {
+    const size = getWebpSize(chunks);
+    if (!size) return data;
+    header = { type: 'VP8X', data: Buffer.alloc(10) };
+    header.data.writeUIntLE(size.width - 1, 4, 3);
+    header.data.writeUIntLE(size.height - 1, 7, 3);
+    chunks.unshift(header);
+  } else {
+    header.data = Buffer.from(header.data);
+    chunks[chunks.findIndex(c => c.type === 'VP8X')] = header;
+  }
+
+  // XMP metadata flag
+  header.data[0] |= 0x04;
+  chunks.push({ type: 'XMP ', data: Buffer.from(buildXmp(provenance), 'utf8') });
+
+  const body = Buffer.concat(chunks.flatMap(chunk => {
+    const head = Buffer.alloc(8);
+    head.write(chunk.type, 0, 'latin1');
+    head.writeUInt32LE(chunk.data.length, 4);
+    return chunk.data.length % 2 ? [head, chunk.data, Buffer.alloc(1)] : [head, chunk.data];
+  }));
+
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'latin1');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WEBP', 8, 'latin1');
+  return Buffer.concat([riff, body]);
+}
+
+function getWebpSize(chunks: RiffChunk[]): { width: number; height: number } | undefined {
+  const lossless = chunks.find(c => c.type === 'VP8L');
+  if (lossless && lossless.data.length >= 5) {
+    const bits = lossless.data.readUInt32LE(1);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  const lossy = chunks.find(c => c.type === 'VP8 ');
+  if (lossy && lossy.data.length >= 10) {
+    return { width: lossy.data.readUInt16LE(6) & 0x3fff, height: lossy.data.readUInt16LE(8) & 0x3fff };
+  }
+  return undefined;
+}
+
+function readWebpXmp(data: Buffer): string | undefined {
+  return readRiffChunks(data).find(c => c.type === 'XMP ')?.data.toString('utf8');
+}
@@ -0,0 +1,589 @@
+import { Content, GenerateContentConfig, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { ModelRegistry } from './models';
+import { HttpError } from './requests';
+
+// ==================== TYPES ====================
+
+export const PROVIDER_IDS = ['gemini', 'openai', 'local'] as const;
+export type ProviderId = typeof PROVIDER_IDS[number];
+
+export const PROVIDER_OPERATIONS = ['generate', 'edit', 'compose', 'understand'] as const;
+export type ProviderOperation = typeof PROVIDER_OPERATIONS[number];
+
+export interface ImageInput {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ImageRequestOptions {
+  model: string;
+  aspectRatio: string;
+  resolution: string;
+  /** Ground the request with Google Search when the model supports it */
+  useGoogleSearch?: boolean;
+  /** Aborts the request when cancelled */
+  signal?: AbortSignal;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+export interface GroundingInfo {
+  sources: GroundingSource[];
+  searchQueries: string[];
+}
+
+export interface SafetyRating {
+  /** e.g. `HARM_CATEGORY_DANGEROUS_CONTENT` */
+  category: string;
+  /** NEGLIGIBLE, LOW, MEDIUM or HIGH */
+  probability?: string;
+  blocked?: boolean;
+}
+
+/** Why a response ended, as far as the provider reports it */
+export interface FinishInfo {
+  /** Set when the prompt was blocked before anything was generated */
+  blockReason?: string;
+  /** e.g. STOP, SAFETY, IMAGE_SAFETY, RECITATION */
+  finishReason?: string;
+  message?: string;
+  safetyRatings: SafetyRating[];
+}
+
+/** Billed quantities of one response */
+export interface UsageInfo {
+  inputTokens: number;
+  outputTokens: number;
+  /** Thinking tokens, billed as output */
+  thoughtTokens: number;
+  /** Images returned */
+  images: number;
+}
+
+export interface ImageResult {
+  text: string;
+  image?: ImageInput;
+  grounding?: GroundingInfo;
+  finish?: FinishInfo;
+  usage?: UsageInfo;
+}
+
+export interface UnderstandRequest {
+  model: string;
+  prompt: string;
+  images: ImageInput[];
+  responseMimeType?: string;
+  thinkingBudget?: number;
+  /** Aborts the request when cancelled */
+  signal?: AbortSignal;
+  /** Receives the usage of the response, since only the text is returned */
+  onUsage?: (usage: UsageInfo) => void;
+}
+
+/**
+ * A multi-turn image editing conversation. Each turn sees the previous
+ * turns and their output images.
+ */
+export interface ImageChat {
+  /** Send the next instruction; `image` attaches an image to this turn, `signal` cancels it */
+  send(prompt: string, image?: ImageInput, signal?: AbortSignal): Promise<ImageResult>;
+  /** Opaque copy of the conversation so far, used to branch from this point later */
+  snapshot(): unknown;
+}
+
+/**
+ * Common interface for every image backend. Commands only talk to this
+ * interface, so a backend can be swapped per operation through settings.
+ */
+export interface ImageProvider {
+  readonly id: ProviderId;
+  readonly displayName: string;
+  /** Model used for generate/edit/compose when the caller does not pick one */
+  readonly imageModel: string;
+  /** Model used for understand when the caller does not pick one */
+  readonly understandingModel: string;
+
+  generate(prompt: string, options: ImageRequestOptions): Promise<ImageResult>;
+  edit(image: ImageInput, prompt: string, options: ImageRequestOptions): Promise<ImageResult>;
+  compose(images: ImageInput[], prompt: string, options: ImageRequestOptions): Promise<ImageResult>;
+  understand(request: UnderstandRequest): Promise<string>;
+  /** Start a conversation, optionally continuing from an earlier `ImageChat.snapshot()` */
+  startChat(options: ImageRequestOptions, snapshot?: unknown): ImageChat;
+}
+
+export interface OpenAIProviderSettings {
+  baseUrl: string;
+  apiKey?: string;
+  imageModel: string;
+  understandingModel: string;
+}
+
+export interface LocalProviderSettings {
+  baseUrl: string;
+  steps: number;
+  denoisingStrength: number;
+}
+
+export class ProviderNotSupportedError extends Error {
+  constructor(provider: string, operation: string) {
+    super(`${provider} does not support ${operation}. Choose another provider for this operation in settings.`);
+    this.name = 'ProviderNotSupportedError';
+  }
+}
+
+// ==================== GEMINI ====================
+
+export class GeminiProvider implements ImageProvider {
+  public readonly id = 'gemini';
+  public readonly displayName = 'Google Gemini';
+
+  constructor(
+    private readonly client: GoogleGenAI,
+    private readonly registry: ModelRegistry,
+    public readonly imageModel: string,
+    public readonly understandingModel: string
+  ) {}
+
+  generate(prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.generateImage(prompt, options);
+  }
+
+  edit(image: ImageInput, prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.generateImage([{ text: prompt }, { inlineData: image }], options);
+  }
+
+  compose(images: ImageInput[], prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.generateImage([{ text: prompt }, ...images.map(image => ({ inlineData: image }))], options);
+  }
+
+  async understand(request: UnderstandRequest): Promise<string> {
+    const config: { responseMimeType?: string; thinkingConfig?: { thinkingBudget: number }; abortSignal?: AbortSignal } = {};
+    if (request.signal) {
+      config.abortSignal = request.signal;
+    }
+    if (request.responseMimeType) {
+      config.responseMimeType = request.responseMimeType;
+    }
+    if (request.thinkingBudget !== undefined && this.registry.get(request.model).supportsThinkingBudget) {
+      config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    }
+
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: [
+        ...request.images.map(image => ({ inlineData: image })),
+        { text: request.prompt }
+      ],
+      config: Object.keys(config).length > 0 ? config : undefined
+    });
+
+    request.onUsage?.(parseUsage(response, 0));
+    return response.text || '';
+  }
+
+  startChat(options: ImageRequestOptions, snapshot?: unknown): ImageChat {
+    const chat = this.client.chats.create({
+      model: options.model,
+      config: this.getImageConfig(options),
+      history: (snapshot as Content[] | undefined) || []
+    });
+
+    return {
+      send: async (prompt, image, signal) => parseImageResponse(await chat.sendMessage({
+        message: image ? [{ text: prompt }, { inlineData: image }] : prompt,
+        // A per-message config replaces the chat config, so repeat it with the signal
+        config: signal ? { ...this.getImageConfig(options), abortSignal: signal } : undefined
+      })),
+      // Curated history keeps the thought signatures the model needs on later turns
+      snapshot: () => chat.getHistory()
+    };
+  }
+
+  private async generateImage(contents: string | Array<{ text?: string; inlineData?: ImageInput }>, options: ImageRequestOptions): Promise<ImageResult> {
+    const response = await this.client.models.generateContent({
+      model: options.model,
+      contents: contents,
+      config: this.getImageConfig(options)
+    });
+
+    return parseImageResponse(response);
+  }
+
+  private getImageConfig(options: ImageRequestOptions): GenerateContentConfig {
+    // Only send the image options the model accepts
+    const capabilities = this.registry.get(options.model);
+    const imageConfig: { aspectRatio?: string; imageSize?: string } = {};
+    if (capabilities.supportsAspectRatio) {
+      imageConfig.aspectRatio = options.aspectRatio;
+    }
+    const imageSize = this.registry.clampResolution(options.model, options.resolution);
+    if (imageSize) {
+      imageConfig.imageSize = imageSize;
+    }
+
+    const useGoogleSearch = options.useGoogleSearch && capabilities.supportsSearchGrounding;
+
+    return {
+      responseModalities: ['TEXT', 'IMAGE'],
+      imageConfig: Object.keys(imageConfig).length > 0 ? imageConfig : undefined,
+      tools: useGoogleSearch ? [{ googleSearch: {} }] : undefined,
+      abortSignal: options.signal
+    };
+  }
+}
+
+function parseImageResponse(response: GenerateContentResponse): ImageResult {
+  const result: ImageResult = { text: '', finish: parseFinishInfo(response) };
+
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  if (metadata) {
+    const sources: GroundingSource[] = [];
+    for (const chunk of metadata.groundingChunks || []) {
+      if (chunk.web?.uri && !sources.some(s => s.uri === chunk.web!.uri)) {
+        sources.push({ title: chunk.web.title || chunk.web.domain || chunk.web.uri, uri: chunk.web.uri });
+      }
+    }
+    result.grounding = { sources, searchQueries: metadata.webSearchQueries || [] };
+  }
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.text) {
+      result.text += part.text;
+    } else if (part.inlineData?.data) {
+      result.image = {
+        mimeType: part.inlineData.mimeType || 'image/png',
+        data: part.inlineData.data
+      };
+    }
+  }
+
+  result.usage = parseUsage(response, result.image ? 1 : 0);
+  return result;
+}
+
+function parseUsage(response: GenerateContentResponse, images: number): UsageInfo {
+  const metadata = response.usageMetadata;
+  return {
+    inputTokens: metadata?.promptTokenCount || 0,
+    outputTokens: metadata?.candidatesTokenCount || 0,
+    thoughtTokens: metadata?.thoughtsTokenCount || 0,
+    images
+  };
+}
+
+function parseFinishInfo(response: GenerateContentResponse): FinishInfo | undefined {
+  const feedback = response.promptFeedback;
+  const candidate = response.candidates?.[0];
+  if (!feedback?.blockReason && !candidate?.finishReason) return undefined;
+
+  const ratings = [...(feedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+  return {
+    blockReason: feedback?.blockReason,
+    finishReason: candidate?.finishReason,
+    message: feedback?.blockReasonMessage || candidate?.finishMessage,
+    safetyRatings: ratings.filter(r => r.category).map(r => ({ category: r.category!, probability: r.probability, blocked: r.blocked }))
+  };
+}
+
+/**
+ * Conversation for providers without native multi-turn image editing:
+ * every turn edits the latest output image. The snapshot is that image.
+ */
+export class StatelessImageChat implements ImageChat {
+  private latest: ImageInput | undefined;
+
+  constructor(private readonly provider: ImageProvider, private readonly options: ImageRequestOptions, snapshot?: unknown) {
+    this.latest = snapshot as ImageInput | undefined;
+  }
+
+  async send(prompt: string, image?: ImageInput, signal?: AbortSignal): Promise<ImageResult> {
+    const source = image || this.latest;
+    const options = { ...this.options, signal };
+    const result = source
+      ? await this.provider.edit(source, prompt, options)
+      : await this.provider.generate(prompt, options);
+    if (result.image) {
+      this.latest = result.image;
+    }
+    return result;
+  }
+
+  snapshot(): unknown {
+    return this.latest;
+  }
+}
+
+// ==================== OPENAI-COMPATIBLE ====================
+
+/**
+ * Talks to any server exposing the OpenAI images and chat completions API
+ * (OpenAI itself, Azure-style gateways, LocalAI, vLLM, ...).
+ */
+export class OpenAIProvider implements ImageProvider {
+  public readonly id = 'openai';
+  public readonly displayName = 'OpenAI-Compatible';
+
+  constructor(private readonly settings: OpenAIProviderSettings) {}
+
+  get imageModel(): string {
+    return this.settings.imageModel;
+  }
+
+  get understandingModel(): string {
+    return this.settings.understandingModel;
+  }
+
+  async generate(prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    const body: Record<string, unknown> = {
+      model: options.model,
+      prompt,
+      n: 1,
+      size: getOpenAISize(options.model, options.aspectRatio)
+    };
+    if (usesResponseFormat(options.model)) {
+      body.response_format = 'b64_json';
+    }
+    const response = await postJson<OpenAIImageResponse>(this.url('/images/generations'), body, this.headers(), options.signal);
+
+    return toOpenAIResult(response);
+  }
+
+  edit(image: ImageInput, prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    return this.compose([image], prompt, options);
+  }
+
+  async compose(images: ImageInput[], prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    const form = new FormData();
+    form.append('model', options.model);
+    form.append('prompt', prompt);
+    form.append('n', '1');
+    form.append('size', getOpenAISize(options.model, options.aspectRatio));
+    if (usesResponseFormat(options.model)) {
+      form.append('response_format', 'b64_json');
+    }
+
+    const field = images.length > 1 ? 'image[]' : 'image';
+    images.forEach((image, i) => {
+      const extension = image.mimeType.split('/')[1] || 'png';
+      form.append(field, new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType }), `image-${i}.${extension}`);
+    });
+
+    const response = await fetch(this.url('/images/edits'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: form,
+      signal: options.signal
+    });
+
+    return toOpenAIResult(await readJson<OpenAIImageResponse>(response));
+  }
+
+  async understand(request: UnderstandRequest): Promise<string> {
+    const content: Array<Record<string, unknown>> = request.images.map(image => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+    }));
+    content.push({ type: 'text', text: request.prompt });
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: [{ role: 'user', content }]
+    };
+    if (request.responseMimeType === 'application/json') {
+      body.response_format = { type: 'json_object' };
+    }
+
+    const response = await postJson<OpenAIChatResponse>(this.url('/chat/completions'), body, this.headers(), request.signal);
+    request.onUsage?.({
+      inputTokens: response.usage?.prompt_tokens || 0,
+      outputTokens: response.usage?.completion_tokens || 0,
+      thoughtTokens: 0,
+      images: 0
+    });
+    return response.choices?.[0]?.message?.content || '';
+  }
+
+  startChat(options: ImageRequestOptions, snapshot?: unknown): ImageChat {
+    return new StatelessImageChat(this, options, snapshot);
+  }
+
+  private url(endpoint: string): string {
+    return this.settings.baseUrl.replace(/\/+$/, '') + endpoint;
+  }
+
+  private headers(): Record<string, string> {
+    return this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {};
+  }
+}
+
+interface OpenAIImageResponse {
+  data?: Array<{ b64_json?: string; revised_prompt?: string }>;
+  output_format?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface OpenAIChatResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function toOpenAIResult(response: OpenAIImageResponse): ImageResult {
+  const first = response.data?.[0];
+  return {
+    text: first?.revised_prompt || '',
+    image: first?.b64_json
+      ? { mimeType: `image/${response.output_format || 'png'}`, data: first.b64_json }
+      : undefined,
+    usage: {
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0,
+      thoughtTokens: 0,
+      images: first?.b64_json ? 1 : 0
+    }
+  };
+}
+
+/**
+ * DALL·E models return URLs unless asked for base64; gpt-image models
+ * always return base64 and reject `response_format`.
+ */
+function usesResponseFormat(model: string): boolean {
+  return model.toLowerCase().startsWith('dall-e');
+}
+
+/**
+ * OpenAI image models only accept a few fixed sizes, so the resolution
+ * setting does not apply; the aspect ratio picks square, landscape or
+ * portrait. DALL·E 2 only makes squares.
+ */
+export function getOpenAISize(model: string, aspectRatio: string): string {
+  const lower = model.toLowerCase();
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h || w === h || lower.startsWith('dall-e-2')) return '1024x1024';
+  if (lower.startsWith('dall-e-3')) return w > h ? '1792x1024' : '1024x1792';
+  return w > h ? '1536x1024' : '1024x1536';
+}
+
+// ==================== LOCAL (STABLE DIFFUSION) ====================
+
+/**
+ * Local Stable Diffusion server speaking the AUTOMATIC1111 web API
+ * (`/sdapi/v1/txt2img`, `/sdapi/v1/img2img`). Forge, SD.Next and most
+ * ComfyUI API bridges expose the same endpoints, and so can a stub server
+ * for offline testing. Images never leave the configured host.
+ */
+export class LocalProvider implements ImageProvider {
+  public readonly id = 'local';
+  public readonly displayName = 'Local Stable Diffusion';
+  public readonly imageModel = 'local';
+  public readonly understandingModel = 'local';
+
+  constructor(private readonly settings: LocalProviderSettings) {}
+
+  async generate(prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    const { width, height } = getPixelSize(options.aspectRatio, options.resolution);
+    const response = await postJson<LocalImageResponse>(this.url('/sdapi/v1/txt2img'), {
+      prompt,
+      width,
+      height,
+      steps: this.settings.steps
+    }, {}, options.signal);
+
+    return toLocalResult(response);
+  }
+
+  async edit(image: ImageInput, prompt: string, options: ImageRequestOptions): Promise<ImageResult> {
+    const { width, height } = getPixelSize(options.aspectRatio, options.resolution);
+    const response = await postJson<LocalImageResponse>(this.url('/sdapi/v1/img2img'), {
+      prompt,
+      init_images: [image.data],
+      denoising_strength: this.settings.denoisingStrength,
+      width,
+      height,
+      steps: this.settings.steps
+    }, {}, options.signal);
+
+    return toLocalResult(response);
+  }
+
+  async compose(): Promise<ImageResult> {
+    throw new ProviderNotSupportedError(this.displayName, 'image composition');
+  }
+
+  async understand(): Promise<string> {
+    throw new ProviderNotSupportedError(this.displayName, 'image understanding');
+  }
+
+  startChat(options: ImageRequestOptions, snapshot?: unknown): ImageChat {
+    return new StatelessImageChat(this, options, snapshot);
+  }
+
+  private url(endpoint: string): string {
+    return this.settings.baseUrl.replace(/\/+$/, '') + endpoint;
+  }
+}
+
+interface LocalImageResponse {
+  images?: string[];
+  info?: string;
+}
+
+function toLocalResult(response: LocalImageResponse): ImageResult {
+  const data = response.images?.[0];
+  return {
+    text: '',
+    image: data ? { mimeType: 'image/png', data: data.replace(/^data:image\/\w+;base64,/, '') } : undefined,
+    usage: { inputTokens: 0, outputTokens: 0, thoughtTokens: 0, images: data ? 1 : 0 }
+  };
+}
+
+/**
+ * Convert an aspect ratio and a 1K/2K/4K resolution to pixel dimensions.
+ * The long side matches the resolution, both sides are multiples of 64.
+ */
+export function getPixelSize(aspectRatio: string, resolution: string): { width: number; height: number } {
+  const longSide = ({ '1K': 1024, '2K': 2048, '4K': 4096 } as Record<string, number>)[resolution] || 1024;
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longSide, height: longSide };
+
+  const roundTo64 = (n: number) => Math.max(64, Math.round(n / 64) * 64);
+  return w >= h
+    ? { width: longSide, height: roundTo64(longSide * h / w) }
+    : { width: roundTo64(longSide * w / h), height: longSide };
+}
+
+// ==================== HTTP ====================
+
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+  return readJson<T>(response);
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new HttpError(
+      response.status,
+      `HTTP ${response.status} ${response.statusText}${detail ? `: ${detail.substring(0, 300)}` : ''}`,
+      getRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return await response.json() as T;
+}
+
+/** `Retry-After` in milliseconds; the header holds seconds or a date */
+function getRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+
+// ==================== TYPES ====================
+
+/** Placeholder of a quick prompt template, written as `{{name}}` in the prompt */
+export interface PromptVariable {
+  name: string;
+  /** Shown when asking for the value */
+  description?: string;
+  default?: string;
+  /** Fixed values offered in a quick pick instead of a free text input */
+  options?: string[];
+}
+
+export interface QuickPrompt {
+  label: string;
+  /** Prompt text, optionally with `{{variable}}` placeholders */
+  prompt: string;
+  category?: string;
+  variables?: PromptVariable[];
+  /** Library file the prompt was read from; not set for prompts in the user settings */
+  source?: string;
+}
+
+export const QUICK_PROMPT_CATEGORIES = ['style', 'edit', 'enhance', 'analyze', 'custom'];
+
+const RECENT_KEY = 'nanoBanana.recentQuickPrompts';
+const MAX_RECENT = 5;
+
+// ==================== TEMPLATES ====================
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** Placeholder names in order of first use */
+export function getTemplateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER), m => m[1]))];
+}
+
+/** Variables of a prompt: every placeholder, with its declared description, default and options */
+export function getPromptVariables(prompt: QuickPrompt): PromptVariable[] {
+  return getTemplateVariables(prompt.prompt).map(name =>
+    prompt.variables?.find(v => v.name === name) || { name }
+  );
+}
+
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Ask for the value of every variable and return the filled prompt, or
+ * undefined when the user cancels.
+ */
+export async function resolveQuickPrompt(prompt: QuickPrompt): Promise<string | undefined> {
+  const variables = getPromptVariables(prompt);
+  const values: Record<string, string> = {};
+
+  for (const [i, variable] of variables.entries()) {
+    const title = `${prompt.label} (${i + 1}/${variables.length})`;
+    let value: string | undefined;
+
+    if (variable.options && variable.options.length > 0) {
+      // Offer the default first so Enter accepts it
+      const options = variable.default && variable.options.includes(variable.default)
+        ? [variable.default, ...variable.options.filter(o => o !== variable.default)]
+        : variable.options;
+      value = await vscode.window.showQuickPick(options, {
+        title,
+        placeHolder: variable.description || `Choose ${variable.name}`,
+        ignoreFocusOut: true
+      });
+    } else {
+      value = await vscode.window.showInputBox({
+        title,
+        prompt: variable.description || `Value for ${variable.name}`,
+        value: variable.default,
+        placeHolder: variable.name,
+        ignoreFocusOut: true
+      });
+    }
+
+    if (value === undefined) return undefined;
+    values[variable.name] = value;
+  }
+
+  return fillTemplate(prompt.prompt, values);
+}
+
+// ==================== PICKER ====================
+
+export interface QuickPromptItem extends vscode.QuickPickItem {
+  prompt?: QuickPrompt;
+}
+
+/** Identifies a prompt across the user settings and workspace libraries */
+export function getPromptKey(prompt: QuickPrompt): string {
+  return prompt.source ? `${prompt.source}#${prompt.label}` : prompt.label;
+}
+
+/** Keys of the most recently used prompts, newest first */
+export function getRecentPrompts(state: vscode.Memento): string[] {
+  return state.get<string[]>(RECENT_KEY, []);
+}
+
+export async function markPromptUsed(state: vscode.Memento, prompt: QuickPrompt): Promise<void> {
+  const key = getPromptKey(prompt);
+  const recent = [key, ...getRecentPrompts(state).filter(k => k !== key)].slice(0, MAX_RECENT);
+  await state.update(RECENT_KEY, recent);
+}
+
+/** Library file name for workspace prompts, "User" for prompts from the settings */
+function getSourceLabel(prompt: QuickPrompt): string {
+  return prompt.source ? prompt.source.split('/').pop()!.replace(/\.json$/i, '') : 'User';
+}
+
+/**
+ * Quick pick items with the recently used prompts on top, then every prompt
+ * grouped by category under separators. Where workspace libraries add
+ * prompts, each item shows where it comes from.
+ */
+export function getQuickPromptItems(prompts: QuickPrompt[], recent: string[]): QuickPromptItem[] {
+  const showSource = prompts.some(p => p.source);
+  const toItem = (p: QuickPrompt): QuickPromptItem => {
+    const variables = getTemplateVariables(p.prompt);
+    const description = [
+      showSource ? `$(${p.source ? 'library' : 'account'}) ${getSourceLabel(p)}` : '',
+      variables.length > 0 ? `$(symbol-variable) ${variables.join(', ')}` : ''
+    ].filter(Boolean).join('  ');
+    return {
+      label: p.label,
+      description: description || undefined,
+      detail: p.prompt,
+      prompt: p
+    };
+  };
+
+  const items: QuickPromptItem[] = [];
+  const recentPrompts = recent
+    .map(key => prompts.find(p => getPromptKey(p) === key))
+    .filter((p): p is QuickPrompt => !!p);
+
+  if (recentPrompts.length > 0) {
+    items.push({ label: 'Recently Used', kind: vscode.QuickPickItemKind.Separator });
+    items.push(...recentPrompts.map(toItem));
+  }
+
+  const categories = [...new Set(prompts.map(p => p.category || 'custom'))];
+  for (const category of categories) {
+    items.push({ label: category, kind: vscode.QuickPickItemKind.Separator });
+    items.push(...prompts.filter(p => (p.category || 'custom') === category).map(toItem));
+  }
+
+  return items;
+}
@@ -0,0 +1,156 @@
+import { JimpImage } from './output';
+import { decodeMask, forEachMasked } from './segmentation';
+
+/**
+ * How a region is hidden. `blur` and `pixelate` keep a trace of the
+ * original pixels, which can be enough to read large text; `solid` and
+ * `secure` replace them.
+ */
+export type RedactionMode = 'blur' | 'pixelate' | 'solid' | 'secure';
+
+export const REDACTION_MODES: RedactionMode[] = ['blur', 'pixelate', 'solid', 'secure'];
+
+export interface RedactionOptions {
+  /** Mode for detection types without an entry in `modesByType` */
+  mode: RedactionMode;
+  /** Modes by detection type, e.g. `{ "credit card": "solid" }` */
+  modesByType: Record<string, RedactionMode>;
+  /** Jimp blur radius (1-100) */
+  blurRadius: number;
+  /** Size of the pixelation blocks in pixels */
+  pixelSize: number;
+  /** Fill of `solid` and `secure`, as #rrggbb or #rgb */
+  color: string;
+  /** Pixels added on each side of a box, for boxes cut a little short; not applied to masks */
+  padding: number;
+}
+
+/**
+ * A detection to redact: `box_2d` is [ymin, xmin, ymax, xmax] normalized to
+ * 0-1000. With a segmentation `mask` only the object's pixels are redacted.
+ */
+export interface RedactionRegion {
+  box_2d?: number[];
+  type?: string;
+  mask?: string;
+}
+
+interface PixelRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Noise added to each channel of `secure` fills, so they are not a flat color box */
+const SECURE_NOISE = 48;
+
+// ==================== MODES ====================
+
+/**
+ * Mode for a detection type. Types come from the model in varying words,
+ * so besides an exact match a configured type also matches any type that
+ * contains it as whole words: "credit card" matches "Credit card number".
+ */
+export function getRedactionMode(type: string | undefined, options: RedactionOptions): RedactionMode {
+  const normalized = (type || '').trim().toLowerCase();
+  const entries = Object.entries(options.modesByType).filter(([, mode]) => REDACTION_MODES.includes(mode));
+
+  const exact = entries.find(([key]) => key.trim().toLowerCase() === normalized);
+  if (exact) return exact[1];
+
+  const contained = entries
+    .filter(([key]) => key.trim() && new RegExp(`\\b${escapeRegExp(key.trim().toLowerCase())}\\b`).test(normalized))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  return contained ? contained[1] : options.mode;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ==================== REDACTION ====================
+
+/**
+ * Redact every region in place and return how many regions were redacted.
+ * Regions whose mask does not decode are redacted as boxes.
+ */
+export async function redactDetections(image: JimpImage, regions: RedactionRegion[], options: RedactionOptions): Promise<number> {
+  let redacted = 0;
+
+  for (const region of regions) {
+    if (region.box_2d?.length !== 4) continue;
+
+    const mode = getRedactionMode(region.type, options);
+    const mask = region.mask ? await decodeMask(region.mask, region.box_2d, image.width, image.height) : undefined;
+    if (mask) {
+      const redactedBox = image.clone().crop({ x: mask.x, y: mask.y, w: mask.w, h: mask.h }) as JimpImage;
+      redactRect(redactedBox, { x: 0, y: 0, w: mask.w, h: mask.h }, mode, options);
+      forEachMasked(mask, (x, y) => {
+        const from = ((y - mask.y) * mask.w + (x - mask.x)) * 4;
+        image.bitmap.data.set(redactedBox.bitmap.data.subarray(from, from + 4), (y * image.width + x) * 4);
+      });
+      redacted++;
+      continue;
+    }
+
+    const rect = toPixelRect(region.box_2d, image.width, image.height, options.padding);
+    if (!rect) continue;
+
+    redactRect(image, rect, mode, options);
+    redacted++;
+  }
+
+  return redacted;
+}
+
+/** Pixels of a normalized box grown by the padding and clamped to the image, or undefined when empty */
+function toPixelRect(box: number[], width: number, height: number, padding: number): PixelRect | undefined {
+  const [ymin, xmin, ymax, xmax] = box;
+  const left = Math.max(0, Math.round((xmin / 1000) * width) - padding);
+  const top = Math.max(0, Math.round((ymin / 1000) * height) - padding);
+  const right = Math.min(width, Math.round((xmax / 1000) * width) + padding);
+  const bottom = Math.min(height, Math.round((ymax / 1000) * height) + padding);
+
+  return right > left && bottom > top ? { x: left, y: top, w: right - left, h: bottom - top } : undefined;
+}
+
+function redactRect(image: JimpImage, rect: PixelRect, mode: RedactionMode, options: RedactionOptions) {
+  switch (mode) {
+    case 'pixelate':
+      image.pixelate({ size: Math.max(2, Math.round(options.pixelSize)), ...rect });
+      break;
+    case 'solid':
+    case 'secure':
+      fillRect(image, rect, parseColor(options.color), mode === 'secure' ? SECURE_NOISE : 0);
+      break;
+    default: {
+      const blurred = image.clone().crop(rect).blur(options.blurRadius);
+      image.composite(blurred, rect.x, rect.y);
+    }
+  }
+}
+
+/** Overwrite every pixel of the rectangle, so nothing of the original is left */
+function fillRect(image: JimpImage, rect: PixelRect, [r, g, b]: [number, number, number], noise: number) {
+  const { data, width } = image.bitmap;
+  const jitter = (value: number) => noise > 0 ? Math.max(0, Math.min(255, Math.round(value + (Math.random() - 0.5) * noise * 2))) : value;
+
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = jitter(r);
+      data[i + 1] = jitter(g);
+      data[i + 2] = jitter(b);
+      data[i + 3] = 255;
+    }
+  }
+}
+
+/** #rrggbb or #rgb; black for anything else */
+function parseColor(color: string): [number, number, number] {
+  const hex = color.trim().replace(/^#/, '');
+  const full = /^[0-9a-f]{3}$/i.test(hex) ? hex.split('').map(c => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [0, 0, 0];
+  return [0, 2, 4].map(i => parseInt(full.substring(i, i + 2), 16)) as [number, number, number];
+}
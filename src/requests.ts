@@ -0,0 +1,262 @@
+import { ProviderId } from './providers';
+
+// ==================== TYPES ====================
+
+export type ErrorKind =
+  /** Rate limit or quota exhausted (HTTP 429) */
+  | 'quota'
+  /** Server errors, timeouts and dropped connections; worth retrying */
+  | 'transient'
+  /** Missing, invalid or unauthorized API key */
+  | 'auth'
+  /** Prompt or image rejected by safety filters */
+  | 'safety'
+  /** Request the model cannot handle, such as an unsupported option */
+  | 'invalidArgument'
+  | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  /** Message of the API, without the JSON around it */
+  message: string;
+  status?: number;
+  /** How long the service asked to wait before retrying */
+  retryAfterMs?: number;
+}
+
+export interface RetrySettings {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface SendOptions {
+  settings: RetrySettings;
+  signal?: AbortSignal;
+  limiter?: RateLimiter;
+  provider: ProviderId;
+  /** Called before waiting for a free slot of the rate limit */
+  onWait?: (delayMs: number) => void;
+  /** Called before waiting to retry a failed attempt */
+  onRetry?: (attempt: number, delayMs: number, error: ClassifiedError) => void;
+}
+
+/** A failed request after classification and retries. The message is meant for users. */
+export class RequestError extends Error {
+  constructor(
+    public readonly kind: ErrorKind,
+    public readonly detail: string,
+    public readonly provider: ProviderId,
+    public readonly attempts: number,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(describeError(kind, detail, attempts));
+    this.name = 'RequestError';
+  }
+}
+
+/** Thrown by providers for HTTP errors so the status and retry hint survive */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/** Longer retry hints mean a daily quota or similar, not worth waiting for */
+const MAX_RETRY_HINT_MS = 120000;
+
+const MINUTE_MS = 60000;
+
+const ERROR_SUMMARIES: Record<ErrorKind, string> = {
+  quota: 'Rate limit or quota exceeded',
+  transient: 'The service is temporarily unavailable',
+  auth: 'The API key was rejected',
+  safety: 'Blocked by safety filters, try rephrasing the prompt',
+  invalidArgument: 'The request was rejected',
+  unknown: ''
+};
+
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// ==================== CLASSIFICATION ====================
+
+/**
+ * Work out what went wrong from an error of any provider: Gemini API errors
+ * carry the status and a JSON body, HTTP providers throw `HttpError`, and
+ * network failures only have a code or a message.
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  if (error instanceof RequestError) {
+    return { kind: error.kind, message: error.detail, status: error.status, retryAfterMs: error.retryAfterMs };
+  }
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const body = parseErrorBody(raw);
+  const message = body?.message || raw;
+  const status = getStatus(error) ?? (typeof body?.code === 'number' ? body.code : undefined);
+  const apiStatus = body?.status || '';
+  const text = `${apiStatus} ${message}`.toLowerCase();
+  const retryAfterMs = error instanceof HttpError && error.retryAfterMs !== undefined ? error.retryAfterMs : getRetryHint(body, message);
+
+  let kind: ErrorKind = 'unknown';
+  if (status === 401 || status === 403 || /unauthenticated|permission_denied|api key not valid|invalid api key|incorrect api key|api_key_invalid/.test(text)) {
+    kind = 'auth';
+  } else if (status === 429 || /resource_exhausted|quota|rate limit/.test(text)) {
+    kind = 'quota';
+  } else if (/safety|content policy|content_policy|moderation|prohibited_content|blocklist/.test(text)) {
+    kind = 'safety';
+  } else if (status === 400 || status === 404 || status === 422 || /invalid_argument|failed_precondition|not_found/.test(text)) {
+    kind = 'invalidArgument';
+  } else if ((status !== undefined && (status >= 500 || status === 408)) || isNetworkError(error) || /unavailable|deadline_exceeded|internal|overloaded/.test(text)) {
+    kind = 'transient';
+  }
+
+  return { kind, message, status, retryAfterMs };
+}
+
+/** User-facing text for a classified error */
+export function describeError(kind: ErrorKind, message: string, attempts = 1): string {
+  const summary = ERROR_SUMMARIES[kind];
+  if (!summary) return message;
+  const tries = attempts > 1 ? ` (after ${attempts} attempts)` : '';
+  return `${summary}${tries}: ${message}`;
+}
+
+function getStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | undefined)?.status;
+  if (typeof status === 'number') return status;
+
+  const match = error instanceof Error ? /^HTTP (\d{3})\b/.exec(error.message) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+interface ErrorBody {
+  /** HTTP status for Google APIs, an error name for OpenAI */
+  code?: number | string;
+  message?: string;
+  status?: string;
+  details?: Array<{ '@type'?: string; retryDelay?: string }>;
+}
+
+/** The `error` object of a Google API error, whose message is the JSON response */
+function parseErrorBody(message: string): ErrorBody | undefined {
+  const start = message.indexOf('{');
+  if (start < 0) return undefined;
+  try {
+    const parsed = JSON.parse(message.substring(start));
+    const body = parsed?.error ?? parsed;
+    return typeof body === 'object' && body !== null ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getRetryHint(body: ErrorBody | undefined, message: string): number | undefined {
+  const delay = body?.details?.find(d => d.retryDelay)?.retryDelay ?? /retry in ([\d.]+)\s*s/i.exec(message)?.[1];
+  if (delay === undefined) return undefined;
+  const seconds = parseFloat(delay);
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
+
+function isNetworkError(error: unknown): boolean {
+  const code = (error as { code?: unknown; cause?: { code?: unknown } } | undefined);
+  if (TRANSIENT_CODES.includes(String(code?.code)) || TRANSIENT_CODES.includes(String(code?.cause?.code))) {
+    return true;
+  }
+  return error instanceof Error && /fetch failed|socket hang up|network/i.test(error.message);
+}
+
+// ==================== RETRYING ====================
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed and half
+ * random, so requests failing together do not retry together. A retry hint
+ * of the service is used when it is longer.
+ */
+export function getRetryDelay(retry: number, settings: RetrySettings, retryAfterMs?: number, random: () => number = Math.random): number {
+  const backoff = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** retry);
+  const delay = Math.round(backoff / 2 + random() * backoff / 2);
+  return Math.max(delay, retryAfterMs ?? 0);
+}
+
+/**
+ * Send a request, waiting for the rate limit first and retrying quota and
+ * transient errors. Other errors, and the last one, are thrown as a
+ * `RequestError`. Aborting stops waiting and throws the abort as is.
+ */
+export async function sendWithRetry<T>(task: () => Promise<T>, options: SendOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    await options.limiter?.acquire(options.provider, options.signal, options.onWait);
+
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const classified = classifyError(error);
+      const retryable = (classified.kind === 'quota' || classified.kind === 'transient')
+        && attempt <= options.settings.maxRetries
+        && (classified.retryAfterMs ?? 0) <= MAX_RETRY_HINT_MS;
+      if (!retryable) {
+        throw new RequestError(classified.kind, classified.message, options.provider, attempt, classified.status, classified.retryAfterMs);
+      }
+
+      const delay = getRetryDelay(attempt - 1, options.settings, classified.retryAfterMs);
+      options.onRetry?.(attempt, delay, classified);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', aborted);
+      resolve();
+    }, ms);
+    const aborted = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', aborted, { once: true });
+  });
+}
+
+// ==================== RATE LIMITING ====================
+
+/**
+ * Sliding-window limit of requests per minute, counted per provider and
+ * shared by every job. A limit of 0 or less means no limit.
+ */
+export class RateLimiter {
+  private readonly sent = new Map<string, number[]>();
+
+  constructor(private readonly requestsPerMinute: () => number) {}
+
+  async acquire(key: string, signal?: AbortSignal, onWait?: (delayMs: number) => void): Promise<void> {
+    for (;;) {
+      const limit = Math.round(this.requestsPerMinute());
+      const now = Date.now();
+      const sent = (this.sent.get(key) || []).filter(t => now - t < MINUTE_MS);
+      this.sent.set(key, sent);
+
+      if (!(limit > 0) || sent.length < limit) {
+        sent.push(now);
+        return;
+      }
+
+      const delay = sent[0] + MINUTE_MS - now;
+      onWait?.(delay);
+      await sleep(delay, signal);
+    }
+  }
+}
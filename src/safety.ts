@@ -0,0 +1,119 @@
+import { FinishInfo, ImageResult } from './providers';
+
+// ==================== TYPES ====================
+
+/** Why a response had no image, in terms users can act on */
+export interface NoImageExplanation {
+  summary: string;
+  /** What the provider reported, e.g. `blocked: IMAGE_SAFETY` */
+  reason?: string;
+  /** What was flagged: the prompt, an input image or the generated image */
+  trigger?: string;
+  /** Safety categories rated likely or blocked, e.g. "Dangerous content" */
+  categories: string[];
+  /** Whether sending the request again, possibly rephrased, might work */
+  retryable: boolean;
+  advice: string;
+  /** What the model said instead of returning an image */
+  modelText?: string;
+}
+
+/** Reasons no rephrasing gets past */
+const FINAL_REASONS = ['PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// ==================== EXPLANATION ====================
+
+/**
+ * Explain a response without an image from its prompt feedback, finish
+ * reason and safety ratings. Providers that report none of them get the
+ * generic "answered with text only" explanation.
+ */
+export function explainNoImage(result: ImageResult, hasInputImages: boolean): NoImageExplanation {
+  const finish = result.finish;
+  const categories = getFlaggedCategories(finish);
+  const flagged = categories.length > 0 ? ` (${categories.join(', ')})` : '';
+  const modelText = result.text.trim() || finish?.message || undefined;
+
+  if (finish?.blockReason) {
+    const trigger = finish.blockReason === 'IMAGE_SAFETY' ? 'an input image'
+      : hasInputImages ? 'the prompt or an input image' : 'the prompt';
+    const retryable = !FINAL_REASONS.includes(finish.blockReason);
+    return {
+      summary: `The request was blocked before generating${flagged}: ${trigger} was flagged.`,
+      reason: `blocked: ${finish.blockReason}`,
+      trigger,
+      categories,
+      retryable,
+      advice: retryable
+        ? 'Rephrase the prompt to describe the same result in neutral terms, or use other input images.'
+        : 'This content is not allowed. Rephrasing will not help; change what you ask for.',
+      modelText
+    };
+  }
+
+  const reason = finish?.finishReason;
+  const explain = (summary: string, trigger: string | undefined, retryable: boolean, advice: string): NoImageExplanation => ({
+    summary, reason: reason && `finished: ${reason}`, trigger, categories, retryable, advice, modelText
+  });
+
+  switch (reason) {
+    case 'SAFETY':
+      return explain(`The response was blocked by safety filters${flagged}.`, 'the response', true,
+        'Rephrase the prompt to avoid the flagged category.');
+    case 'IMAGE_SAFETY':
+      return explain(`The generated image was blocked by safety filters${flagged}.`, 'the generated image', true,
+        'Rephrase the prompt so the image is less likely to be flagged.');
+    case 'PROHIBITED_CONTENT':
+    case 'IMAGE_PROHIBITED_CONTENT':
+    case 'BLOCKLIST':
+    case 'SPII':
+      return explain(`The response was blocked as prohibited content${flagged}.`, reason.startsWith('IMAGE_') ? 'the generated image' : 'the response', false,
+        'This content is not allowed. Rephrasing will not help; change what you ask for.');
+    case 'RECITATION':
+    case 'IMAGE_RECITATION':
+      return explain('The result was too close to existing copyrighted content.', 'the generated image', true,
+        'Describe a more original result, without naming existing works, characters or brands.');
+    case 'MAX_TOKENS':
+      return explain('The response hit the output limit before the image was complete.', undefined, true,
+        'Retry, or shorten the prompt.');
+    default:
+      return explain(modelText ? 'The model answered with text instead of an image.' : 'The model returned neither an image nor an explanation.', undefined, true,
+        'Retry, or state explicitly that you want an image, e.g. "Generate an image of ...".');
+  }
+}
+
+/** One line for notifications, summary rows and error messages */
+export function describeNoImage(result: ImageResult, hasInputImages: boolean): string {
+  const explanation = explainNoImage(result, hasInputImages);
+  return `No image was generated. ${explanation.summary}${explanation.modelText ? ` ${explanation.modelText}` : ''}`;
+}
+
+/** Every detail of an explanation, for the details panel */
+export function formatExplanation(explanation: NoImageExplanation, prompt: string): string {
+  const lines = [explanation.summary, ''];
+  if (explanation.reason) lines.push(`Reported reason: ${explanation.reason}`);
+  if (explanation.trigger) lines.push(`Flagged: ${explanation.trigger}`);
+  if (explanation.categories.length > 0) lines.push(`Categories: ${explanation.categories.join(', ')}`);
+  lines.push(`Retrying might help: ${explanation.retryable ? 'yes' : 'no'}`, '', explanation.advice, '', 'Prompt:', prompt);
+  if (explanation.modelText) lines.push('', 'Model response:', explanation.modelText);
+  return lines.join('\n');
+}
+
+/** Instruction for the understanding model to rewrite a prompt that produced no image */
+export function getRephrasePrompt(prompt: string, explanation: NoImageExplanation): string {
+  return `An image generation model returned no image for the prompt below. ${explanation.summary} ${explanation.advice}
+
+Rewrite the prompt so it keeps the user's intent but is likely to produce an image. Keep the same language and roughly the same length. Reply with the rewritten prompt only, without quotes or explanations.
+
+Prompt:
+${prompt}`;
+}
+
+/** HARM_CATEGORY_DANGEROUS_CONTENT → "Dangerous content" */
+function getFlaggedCategories(finish: FinishInfo | undefined): string[] {
+  const flagged = (finish?.safetyRatings || []).filter(r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM');
+  return [...new Set(flagged.map(r => {
+    const name = r.category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }))];
+}
@@ -0,0 +1,290 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { PROVENANCE_TOOL } from './provenance';
+
+// ==================== TYPES ====================
+
+export type RiskLevel = 'high' | 'medium' | 'low';
+
+/**
+ * A detection without the text the model found. Findings end up in the
+ * Problems panel, workspace storage and shared reports, which must not
+ * spread the data the scan is looking for.
+ */
+export interface ScanFinding {
+  type: string;
+  /** [ymin, xmin, ymax, xmax] normalized to 0-1000 */
+  box_2d?: number[];
+  risk_level: RiskLevel;
+}
+
+export interface ScannedFile {
+  filePath: string;
+  /** SHA-256 of the file content; empty when the file could not be read */
+  hash: string;
+  /** ISO timestamp of when the model looked at this content */
+  scannedAt: string;
+  findings: ScanFinding[];
+  /** Taken from the cache because the content, model and prompt were unchanged */
+  cached: boolean;
+  /** Set when the file could not be scanned; it has no findings then */
+  error?: string;
+}
+
+export interface ScanReport {
+  startedAt: string;
+  finishedAt: string;
+  model: string;
+  /** SHA-256 of the detection prompt, so reports from different prompts can be told apart */
+  promptHash: string;
+  include: string;
+  exclude: string;
+  /** The scan was cancelled before every file was scanned */
+  cancelled: boolean;
+  files: ScannedFile[];
+}
+
+interface CacheEntry {
+  model: string;
+  promptHash: string;
+  scannedAt: string;
+  findings: ScanFinding[];
+}
+
+/** Asked in addition to the detection prompt, which may be customized */
+export const SCAN_INSTRUCTIONS = `
+
+For each item also include "risk_level": "high" for data that identifies or harms a specific person (IDs, financial data, addresses, private contact details), "medium" for names and usernames, "low" for anything else.`;
+
+const CACHE_KEY = 'nanoBanana.scanCache';
+const REPORT_KEY = 'nanoBanana.scanReport';
+const MAX_CACHE_ENTRIES = 5000;
+
+const RISK_ORDER: RiskLevel[] = ['high', 'medium', 'low'];
+
+const SARIF_LEVELS: Record<RiskLevel, string> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+const DIAGNOSTIC_SEVERITIES: Record<RiskLevel, vscode.DiagnosticSeverity> = {
+  high: vscode.DiagnosticSeverity.Error,
+  medium: vscode.DiagnosticSeverity.Warning,
+  low: vscode.DiagnosticSeverity.Information
+};
+
+// ==================== CACHE ====================
+
+export function hashContent(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Findings by content hash in workspace storage, so unchanged images are
+ * not sent again. Entries only count for the model and prompt that made
+ * them.
+ */
+export class ScanCache {
+  constructor(private readonly state: vscode.Memento) {}
+
+  get(hash: string, model: string, promptHash: string): CacheEntry | undefined {
+    const entry = this.getAll()[hash];
+    return entry && entry.model === model && entry.promptHash === promptHash ? entry : undefined;
+  }
+
+  async set(hash: string, entry: CacheEntry): Promise<void> {
+    const entries = { ...this.getAll(), [hash]: entry };
+    const keys = Object.keys(entries);
+    if (keys.length > MAX_CACHE_ENTRIES) {
+      keys.sort((a, b) => entries[a].scannedAt.localeCompare(entries[b].scannedAt))
+        .slice(0, keys.length - MAX_CACHE_ENTRIES)
+        .forEach(key => delete entries[key]);
+    }
+    await this.state.update(CACHE_KEY, entries);
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(CACHE_KEY, undefined);
+  }
+
+  private getAll(): Record<string, CacheEntry> {
+    return this.state.get<Record<string, CacheEntry>>(CACHE_KEY, {});
+  }
+}
+
+// ==================== FINDINGS ====================
+
+/**
+ * Findings from the model's JSON, with a risk level for every one. The
+ * found text and any description, which may quote it, are dropped.
+ */
+export function normalizeFindings(items: any[]): ScanFinding[] {
+  return (Array.isArray(items) ? items : [])
+    .filter(item => item && typeof item === 'object')
+    .map(item => ({
+      type: String(item.type || item.label || 'sensitive data'),
+      box_2d: Array.isArray(item.box_2d) && item.box_2d.length === 4 ? item.box_2d.map(Number) : undefined,
+      risk_level: RISK_ORDER.includes(item.risk_level) ? item.risk_level : 'medium'
+    }));
+}
+
+/** Highest risk level of the findings, or undefined without findings */
+export function getHighestRisk(findings: ScanFinding[]): RiskLevel | undefined {
+  return RISK_ORDER.find(level => findings.some(f => f.risk_level === level));
+}
+
+/** Problems panel entries of a file. Images have no lines, so all are on the first one. */
+export function toDiagnostics(file: ScannedFile): vscode.Diagnostic[] {
+  const range = new vscode.Range(0, 0, 0, 0);
+  if (file.error) {
+    const diagnostic = new vscode.Diagnostic(range, `Not scanned for sensitive data: ${file.error}`, vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = 'Banana Studio';
+    return [diagnostic];
+  }
+
+  return file.findings.map(finding => {
+    const diagnostic = new vscode.Diagnostic(range, `Sensitive data (${finding.risk_level} risk): ${finding.type}`, DIAGNOSTIC_SEVERITIES[finding.risk_level]);
+    diagnostic.source = 'Banana Studio';
+    diagnostic.code = finding.type;
+    return diagnostic;
+  });
+}
+
+// ==================== REPORTS ====================
+
+/** The report as JSON, with paths relative to the workspace */
+export function toJsonReport(report: ScanReport): string {
+  const files = report.files.map(file => ({ ...file, filePath: vscode.workspace.asRelativePath(file.filePath) }));
+  const summary = {
+    files: report.files.length,
+    filesWithFindings: report.files.filter(f => f.findings.length > 0).length,
+    failed: report.files.filter(f => f.error).length,
+    findings: Object.fromEntries(RISK_ORDER.map(level => [level, report.files.reduce((n, f) => n + f.findings.filter(x => x.risk_level === level).length, 0)]))
+  };
+  return JSON.stringify({ tool: PROVENANCE_TOOL, ...report, summary, files }, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0 log for code scanning tools, one rule per finding type. Files
+ * that could not be scanned are tool notifications and mark the run as not
+ * successful, so a clean report really means every file was checked.
+ */
+export function toSarif(report: ScanReport): string {
+  const types = [...new Set(report.files.flatMap(f => f.findings.map(x => x.type)))].sort();
+  const failed = report.files.filter(f => f.error);
+  const toUri = (filePath: string) => vscode.workspace.asRelativePath(filePath, false).split(path.sep).join('/');
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: PROVENANCE_TOOL,
+          rules: types.map(type => ({
+            id: type,
+            shortDescription: { text: `Sensitive data: ${type}` }
+          }))
+        }
+      },
+      invocations: [{
+        executionSuccessful: failed.length === 0 && !report.cancelled,
+        startTimeUtc: report.startedAt,
+        endTimeUtc: report.finishedAt,
+        toolExecutionNotifications: failed.map(file => ({
+          level: 'error',
+          message: { text: `Not scanned: ${file.error}` },
+          locations: [{ physicalLocation: { artifactLocation: { uri: toUri(file.filePath) } } }]
+        }))
+      }],
+      properties: { model: report.model, promptHash: report.promptHash, include: report.include, exclude: report.exclude },
+      artifacts: report.files.map(file => ({
+        location: { uri: toUri(file.filePath) },
+        hashes: file.hash ? { 'sha-256': file.hash } : undefined
+      })),
+      results: report.files.flatMap(file => file.findings.map(finding => ({
+        ruleId: finding.type,
+        level: SARIF_LEVELS[finding.risk_level],
+        message: { text: `Sensitive data: ${finding.type}` },
+        locations: [{ physicalLocation: { artifactLocation: { uri: toUri(file.filePath) } } }],
+        properties: { risk_level: finding.risk_level, box_2d: finding.box_2d }
+      })))
+    }]
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+// ==================== TREE VIEW ====================
+
+export type ScanNode =
+  | { kind: 'file'; file: ScannedFile }
+  | { kind: 'finding'; file: ScannedFile; finding: ScanFinding };
+
+const RISK_ICONS: Record<RiskLevel, vscode.ThemeIcon> = {
+  high: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+  medium: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+  low: new vscode.ThemeIcon('info')
+};
+
+/**
+ * Files of the last scan with findings or errors, highest risk first,
+ * expanding to their findings. The last report is kept in workspace storage
+ * so it survives a reload.
+ */
+export class ScanTreeProvider implements vscode.TreeDataProvider<ScanNode> {
+  public static readonly viewId = 'nanoBananaScan';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  getReport(): ScanReport | undefined {
+    return this.state.get<ScanReport>(REPORT_KEY);
+  }
+
+  async setReport(report: ScanReport | undefined): Promise<void> {
+    await this.state.update(REPORT_KEY, report);
+    this.changeEmitter.fire();
+  }
+
+  getChildren(element?: ScanNode): ScanNode[] {
+    if (element) {
+      return element.kind === 'file'
+        ? element.file.findings.map(finding => ({ kind: 'finding', file: element.file, finding }))
+        : [];
+    }
+
+    const rank = (file: ScannedFile) => file.error ? RISK_ORDER.length : RISK_ORDER.indexOf(getHighestRisk(file.findings)!);
+    return (this.getReport()?.files ?? [])
+      .filter(file => file.findings.length > 0 || file.error)
+      .sort((a, b) => rank(a) - rank(b) || a.filePath.localeCompare(b.filePath))
+      .map(file => ({ kind: 'file', file }));
+  }
+
+  getTreeItem(node: ScanNode): vscode.TreeItem {
+    if (node.kind === 'finding') {
+      const item = new vscode.TreeItem(node.finding.type, vscode.TreeItemCollapsibleState.None);
+      item.description = `${node.finding.risk_level} risk`;
+      item.iconPath = RISK_ICONS[node.finding.risk_level];
+      item.contextValue = 'scanFinding';
+      item.command = { command: 'nanoBanana.scan.open', title: 'Open', arguments: [node] };
+      return item;
+    }
+
+    const { file } = node;
+    const risk = getHighestRisk(file.findings);
+    const item = new vscode.TreeItem(path.basename(file.filePath), file.findings.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    item.id = file.filePath;
+    item.resourceUri = vscode.Uri.file(file.filePath);
+    const dir = path.dirname(vscode.workspace.asRelativePath(file.filePath));
+    item.description = `${file.error ? 'not scanned' : `${file.findings.length} finding(s)`}${dir === '.' ? '' : ` · ${dir}`}`;
+    item.iconPath = risk ? RISK_ICONS[risk] : new vscode.ThemeIcon('circle-slash');
+    item.tooltip = file.error ?? `${vscode.workspace.asRelativePath(file.filePath)}\nScanned ${new Date(file.scannedAt).toLocaleString()}${file.cached ? ' (cached)' : ''}`;
+    item.contextValue = 'scanFile';
+    item.command = { command: 'nanoBanana.scan.open', title: 'Open', arguments: [node] };
+    return item;
+  }
+}
@@ -0,0 +1,94 @@
+import { Jimp } from 'jimp';
+import { JimpImage } from './output';
+
+/**
+ * A segmentation mask in image pixels. `data` has one byte per pixel of the
+ * `w` x `h` box at `x`, `y`: 1 inside the object, 0 outside.
+ */
+export interface PixelMask {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  data: Uint8Array;
+}
+
+/** Mask values are probabilities from 0 to 255; above this a pixel belongs to the object */
+const MASK_THRESHOLD = 127;
+
+/** Color of the preview overlay */
+const OVERLAY_RGBA = [255, 51, 51, 110];
+
+// ==================== DECODING ====================
+
+/**
+ * Decode a base64 PNG mask returned by the model and stretch it over its
+ * `box_2d`, which the mask covers exactly. Returns undefined for masks that
+ * do not decode or boxes outside the image.
+ */
+export async function decodeMask(mask: string, box: number[], width: number, height: number): Promise<PixelMask | undefined> {
+  if (box.length !== 4) return undefined;
+
+  const [ymin, xmin, ymax, xmax] = box;
+  const x = Math.max(0, Math.round((xmin / 1000) * width));
+  const y = Math.max(0, Math.round((ymin / 1000) * height));
+  const w = Math.min(width, Math.round((xmax / 1000) * width)) - x;
+  const h = Math.min(height, Math.round((ymax / 1000) * height)) - y;
+  if (w <= 0 || h <= 0) return undefined;
+
+  let image: JimpImage;
+  try {
+    image = await Jimp.read(Buffer.from(mask.replace(/^data:[^,]*,/, ''), 'base64'));
+  } catch {
+    return undefined;
+  }
+  image.resize({ w, h });
+
+  const source = image.bitmap.data;
+  const data = new Uint8Array(w * h);
+  for (let i = 0; i < data.length; i++) {
+    const value = Math.max(source[i * 4], source[i * 4 + 1], source[i * 4 + 2]) * source[i * 4 + 3] / 255;
+    data[i] = value > MASK_THRESHOLD ? 1 : 0;
+  }
+
+  return { x, y, w, h, data };
+}
+
+// ==================== EXPORT ====================
+
+/** The mask at the size of the whole image: white object on black */
+export async function toMaskPng(mask: PixelMask, width: number, height: number): Promise<Buffer> {
+  const image = new Jimp({ width, height, color: 0x000000ff });
+  forEachMasked(mask, (x, y) => {
+    const i = (y * width + x) * 4;
+    image.bitmap.data[i] = image.bitmap.data[i + 1] = image.bitmap.data[i + 2] = 255;
+  });
+  return image.getBuffer('image/png');
+}
+
+/** The object cropped to its box, transparent outside the mask */
+export async function toCutoutPng(source: JimpImage, mask: PixelMask): Promise<Buffer> {
+  const image = source.clone().crop({ x: mask.x, y: mask.y, w: mask.w, h: mask.h });
+  for (let i = 0; i < mask.data.length; i++) {
+    if (!mask.data[i]) image.bitmap.data[i * 4 + 3] = 0;
+  }
+  return image.getBuffer('image/png');
+}
+
+/** Semi-transparent overlay of the box size, as a data URL for the preview */
+export async function toOverlayDataUrl(mask: PixelMask): Promise<string> {
+  const image = new Jimp({ width: mask.w, height: mask.h, color: 0x00000000 });
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i]) image.bitmap.data.set(OVERLAY_RGBA, i * 4);
+  }
+  return image.getBase64('image/png');
+}
+
+/** Call back with the image coordinates of every pixel inside the mask */
+export function forEachMasked(mask: PixelMask, callback: (x: number, y: number) => void) {
+  for (let row = 0; row < mask.h; row++) {
+    for (let column = 0; column < mask.w; column++) {
+      if (mask.data[row * mask.w + column]) callback(mask.x + column, mask.y + row);
+    }
+  }
+}
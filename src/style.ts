@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// ==================== TYPES ====================
+
+/** Contents of `.banana/style.json` (or `.yaml`) */
+export interface BrandStyle {
+  name?: string;
+  /** Style description added to every prompt */
+  style?: string;
+  /** Colors as hex codes or names */
+  palette?: string[];
+  /** Images whose look the model should match, relative to the workspace folder */
+  references?: string[];
+}
+
+/** Brand style with absolute reference paths */
+export interface ResolvedBrandStyle {
+  filePath: string;
+  name?: string;
+  style?: string;
+  palette: string[];
+  referencePaths: string[];
+}
+
+/** How images attached to a text-to-image request are used */
+export type ReferenceRole = 'style' | 'subject';
+
+export class StyleError extends Error {
+  constructor(stylePath: string, message: string) {
+    super(`${path.basename(stylePath)}: ${message}`);
+    this.name = 'StyleError';
+  }
+}
+
+export const STYLE_FILES = ['style.json', 'style.yaml', 'style.yml'].map(f => path.join('.banana', f));
+
+export const STYLE_TEMPLATE: BrandStyle = {
+  name: 'Product illustrations',
+  style: 'Flat vector illustration with soft shadows, rounded shapes and generous white space.',
+  palette: ['#1E3A8A', '#F59E0B', '#F3F4F6'],
+  references: []
+};
+
+// ==================== PARSING ====================
+
+/** Style file of a workspace folder, if it has one */
+export function findStyleFile(folder: string): string | undefined {
+  return STYLE_FILES.map(f => path.join(folder, f)).find(f => fs.existsSync(f));
+}
+
+/** Read and validate a style file. Reference paths are relative to the folder holding `.banana` */
+export function readBrandStyle(stylePath: string): ResolvedBrandStyle {
+  const isYaml = /\.ya?ml$/i.test(stylePath);
+  let parsed: unknown;
+
+  try {
+    const text = fs.readFileSync(stylePath, 'utf8');
+    parsed = isYaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new StyleError(stylePath, `invalid ${isYaml ? 'YAML' : 'JSON'}: ${error.message}`);
+  }
+
+  const s = parsed as Record<string, unknown> | null;
+  if (!s || typeof s !== 'object' || Array.isArray(s)) {
+    throw new StyleError(stylePath, 'expected an object with "style", "palette" or "references"');
+  }
+  for (const key of ['name', 'style'] as const) {
+    if (s[key] !== undefined && typeof s[key] !== 'string') {
+      throw new StyleError(stylePath, `"${key}" must be a string`);
+    }
+  }
+  for (const key of ['palette', 'references'] as const) {
+    if (s[key] !== undefined && (!Array.isArray(s[key]) || !(s[key] as unknown[]).every(v => typeof v === 'string'))) {
+      throw new StyleError(stylePath, `"${key}" must be a list of strings`);
+    }
+  }
+
+  const style = s as BrandStyle;
+  const baseDir = path.dirname(path.dirname(stylePath));
+  const referencePaths = (style.references || []).map(r => path.resolve(baseDir, r));
+
+  for (const referencePath of referencePaths) {
+    if (!fs.existsSync(referencePath)) {
+      throw new StyleError(stylePath, `reference image not found: ${path.relative(baseDir, referencePath)}`);
+    }
+  }
+
+  return {
+    filePath: stylePath,
+    name: style.name,
+    style: style.style?.trim() || undefined,
+    palette: style.palette || [],
+    referencePaths
+  };
+}
+
+// ==================== PROMPTS ====================
+
+/** "Image 2" or "Images 2-4", numbered from 1 in the order the images are sent */
+function describeImages(first: number, count: number): string {
+  return count === 1 ? `Image ${first}` : `Images ${first}-${first + count - 1}`;
+}
+
+/**
+ * Add the brand style to a prompt. Its reference images are sent after the
+ * `imageCount` images already in the request.
+ */
+export function applyBrandStyle(prompt: string, style: ResolvedBrandStyle, imageCount: number): string {
+  const parts = [prompt];
+
+  if (style.style) {
+    parts.push(`Style guide${style.name ? ` (${style.name})` : ''}: ${style.style}`);
+  }
+  if (style.palette.length > 0) {
+    parts.push(`Use this color palette: ${style.palette.join(', ')}.`);
+  }
+  if (style.referencePaths.length > 0) {
+    const count = style.referencePaths.length;
+    parts.push(count === 1
+      ? `${describeImages(imageCount + 1, 1)} is a brand style reference: match its rendering, line work, lighting and colors, but do not copy its content.`
+      : `${describeImages(imageCount + 1, count)} are brand style references: match their rendering, line work, lighting and colors, but do not copy their content.`);
+  }
+
+  return parts.join('\n\n');
+}
+
+/** Tell the model how the attached images should be used when generating a new image */
+export function withReferenceRole(prompt: string, role: ReferenceRole, count: number): string {
+  const images = describeImages(1, count);
+  const note = role === 'style'
+    ? `${images} ${count === 1 ? 'is a style reference' : 'are style references'}: create a new image in the same visual style without copying their content.`
+    : `${images} ${count === 1 ? 'shows the subject' : 'show the subjects'} to depict: keep ${count === 1 ? 'it' : 'them'} recognizable in a new image.`;
+  return `${prompt}\n\n${note}`;
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as vscode from 'vscode';
+import { expandSelection, hasFolder, runQueue } from '../bulk';
+
+describe('runQueue', () => {
+  it('keeps the order of the items and collects failures', async () => {
+    const results = await runQueue([30, 10, 20], 2, async (ms, index) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      if (index === 1) throw new Error('failed');
+      return ms * 2;
+    });
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 60 },
+      { status: 'rejected', reason: new Error('failed') },
+      { status: 'fulfilled', value: 40 }
+    ]);
+  });
+
+  it('never runs more than the concurrency at once', async () => {
+    let running = 0;
+    let peak = 0;
+    await runQueue(Array.from({ length: 8 }, (_, i) => i), 3, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('does not start items after cancelling', async () => {
+    let cancelled = false;
+    const progress: number[] = [];
+    const results = await runQueue([1, 2, 3], 1, async item => {
+      if (item === 2) cancelled = true;
+      return item;
+    }, { isCancelled: () => cancelled, onSettled: done => progress.push(done) });
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'fulfilled', 'cancelled']);
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it('runs one at a time for an invalid concurrency', async () => {
+    expect(await runQueue([1, 2], 0, async item => item)).toHaveLength(2);
+    expect(await runQueue([], 4, async item => item)).toEqual([]);
+  });
+});
+
+describe('selection', () => {
+  let dir: string;
+  const findFiles = vscode.workspace.findFiles;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'banana-bulk-'));
+    fs.mkdirSync(path.join(dir, 'images'));
+    fs.writeFileSync(path.join(dir, 'a.png'), '');
+    fs.writeFileSync(path.join(dir, 'images', 'b.png'), '');
+    fs.writeFileSync(path.join(dir, 'images', 'c.png'), '');
+  });
+
+  afterEach(() => {
+    vscode.workspace.findFiles = findFiles;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('expands folders to their matching files without duplicates', async () => {
+    vscode.workspace.findFiles = async pattern => ['c.png', 'b.png'].map(name => vscode.Uri.file(path.join((pattern as vscode.RelativePattern).baseUri.fsPath, name)));
+    const paths = await expandSelection([vscode.Uri.file(path.join(dir, 'a.png')), vscode.Uri.file(path.join(dir, 'images')), vscode.Uri.file(path.join(dir, 'images', 'b.png'))], '**/*.png', '');
+    expect(paths).toEqual([path.join(dir, 'a.png'), path.join(dir, 'images', 'b.png'), path.join(dir, 'images', 'c.png')]);
+  });
+
+  it('tells whether the selection holds a folder', () => {
+    expect(hasFolder([vscode.Uri.file(path.join(dir, 'a.png'))])).toBe(false);
+    expect(hasFolder([vscode.Uri.file(path.join(dir, 'missing')), vscode.Uri.file(path.join(dir, 'images'))])).toBe(true);
+  });
+});
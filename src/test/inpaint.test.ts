@@ -0,0 +1,72 @@
+import { Jimp } from 'jimp';
+import { describe, expect, it } from 'vitest';
+import { compositeWithMask, extendCanvas, getClosestAspectRatio, getMaskBounds, getPaddingForAspectRatio } from '../inpaint';
+
+async function solid(width: number, height: number, color: number): Promise<Buffer> {
+  return new Jimp({ width, height, color }).getBuffer('image/png');
+}
+
+/** Transparent mask with the left `painted` columns opaque */
+async function leftMask(width: number, height: number, painted: number): Promise<Buffer> {
+  const mask = new Jimp({ width, height, color: 0x00000000 });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < painted; x++) mask.setPixelColor(0xffffffff, x, y);
+  }
+  return mask.getBuffer('image/png');
+}
+
+describe('getPaddingForAspectRatio', () => {
+  it('grows only one dimension, centered', () => {
+    expect(getPaddingForAspectRatio(100, 100, '16:9')).toEqual({ top: 0, right: 39, bottom: 0, left: 39 });
+    expect(getPaddingForAspectRatio(100, 100, '9:16')).toEqual({ top: 39, right: 0, bottom: 39, left: 0 });
+    expect(getPaddingForAspectRatio(101, 100, '2:1')).toEqual({ top: 0, right: 50, bottom: 0, left: 49 });
+  });
+
+  it('adds nothing when the ratio already matches', () => {
+    expect(getPaddingForAspectRatio(160, 90, '16:9')).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+  });
+});
+
+describe('getClosestAspectRatio', () => {
+  it('picks the nearest supported ratio', () => {
+    expect(getClosestAspectRatio(1920, 1080)).toBe('16:9');
+    expect(getClosestAspectRatio(1000, 990)).toBe('1:1');
+  });
+});
+
+describe('getMaskBounds', () => {
+  it('covers the painted pixels, or nothing for an empty mask', async () => {
+    expect(await getMaskBounds(await leftMask(8, 4, 3))).toEqual({ x: 0, y: 0, width: 3, height: 4 });
+    expect(await getMaskBounds(await leftMask(8, 4, 0))).toBeUndefined();
+  });
+});
+
+describe('compositeWithMask', () => {
+  it('takes the generated pixels inside the mask and the original outside', async () => {
+    const output = await Jimp.read(await compositeWithMask(await solid(8, 4, 0xff0000ff), await solid(8, 4, 0x0000ffff), await leftMask(8, 4, 4), 0));
+    expect(output.getPixelColor(1, 1)).toBe(0x0000ffff);
+    expect(output.getPixelColor(6, 1)).toBe(0xff0000ff);
+  });
+
+  it('resizes the generated image and mask to the original', async () => {
+    const output = await Jimp.read(await compositeWithMask(await solid(8, 4, 0xff0000ff), await solid(16, 8, 0x0000ffff), await leftMask(16, 8, 8), 0));
+    expect(output.bitmap.width).toBe(8);
+    expect(output.getPixelColor(0, 0)).toBe(0x0000ffff);
+    expect(output.getPixelColor(7, 3)).toBe(0xff0000ff);
+  });
+
+  it('feathers only inside the mask', async () => {
+    const output = await Jimp.read(await compositeWithMask(await solid(16, 4, 0xff0000ff), await solid(16, 4, 0x0000ffff), await leftMask(16, 4, 8), 2));
+    for (let x = 8; x < 16; x++) expect(output.getPixelColor(x, 2)).toBe(0xff0000ff);
+    expect(output.getPixelColor(7, 2)).not.toBe(0x0000ffff);
+  });
+});
+
+describe('extendCanvas', () => {
+  it('places the original inside a mask of the added area', async () => {
+    const { canvas, mask, width, height } = await extendCanvas(await solid(4, 4, 0xff0000ff), { top: 0, right: 2, bottom: 0, left: 2 });
+    expect([width, height]).toEqual([8, 4]);
+    expect((await Jimp.read(canvas)).getPixelColor(2, 0)).toBe(0xff0000ff);
+    expect(await getMaskBounds(mask)).toMatchObject({ x: 0, width: 8 });
+  });
+});
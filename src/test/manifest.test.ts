@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getLockKey, getLockPath, isUpToDate, ManifestError, readLock, readManifest, resolveManifestJobs, writeLock } from '../manifest';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'banana-manifest-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeManifest(name: string, content: string): string {
+  const manifestPath = path.join(dir, name);
+  fs.writeFileSync(manifestPath, content);
+  return manifestPath;
+}
+
+describe('readManifest', () => {
+  it('reads a YAML list and a JSON object with defaults', () => {
+    const yaml = writeManifest('a.banana.yaml', '- prompt: A cat\n  output: cat.png\n');
+    expect(readManifest(yaml)).toEqual({ defaults: {}, images: [{ prompt: 'A cat', output: 'cat.png' }] });
+
+    const json = writeManifest('b.banana.json', JSON.stringify({ defaults: { model: 'm' }, images: [{ prompt: 'A dog', output: 'dog.png' }] }));
+    expect(readManifest(json).defaults).toEqual({ model: 'm' });
+  });
+
+  it('rejects missing fields and duplicate outputs', () => {
+    const missing = writeManifest('c.banana.json', JSON.stringify([{ output: 'x.png' }]));
+    expect(() => readManifest(missing)).toThrow('entry 1 is missing "prompt"');
+
+    const duplicate = writeManifest('d.banana.json', JSON.stringify([{ prompt: 'a', output: 'x.png' }, { prompt: 'b', output: './x.png' }]));
+    expect(() => readManifest(duplicate)).toThrow(ManifestError);
+  });
+});
+
+describe('resolveManifestJobs', () => {
+  it('applies defaults and resolves paths against the manifest', () => {
+    const manifestPath = writeManifest('a.banana.yaml', '');
+    const [job] = resolveManifestJobs(manifestPath, { defaults: { model: 'm', aspectRatio: '16:9' }, images: [{ prompt: 'p', output: 'out/a.png', aspectRatio: '1:1' }] });
+    expect(job).toMatchObject({ model: 'm', aspectRatio: '1:1', outputPath: path.join(dir, 'out', 'a.png') });
+  });
+
+  it('changes the hash with the inputs and the reference content only', () => {
+    const manifestPath = writeManifest('a.banana.yaml', '');
+    fs.writeFileSync(path.join(dir, 'ref.png'), 'one');
+    const hashOf = (entry: { prompt: string; output: string; model?: string; references?: string[] }) =>
+      resolveManifestJobs(manifestPath, { defaults: {}, images: [entry] })[0].hash;
+
+    const base = hashOf({ prompt: 'p', output: 'a.png', references: ['ref.png'] });
+    expect(hashOf({ prompt: 'p', output: 'other.png', references: ['ref.png'] })).toBe(base);
+    expect(hashOf({ prompt: 'p2', output: 'a.png', references: ['ref.png'] })).not.toBe(base);
+    expect(hashOf({ prompt: 'p', output: 'a.png', model: 'm', references: ['ref.png'] })).not.toBe(base);
+
+    fs.writeFileSync(path.join(dir, 'ref.png'), 'two');
+    expect(hashOf({ prompt: 'p', output: 'a.png', references: ['ref.png'] })).not.toBe(base);
+  });
+
+  it('fails on a missing reference image', () => {
+    const manifestPath = writeManifest('a.banana.yaml', '');
+    expect(() => resolveManifestJobs(manifestPath, { defaults: {}, images: [{ prompt: 'p', output: 'a.png', references: ['nope.png'] }] }))
+      .toThrow('reference image not found: nope.png');
+  });
+});
+
+describe('lock file', () => {
+  it('keeps separate locks for manifests differing only in extension', () => {
+    const yaml = path.join(dir, 'x.banana.yaml');
+    const json = path.join(dir, 'x.banana.json');
+    expect(getLockPath(yaml)).not.toBe(getLockPath(json));
+
+    writeLock(yaml, { 'a.png': 'yaml' });
+    writeLock(json, { 'a.png': 'json' });
+    expect(readLock(yaml)).toEqual({ 'a.png': 'yaml' });
+    expect(readLock(json)).toEqual({ 'a.png': 'json' });
+  });
+
+  it('falls back to the lock name of earlier releases', () => {
+    const manifestPath = path.join(dir, 'x.banana.yaml');
+    fs.writeFileSync(path.join(dir, 'x.banana.lock.json'), JSON.stringify({ 'a.png': 'legacy' }));
+    expect(readLock(manifestPath)).toEqual({ 'a.png': 'legacy' });
+
+    writeLock(manifestPath, { 'a.png': 'new' });
+    expect(readLock(manifestPath)).toEqual({ 'a.png': 'new' });
+  });
+
+  it('returns an empty lock for a missing or broken file', () => {
+    const manifestPath = path.join(dir, 'x.banana.yaml');
+    expect(readLock(manifestPath)).toEqual({});
+    fs.writeFileSync(getLockPath(manifestPath), '{');
+    expect(readLock(manifestPath)).toEqual({});
+  });
+
+  it('marks a job up to date only when the output exists and the hash matches', () => {
+    const manifestPath = writeManifest('x.banana.yaml', '');
+    const [job] = resolveManifestJobs(manifestPath, { defaults: {}, images: [{ prompt: 'p', output: 'out/a.png' }] });
+    const lock = { [getLockKey(manifestPath, job)]: job.hash };
+    expect(getLockKey(manifestPath, job)).toBe('out/a.png');
+    expect(isUpToDate(manifestPath, job, lock)).toBe(false);
+
+    fs.mkdirSync(path.join(dir, 'out'));
+    fs.writeFileSync(job.outputPath, 'png');
+    expect(isUpToDate(manifestPath, job, lock)).toBe(true);
+    expect(isUpToDate(manifestPath, job, { 'out/a.png': 'stale' })).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { Jimp } from 'jimp';
+import { describe, expect, it } from 'vitest';
+import { embedProvenance, formatProvenance, Provenance, readProvenance } from '../provenance';
+
+const provenance: Provenance = {
+  tool: 'Banana Studio', operation: 'edit', provider: 'gemini', model: 'm', prompt: 'Make it blue',
+  previousPrompts: ['Add a hat'], sources: ['images/cat.png'], timestamp: '2026-10-19T10:00:00.000Z'
+};
+
+async function png(): Promise<Buffer> {
+  return new Jimp({ width: 2, height: 2, color: 0xff0000ff }).getBuffer('image/png');
+}
+
+/** A PNG with `record` as its provenance chunk, right after IHDR like `embedProvenance` writes it */
+async function pngWith(record: unknown): Promise<Buffer> {
+  const data = await png();
+  const body = Buffer.concat([Buffer.from('BananaStudio\0\0\0\0\0', 'latin1'), Buffer.from(JSON.stringify(record), 'utf8')]);
+  // The CRC stays zero; readers of the metadata do not check it
+  const chunk = Buffer.alloc(12 + body.length);
+  chunk.writeUInt32BE(body.length, 0);
+  chunk.write('iTXt', 4, 'latin1');
+  body.copy(chunk, 8);
+  const ihdrEnd = 8 + 12 + data.readUInt32BE(8);
+  return Buffer.concat([data.subarray(0, ihdrEnd), chunk, data.subarray(ihdrEnd)]);
+}
+
+describe('readProvenance', () => {
+  it('reads back what was embedded', async () => {
+    expect(readProvenance(embedProvenance(await png(), provenance))).toEqual(provenance);
+    expect(readProvenance(await png())).toBeUndefined();
+  });
+
+  it('defaults missing lists and drops entries that are not strings', async () => {
+    const { sources, previousPrompts, ...rest } = provenance;
+    expect(readProvenance(await pngWith(rest))).toEqual({ ...rest, sources: [], previousPrompts: undefined });
+    expect(readProvenance(await pngWith({ ...provenance, sources: ['a.png', 3] }))?.sources).toEqual(['a.png']);
+  });
+
+  it('ignores records of the wrong shape', async () => {
+    expect(readProvenance(await pngWith({ ...provenance, prompt: { text: 'x' } }))).toBeUndefined();
+    expect(readProvenance(await pngWith('just a string'))).toBeUndefined();
+    expect(readProvenance(await pngWith(null))).toBeUndefined();
+  });
+});
+
+describe('formatProvenance', () => {
+  it('lists sources and earlier instructions', () => {
+    const text = formatProvenance(provenance);
+    expect(text).toContain('Sources: images/cat.png');
+    expect(text).toContain('1. Add a hat');
+  });
+});
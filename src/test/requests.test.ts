@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, DEFAULT_RETRY_SETTINGS, getRetryDelay, HttpError, RequestError, sendWithRetry } from '../requests';
+
+/** A Gemini API error: the status on the error, the JSON response as the message */
+function apiError(status: number, body: object): Error {
+  return Object.assign(new Error(JSON.stringify({ error: body })), { status });
+}
+
+describe('classifyError', () => {
+  it('reads the Gemini JSON body and retry hint', () => {
+    const error = apiError(429, {
+      code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12.5s' }]
+    });
+    expect(classifyError(error)).toEqual({ kind: 'quota', message: 'Quota exceeded', status: 429, retryAfterMs: 12500 });
+  });
+
+  it('classifies by status', () => {
+    expect(classifyError(new HttpError(401, 'Unauthorized')).kind).toBe('auth');
+    expect(classifyError(new HttpError(400, 'Bad size')).kind).toBe('invalidArgument');
+    expect(classifyError(new HttpError(503, 'Service Unavailable')).kind).toBe('transient');
+    expect(classifyError(new HttpError(429, 'Slow down', 3000))).toMatchObject({ kind: 'quota', retryAfterMs: 3000 });
+  });
+
+  it('classifies by message when there is no status', () => {
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe('auth');
+    expect(classifyError(new Error('Your request was rejected by the content policy')).kind).toBe('safety');
+    expect(classifyError(new Error('HTTP 502 Bad Gateway')).status).toBe(502);
+    expect(classifyError('something odd').kind).toBe('unknown');
+  });
+
+  it('treats network failures as transient', () => {
+    expect(classifyError(Object.assign(new Error('read'), { code: 'ECONNRESET' })).kind).toBe('transient');
+    expect(classifyError(new TypeError('fetch failed')).kind).toBe('transient');
+  });
+
+  it('keeps the classification of a RequestError', () => {
+    const error = new RequestError('safety', 'Blocked', 'gemini', 1, 400);
+    expect(classifyError(error)).toEqual({ kind: 'safety', message: 'Blocked', status: 400, retryAfterMs: undefined });
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to the maximum, honoring longer hints', () => {
+    const settings = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(getRetryDelay(0, settings, undefined, () => 0)).toBe(500);
+    expect(getRetryDelay(2, settings, undefined, () => 1)).toBe(4000);
+    expect(getRetryDelay(5, settings, undefined, () => 1)).toBe(5000);
+    expect(getRetryDelay(0, settings, 8000, () => 1)).toBe(8000);
+  });
+});
+
+describe('sendWithRetry', () => {
+  const settings = { ...DEFAULT_RETRY_SETTINGS, baseDelayMs: 1, maxDelayMs: 1 };
+
+  it('retries transient errors', async () => {
+    let calls = 0;
+    const result = await sendWithRetry(async () => {
+      if (++calls < 3) throw new HttpError(503, 'Unavailable');
+      return 'ok';
+    }, { settings, provider: 'openai' });
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('throws other errors at once as a RequestError', async () => {
+    let calls = 0;
+    const send = sendWithRetry(async () => {
+      calls++;
+      throw new HttpError(401, 'Bad key');
+    }, { settings, provider: 'openai' });
+    await expect(send).rejects.toMatchObject({ name: 'RequestError', kind: 'auth', attempts: 1 });
+    expect(calls).toBe(1);
+  });
+});
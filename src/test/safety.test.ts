@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FinishInfo } from '../providers';
+import { describeNoImage, explainNoImage } from '../safety';
+
+function result(finish?: Partial<FinishInfo>, text = '') {
+  return { text, finish: finish && { safetyRatings: [], ...finish } };
+}
+
+describe('explainNoImage', () => {
+  it('blames an input image for IMAGE_SAFETY blocks', () => {
+    const explanation = explainNoImage(result({ blockReason: 'IMAGE_SAFETY' }), true);
+    expect(explanation).toMatchObject({ reason: 'blocked: IMAGE_SAFETY', trigger: 'an input image', retryable: true });
+  });
+
+  it('blames the prompt when there were no input images', () => {
+    expect(explainNoImage(result({ blockReason: 'SAFETY' }), false).trigger).toBe('the prompt');
+    expect(explainNoImage(result({ blockReason: 'SAFETY' }), true).trigger).toBe('the prompt or an input image');
+  });
+
+  it('does not offer rephrasing for prohibited content', () => {
+    expect(explainNoImage(result({ blockReason: 'PROHIBITED_CONTENT' }), false).retryable).toBe(false);
+    expect(explainNoImage(result({ finishReason: 'IMAGE_PROHIBITED_CONTENT' }), false)).toMatchObject({ retryable: false, trigger: 'the generated image' });
+  });
+
+  it('lists likely and blocked categories once', () => {
+    const explanation = explainNoImage(result({
+      finishReason: 'IMAGE_SAFETY',
+      safetyRatings: [
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'MEDIUM' },
+        { category: 'HARM_CATEGORY_HARASSMENT', probability: 'LOW', blocked: true },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' }
+      ]
+    }), false);
+    expect(explanation.categories).toEqual(['Dangerous content', 'Harassment']);
+    expect(explanation.summary).toContain('(Dangerous content, Harassment)');
+  });
+
+  it('explains text-only answers with the model text', () => {
+    expect(explainNoImage(result(undefined, ' I cannot draw that. '), false)).toMatchObject({
+      summary: 'The model answered with text instead of an image.', modelText: 'I cannot draw that.', retryable: true
+    });
+    expect(describeNoImage(result(), false)).toBe('No image was generated. The model returned neither an image nor an explanation.');
+  });
+});
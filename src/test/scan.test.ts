@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { getHighestRisk, normalizeFindings, ScanReport, toDiagnostics, toJsonReport, toSarif } from '../scan';
+
+const root = path.resolve('/workspace');
+
+function report(files: ScanReport['files'], cancelled = false): ScanReport {
+  return {
+    startedAt: '2026-10-19T10:00:00.000Z', finishedAt: '2026-10-19T10:01:00.000Z', model: 'm', promptHash: 'p',
+    include: '**/*.png', exclude: '', cancelled, files
+  };
+}
+
+const scanned = {
+  filePath: path.join(root, 'docs', 'id.png'),
+  hash: 'abc',
+  scannedAt: '2026-10-19T10:00:30.000Z',
+  cached: false,
+  findings: normalizeFindings([{ type: 'ID number', value: 'X1234567', box_2d: [1, 2, 3, 4], risk_level: 'high' }])
+};
+
+describe('normalizeFindings', () => {
+  it('drops the found value and description', () => {
+    const [finding] = normalizeFindings([{ type: 'Email', value: 'a@b.c', description: 'Email a@b.c', box_2d: ['1', 2, 3, 4], risk_level: 'low' }]);
+    expect(finding).toEqual({ type: 'Email', box_2d: [1, 2, 3, 4], risk_level: 'low' });
+  });
+
+  it('fills in the type and risk level and skips malformed items', () => {
+    expect(normalizeFindings([null, 'text', { label: 'Name', box_2d: [1, 2], risk_level: 'severe' }, {}])).toEqual([
+      { type: 'Name', box_2d: undefined, risk_level: 'medium' },
+      { type: 'sensitive data', box_2d: undefined, risk_level: 'medium' }
+    ]);
+    expect(normalizeFindings({ not: 'a list' } as any)).toEqual([]);
+  });
+
+  it('finds the highest risk', () => {
+    expect(getHighestRisk(normalizeFindings([{ risk_level: 'low' }, { risk_level: 'medium' }]))).toBe('medium');
+    expect(getHighestRisk([])).toBeUndefined();
+  });
+});
+
+describe('toDiagnostics', () => {
+  it('reports findings by type without the value', () => {
+    const [diagnostic] = toDiagnostics(scanned);
+    expect(diagnostic.message).toBe('Sensitive data (high risk): ID number');
+    expect(diagnostic.message).not.toContain('X1234567');
+  });
+
+  it('reports files that could not be scanned', () => {
+    expect(toDiagnostics({ ...scanned, findings: [], error: 'Timeout' })[0].message).toBe('Not scanned for sensitive data: Timeout');
+  });
+});
+
+describe('toSarif', () => {
+  it('lists results per rule without the found value', () => {
+    const sarif = toSarif(report([scanned]));
+    expect(sarif).not.toContain('X1234567');
+
+    const run = JSON.parse(sarif).runs[0];
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual(['ID number']);
+    expect(run.results[0]).toMatchObject({ ruleId: 'ID number', level: 'error', properties: { risk_level: 'high', box_2d: [1, 2, 3, 4] } });
+    expect(run.artifacts[0].hashes).toEqual({ 'sha-256': 'abc' });
+    expect(run.invocations[0].executionSuccessful).toBe(true);
+  });
+
+  it('marks the run unsuccessful for failed files and cancelled scans', () => {
+    const failed = { ...scanned, hash: '', findings: [], error: 'Timeout' };
+    const run = JSON.parse(toSarif(report([scanned, failed]))).runs[0];
+    expect(run.invocations[0].executionSuccessful).toBe(false);
+    expect(run.invocations[0].toolExecutionNotifications[0].message.text).toBe('Not scanned: Timeout');
+    expect(run.artifacts[1].hashes).toBeUndefined();
+
+    expect(JSON.parse(toSarif(report([scanned], true))).runs[0].invocations[0].executionSuccessful).toBe(false);
+  });
+});
+
+describe('toJsonReport', () => {
+  it('summarizes findings by risk level', () => {
+    const json = JSON.parse(toJsonReport(report([scanned, { ...scanned, filePath: path.join(root, 'b.png'), findings: [] }])));
+    expect(json.summary).toEqual({ files: 2, filesWithFindings: 1, failed: 0, findings: { high: 1, medium: 0, low: 0 } });
+  });
+});
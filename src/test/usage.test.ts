@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { computeCost, DEFAULT_PRICES, estimateImageCost, formatCost, getPrice, startOfWeek, toCsv, UsageRecord } from '../usage';
+
+const usage = { inputTokens: 1000, outputTokens: 2000, thoughtTokens: 100, images: 0 };
+
+describe('computeCost', () => {
+  it('prices text responses per token, thinking as output', () => {
+    expect(computeCost({ inputPerMillion: 1, outputPerMillion: 10 }, usage)).toBeCloseTo(0.001 + 0.021);
+  });
+
+  it('prices images per image and resolution instead of output tokens', () => {
+    const price = { inputPerMillion: 1, outputPerMillion: 10, perImage: { '1K': 0.1, '4K': 0.3 } };
+    const images = { ...usage, images: 2 };
+    expect(computeCost(price, images, '4K')).toBeCloseTo(0.001 + 0.6 + 0.001);
+    expect(computeCost(price, images)).toBeCloseTo(0.001 + 0.2 + 0.001);
+    expect(computeCost({ perImage: { '2K': 0.2, '4K': 0.3 } }, { ...images, inputTokens: 0, thoughtTokens: 0 }, '8K')).toBeCloseTo(0.6);
+  });
+
+  it('is free for unknown models', () => {
+    expect(computeCost(undefined, usage)).toBe(0);
+    expect(getPrice(DEFAULT_PRICES, 'unknown')).toBeUndefined();
+    expect(getPrice(DEFAULT_PRICES, 'models/gemini-2.5-flash-image')).toBe(DEFAULT_PRICES['gemini-2.5-flash-image']);
+  });
+
+  it('estimates image cost before sending', () => {
+    expect(estimateImageCost({ perImage: 0.04 })).toBe(0.04);
+    expect(estimateImageCost({ outputPerMillion: 40 })).toBeCloseTo(1290 * 40 / 1e6);
+  });
+});
+
+describe('formatCost', () => {
+  it('shows small amounts with four decimals', () => {
+    expect(formatCost(0.0012)).toBe('$0.0012');
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
+
+describe('startOfWeek', () => {
+  it('returns midnight of the Monday', () => {
+    expect(startOfWeek(new Date(2026, 9, 21, 15, 30))).toEqual(new Date(2026, 9, 19));
+    expect(startOfWeek(new Date(2026, 9, 19, 0, 1))).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('puts Sunday in the week that started the Monday before', () => {
+    expect(startOfWeek(new Date(2026, 9, 25, 23, 59))).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('crosses month boundaries', () => {
+    expect(startOfWeek(new Date(2026, 10, 1))).toEqual(new Date(2026, 9, 26));
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes values with commas and quotes', () => {
+    const record: UsageRecord = {
+      ...usage, timestamp: '2026-10-19T00:00:00.000Z', operation: 'generate', provider: 'gemini', model: 'm',
+      user: 'a,b', command: 'say "hi"', cost: 0.5
+    };
+    const [, row] = toCsv([record]).trim().split('\n');
+    expect(row).toBe('2026-10-19T00:00:00.000Z,"a,b","say ""hi""",generate,gemini,m,,1000,2000,100,0,0.5');
+  });
+});
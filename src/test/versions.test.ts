@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VersionSettings, VersionStore } from '../versions';
+
+let dir: string;
+let settings: VersionSettings;
+let store: VersionStore;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'banana-versions-'));
+  settings = { folder: '', maxPerFile: 0, maxAgeDays: 0 };
+  store = new VersionStore(path.join(dir, 'storage'), () => settings);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  store.dispose();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Write `content` to the file and save it as a version, as an operation would before overwriting */
+function saveVersion(filePath: string, content: string) {
+  fs.writeFileSync(filePath, content);
+  return store.save(filePath, 'edit');
+}
+
+describe('VersionStore', () => {
+  it('saves changed content only, newest first', () => {
+    const filePath = path.join(dir, 'a.png');
+    saveVersion(filePath, 'one');
+    expect(saveVersion(filePath, 'one')).toBeUndefined();
+    saveVersion(filePath, 'two');
+
+    const versions = store.list(filePath);
+    expect(versions.map(v => fs.readFileSync(store.getVersionPath(filePath, v), 'utf8'))).toEqual(['two', 'one']);
+    expect(store.save(path.join(dir, 'missing.png'), 'edit')).toBeUndefined();
+  });
+
+  it('keeps at most maxPerFile versions when saving', () => {
+    settings.maxPerFile = 2;
+    const filePath = path.join(dir, 'a.png');
+    ['one', 'two', 'three'].forEach(content => saveVersion(filePath, content));
+
+    const versions = store.list(filePath);
+    expect(versions).toHaveLength(2);
+    const folder = path.dirname(store.getVersionPath(filePath, versions[0]));
+    expect(fs.readdirSync(folder).sort()).toEqual([...versions.map(v => v.fileName), 'versions.json'].sort());
+  });
+
+  it('prunes versions older than maxAgeDays and removes emptied folders', () => {
+    vi.useFakeTimers();
+    const filePath = path.join(dir, 'a.png');
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    saveVersion(filePath, 'old');
+    vi.setSystemTime(new Date('2026-01-20T00:00:00Z'));
+    saveVersion(filePath, 'new');
+    const other = path.join(dir, 'b.png');
+    vi.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+    saveVersion(other, 'old');
+
+    vi.setSystemTime(new Date('2026-01-25T00:00:00Z'));
+    settings.maxAgeDays = 10;
+    expect(store.prune()).toBe(2);
+    expect(store.list(filePath).map(v => v.timestamp)).toEqual(['2026-01-20T00:00:00.000Z']);
+    expect(store.getFiles().map(f => f.filePath)).toEqual([filePath]);
+  });
+
+  it('keeps everything without limits', () => {
+    const filePath = path.join(dir, 'a.png');
+    ['one', 'two', 'three'].forEach(content => saveVersion(filePath, content));
+    expect(store.prune()).toBe(0);
+    expect(store.list(filePath)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,103 @@
+import * as path from 'path';
+
+/**
+ * The parts of the `vscode` module that the tested modules touch, aliased
+ * in place of the real module by vitest.config.mjs. Tests set
+ * `workspace.workspaceFolders` and `workspace.findFiles` as they need.
+ */
+
+// ==================== TYPES ====================
+
+export enum DiagnosticSeverity { Error, Warning, Information, Hint }
+
+export enum TreeItemCollapsibleState { None, Collapsed, Expanded }
+
+export class EventEmitter<T> {
+  private listeners: Array<(value: T) => void> = [];
+
+  event = (listener: (value: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+  };
+
+  fire(value: T) {
+    this.listeners.forEach(listener => listener(value));
+  }
+
+  dispose() {
+    this.listeners = [];
+  }
+}
+
+export class Uri {
+  private constructor(public readonly fsPath: string) {}
+
+  static file(fsPath: string): Uri {
+    return new Uri(path.resolve(fsPath));
+  }
+}
+
+export class Range {
+  constructor(public startLine: number, public startCharacter: number, public endLine: number, public endCharacter: number) {}
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number;
+
+  constructor(public range: Range, public message: string, public severity: DiagnosticSeverity) {}
+}
+
+export class ThemeColor {
+  constructor(public id: string) {}
+}
+
+export class ThemeIcon {
+  constructor(public id: string, public color?: ThemeColor) {}
+}
+
+export class MarkdownString {
+  constructor(public value = '') {}
+}
+
+export class TreeItem {
+  id?: string;
+  description?: string;
+  tooltip?: unknown;
+  iconPath?: unknown;
+  resourceUri?: Uri;
+  contextValue?: string;
+  command?: unknown;
+
+  constructor(public label: string, public collapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+export class RelativePattern {
+  constructor(public baseUri: Uri, public pattern: string) {}
+}
+
+interface WorkspaceFolder {
+  uri: Uri;
+  name: string;
+  index: number;
+}
+
+// ==================== WORKSPACE ====================
+
+export const workspace = {
+  workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+  getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+    return workspace.workspaceFolders?.find(w => !path.relative(w.uri.fsPath, uri.fsPath).startsWith('..'));
+  },
+
+  asRelativePath(pathOrUri: string | Uri): string {
+    const filePath = typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath;
+    const folder = workspace.getWorkspaceFolder(Uri.file(filePath));
+    return folder ? path.relative(folder.uri.fsPath, filePath) : filePath;
+  },
+
+  async findFiles(_include: RelativePattern, _exclude?: string): Promise<Uri[]> {
+    return [];
+  }
+};
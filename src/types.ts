@@ -145,6 +145,19 @@ export function escapeHtml(text: string): string {
   return text.replace(/[&<>"']/g, char => htmlEscapes[char] || char);
 }
 
+// ==================== MIME TYPES ====================
+
+export function getExtensionForMimeType(mimeType: string): string {
+  const extensions: { [key: string]: string } = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/webp': '.webp',
+    'image/bmp': '.bmp'
+  };
+  return extensions[mimeType] || '.png';
+}
+
 // ==================== VALIDATION ====================
 
 export function isValidBoundingBox(box: unknown): box is BoundingBox {
@@ -0,0 +1,428 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ProviderId, UsageInfo } from './providers';
+import { escapeHtml } from './types';
+
+// ==================== TYPES ====================
+
+/** Prices in USD */
+export interface ModelPrice {
+  inputPerMillion?: number;
+  /** Also applied to thinking tokens */
+  outputPerMillion?: number;
+  /** Per returned image, flat or per resolution; replaces the output token price of image responses */
+  perImage?: number | Record<string, number>;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageRecord extends UsageInfo {
+  /** ISO timestamp of when the response arrived */
+  timestamp: string;
+  /** Command that sent the request, if it was started from one */
+  command?: string;
+  operation: string;
+  provider: ProviderId;
+  model: string;
+  resolution?: string;
+  /** OS user name, to tell people apart in exports of a shared billing account */
+  user: string;
+  /** Estimated from the price table when the request finished */
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  images: number;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Published list prices at the time of writing. Override or extend them
+ * with `nanoBanana.usage.prices`.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0.039 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-image-1': { inputPerMillion: 10, outputPerMillion: 40 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 }
+};
+
+const USAGE_KEY = 'nanoBanana.usage';
+const MAX_RECORDS = 20000;
+const RETENTION_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Output tokens of a typical 1K image, to estimate models priced per token */
+const IMAGE_TOKENS = 1290;
+
+// ==================== PRICING ====================
+
+export function getPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  return prices[model] ?? prices[model.replace(/^models\//, '')];
+}
+
+export function computeCost(price: ModelPrice | undefined, usage: UsageInfo, resolution?: string): number {
+  if (!price) return 0;
+  const input = usage.inputTokens * (price.inputPerMillion ?? 0) / 1e6;
+  const perOutputToken = (price.outputPerMillion ?? 0) / 1e6;
+
+  if (usage.images > 0 && price.perImage !== undefined) {
+    return input + usage.images * getImagePrice(price.perImage, resolution) + usage.thoughtTokens * perOutputToken;
+  }
+  return input + (usage.outputTokens + usage.thoughtTokens) * perOutputToken;
+}
+
+/** Expected cost of one image from a model, before sending the request */
+export function estimateImageCost(price: ModelPrice | undefined, resolution?: string): number {
+  if (!price) return 0;
+  if (price.perImage !== undefined) return getImagePrice(price.perImage, resolution);
+  return IMAGE_TOKENS * (price.outputPerMillion ?? 0) / 1e6;
+}
+
+function getImagePrice(perImage: number | Record<string, number>, resolution?: string): number {
+  if (typeof perImage === 'number') return perImage;
+  return (resolution !== undefined ? perImage[resolution] : undefined) ?? perImage['1K'] ?? Math.max(0, ...Object.values(perImage));
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+// ==================== STORE ====================
+
+/**
+ * Billed usage of every request, kept in global state so it adds up across
+ * workspaces. Records older than about a year are dropped.
+ */
+export class UsageStore {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /** Oldest first */
+  getAll(): UsageRecord[] {
+    return this.state.get<UsageRecord[]>(USAGE_KEY, []);
+  }
+
+  async add(record: UsageRecord): Promise<void> {
+    const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+    const records = [...this.getAll().filter(r => Date.parse(r.timestamp) >= cutoff), record].slice(-MAX_RECORDS);
+    await this.state.update(USAGE_KEY, records);
+    this.changeEmitter.fire();
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(USAGE_KEY, []);
+    this.changeEmitter.fire();
+  }
+
+  getTotals(since: Date): UsageTotals {
+    return sumRecords(this.getAll().filter(r => Date.parse(r.timestamp) >= since.getTime()));
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
+
+export function sumRecords(records: UsageRecord[]): UsageTotals {
+  return records.reduce((totals, r) => ({
+    requests: totals.requests + 1,
+    images: totals.images + r.images,
+    tokens: totals.tokens + r.inputTokens + r.outputTokens + r.thoughtTokens,
+    cost: totals.cost + r.cost
+  }), { requests: 0, images: 0, tokens: 0, cost: 0 });
+}
+
+/** Totals per key, most expensive first */
+export function groupRecords(records: UsageRecord[], keyOf: (record: UsageRecord) => string): Array<{ key: string; totals: UsageTotals }> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return Array.from(groups, ([key, items]) => ({ key, totals: sumRecords(items) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.requests - a.totals.requests);
+}
+
+export function startOfDay(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Monday of the week holding the date */
+export function startOfWeek(date = new Date()): Date {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - (day.getDay() + 6) % 7);
+  return day;
+}
+
+export function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function toCsv(records: UsageRecord[]): string {
+  const columns: Array<keyof UsageRecord> = [
+    'timestamp', 'user', 'command', 'operation', 'provider', 'model', 'resolution',
+    'inputTokens', 'outputTokens', 'thoughtTokens', 'images', 'cost'
+  ];
+  const quote = (value: unknown) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(','), ...records.map(r => columns.map(c => quote(r[c])).join(','))].join('\n') + '\n';
+}
+
+// ==================== DASHBOARD ====================
+
+export interface UsagePanelOptions {
+  /** Title shown for a command ID */
+  getCommandTitle: (command: string) => string;
+  /** Monthly budget in USD, 0 when not set */
+  getMonthlyBudget: () => number;
+}
+
+/**
+ * Webview with today's, this week's and this month's spend, daily and
+ * weekly totals, and the breakdown by command and model. Refreshes as
+ * requests finish.
+ */
+export class UsagePanel {
+  public static readonly viewType = 'nanoBananaUsage';
+  private static current: UsagePanel | undefined;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly store: UsageStore, private readonly options: UsagePanelOptions) {
+    const subscription = store.onDidChange(() => this.render());
+    panel.onDidDispose(() => {
+      subscription.dispose();
+      UsagePanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.command) {
+        case 'export':
+          await this.exportCsv();
+          break;
+        case 'clear':
+          await this.clear();
+          break;
+        case 'prices':
+          vscode.commands.executeCommand('workbench.action.openSettings', 'nanoBanana.usage');
+          break;
+      }
+    });
+
+    this.render();
+  }
+
+  public static show(store: UsageStore, options: UsagePanelOptions) {
+    if (UsagePanel.current) {
+      UsagePanel.current.panel.reveal();
+      UsagePanel.current.render();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(UsagePanel.viewType, 'Banana Usage', vscode.ViewColumn.Active, { enableScripts: true });
+    UsagePanel.current = new UsagePanel(panel, store, options);
+  }
+
+  private async exportCsv() {
+    const saveUri = await vscode.window.showSaveDialog({
+      filters: { 'CSV': ['csv'] },
+      defaultUri: vscode.Uri.file(`banana-usage-${new Date().toISOString().slice(0, 10)}.csv`)
+    });
+    if (!saveUri) return;
+
+    fs.writeFileSync(saveUri.fsPath, toCsv(this.store.getAll()));
+    vscode.window.showInformationMessage(`Exported ${this.store.getAll().length} request(s) to ${saveUri.fsPath}`);
+  }
+
+  private async clear() {
+    const confirm = await vscode.window.showWarningMessage('Delete all recorded usage?', { modal: true }, 'Delete');
+    if (confirm === 'Delete') {
+      await this.store.clear();
+    }
+  }
+
+  private render() {
+    this.panel.webview.html = this.getHtml();
+  }
+
+  private getHtml(): string {
+    const records = this.store.getAll();
+    const now = new Date();
+    const monthTotals = this.store.getTotals(startOfMonth(now));
+    const budget = this.options.getMonthlyBudget();
+
+    const card = (label: string, totals: UsageTotals, extra = '') => `
+      <div class="card">
+        <div class="card-label">${label}</div>
+        <div class="card-cost">${formatCost(totals.cost)}</div>
+        <div class="card-detail">${totals.requests} request(s) · ${totals.images} image(s)</div>
+        ${extra}
+      </div>`;
+
+    const budgetHtml = budget > 0 ? `
+        <div class="budget ${monthTotals.cost >= budget ? 'over' : ''}">
+          <div class="budget-bar" style="width: ${Math.min(100, monthTotals.cost / budget * 100).toFixed(1)}%"></div>
+        </div>
+        <div class="card-detail">${formatCost(monthTotals.cost)} of ${formatCost(budget)} budget</div>` : '';
+
+    const table = (title: string, keyLabel: string, rows: Array<{ key: string; totals: UsageTotals }>) => `
+      <h2>${title}</h2>
+      ${rows.length === 0 ? '<p class="empty">No requests yet.</p>' : `
+      <table>
+        <tr><th>${keyLabel}</th><th>Requests</th><th>Images</th><th>Tokens</th><th>Cost</th></tr>
+        ${rows.map(row => `<tr>
+          <td>${escapeHtml(row.key)}</td>
+          <td>${row.totals.requests}</td>
+          <td>${row.totals.images}</td>
+          <td>${row.totals.tokens.toLocaleString()}</td>
+          <td>${formatCost(row.totals.cost)}</td>
+        </tr>`).join('')}
+      </table>`}`;
+
+    const lastDays = records.filter(r => Date.parse(r.timestamp) >= startOfDay(now).getTime() - 13 * DAY_MS);
+    const lastWeeks = records.filter(r => Date.parse(r.timestamp) >= startOfWeek(now).getTime() - 7 * 7 * DAY_MS);
+    const thisMonth = records.filter(r => Date.parse(r.timestamp) >= startOfMonth(now).getTime());
+    const byDate = (keyOf: (date: Date) => Date) => (r: UsageRecord) => keyOf(new Date(r.timestamp)).toLocaleDateString();
+    const newestFirst = (rows: Array<{ key: string; totals: UsageTotals }>, keyOf: (date: Date) => Date, source: UsageRecord[]) => {
+      const order = new Map(source.map(r => [keyOf(new Date(r.timestamp)).toLocaleDateString(), keyOf(new Date(r.timestamp)).getTime()]));
+      return rows.sort((a, b) => order.get(b.key)! - order.get(a.key)!);
+    };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Banana Usage</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      background: #1e1e1e;
+      color: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+    h1 {
+      font-size: 18px;
+      color: #ffd700;
+      margin-bottom: 10px;
+    }
+    h2 {
+      font-size: 14px;
+      color: #ffd700;
+      margin-top: 28px;
+    }
+    .note {
+      color: #888;
+      font-size: 12px;
+    }
+    .actions {
+      margin: 15px 0;
+    }
+    .btn {
+      padding: 8px 16px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      margin-right: 8px;
+      background: #444;
+      color: white;
+    }
+    .cards {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+      gap: 16px;
+    }
+    .card {
+      background: #2d2d2d;
+      border-radius: 8px;
+      padding: 16px;
+    }
+    .card-label {
+      color: #aaa;
+      font-size: 12px;
+    }
+    .card-cost {
+      font-size: 24px;
+      margin: 6px 0;
+    }
+    .card-detail {
+      color: #888;
+      font-size: 12px;
+    }
+    .budget {
+      height: 6px;
+      background: #444;
+      border-radius: 3px;
+      margin: 8px 0 4px;
+      overflow: hidden;
+    }
+    .budget-bar {
+      height: 100%;
+      background: #2a7a2a;
+    }
+    .budget.over .budget-bar {
+      background: #c42b1c;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+    }
+    th, td {
+      text-align: right;
+      padding: 6px 10px;
+      border-bottom: 1px solid #333;
+    }
+    th:first-child, td:first-child {
+      text-align: left;
+    }
+    th {
+      color: #aaa;
+      font-weight: normal;
+    }
+    .empty {
+      color: #888;
+    }
+  </style>
+</head>
+<body>
+  <h1>🍌 Banana Usage</h1>
+  <div class="note">Costs are estimates from the price table (<code>nanoBanana.usage.prices</code>) and may differ from your bill.</div>
+
+  <div class="actions">
+    <button class="btn" onclick="send('export')">📄 Export CSV</button>
+    <button class="btn" onclick="send('prices')">⚙️ Prices & Budget</button>
+    <button class="btn" onclick="send('clear')">🗑️ Clear</button>
+  </div>
+
+  <div class="cards">
+    ${card('Today', this.store.getTotals(startOfDay(now)))}
+    ${card('This week', this.store.getTotals(startOfWeek(now)))}
+    ${card('This month', monthTotals, budgetHtml)}
+  </div>
+
+  ${table('Daily (last 14 days)', 'Day', newestFirst(groupRecords(lastDays, byDate(startOfDay)), startOfDay, lastDays))}
+  ${table('Weekly (last 8 weeks)', 'Week of', newestFirst(groupRecords(lastWeeks, byDate(startOfWeek)), startOfWeek, lastWeeks))}
+  ${table('By command (this month)', 'Command', groupRecords(thisMonth, r => r.command ? this.options.getCommandTitle(r.command) : `Other (${r.operation})`))}
+  ${table('By model (this month)', 'Model', groupRecords(thisMonth, r => r.model))}
+
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    function send(command) {
+      vscode.postMessage({ command });
+    }
+  </script>
+</body>
+</html>`;
+  }
+}
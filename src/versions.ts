@@ -0,0 +1,320 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatAge } from './history';
+
+// ==================== TYPES ====================
+
+/** A previous content of a file, saved before an operation replaced it */
+export interface VersionEntry {
+  id: string;
+  /** ISO timestamp of when the file was replaced */
+  timestamp: string;
+  /** Operation that replaced this content, e.g. `redact`, `edit` or `restore` */
+  operation: string;
+  size: number;
+  /** Name of the copy inside the file's version folder */
+  fileName: string;
+}
+
+export interface VersionedFile {
+  filePath: string;
+  /** Newest first */
+  versions: VersionEntry[];
+}
+
+export interface VersionSettings {
+  /** Empty for extension storage; relative paths are resolved against the workspace folder */
+  folder: string;
+  /** Versions kept per file, 0 for no limit */
+  maxPerFile: number;
+  /** Days a version is kept, 0 for no limit */
+  maxAgeDays: number;
+}
+
+/** `versions.json` of a file's version folder */
+interface VersionIndex {
+  /** Relative to the workspace folder in a workspace store, absolute otherwise */
+  file: string;
+  versions: VersionEntry[];
+}
+
+interface Location {
+  root: string;
+  /** Workspace folder that stored paths are relative to */
+  base?: string;
+}
+
+const INDEX_FILE = 'versions.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== STORE ====================
+
+/**
+ * Stack of previous versions per file, saved before anything overwrites
+ * it. Versions live in extension storage or in `nanoBanana.versions.folder`,
+ * one folder per file holding the copies and an index, and are pruned by
+ * count and age.
+ */
+export class VersionStore {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly storageDir: string, private readonly settings: () => VersionSettings) {}
+
+  /**
+   * Keep the current content of a file before `operation` replaces it. Does
+   * nothing for missing files or content equal to the newest version.
+   */
+  save(filePath: string, operation: string): VersionEntry | undefined {
+    if (!fs.existsSync(filePath)) return undefined;
+
+    const dir = this.getFolder(filePath);
+    const index = this.readIndex(dir) ?? { file: this.toStoredPath(filePath), versions: [] };
+    const data = fs.readFileSync(filePath);
+
+    const newest = index.versions[0];
+    const newestPath = newest && path.join(dir, newest.fileName);
+    if (newestPath && fs.existsSync(newestPath) && fs.readFileSync(newestPath).equals(data)) {
+      return undefined;
+    }
+
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const entry: VersionEntry = {
+      id,
+      timestamp: new Date().toISOString(),
+      operation,
+      size: data.length,
+      fileName: `${id}${path.extname(filePath).toLowerCase()}`
+    };
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, entry.fileName), data);
+    index.versions.unshift(entry);
+    this.writeIndex(dir, this.pruneIndex(dir, index));
+
+    this.changeEmitter.fire();
+    return entry;
+  }
+
+  /** Newest first */
+  list(filePath: string): VersionEntry[] {
+    return this.readIndex(this.getFolder(filePath))?.versions ?? [];
+  }
+
+  getVersionPath(filePath: string, entry: VersionEntry): string {
+    return path.join(this.getFolder(filePath), entry.fileName);
+  }
+
+  /** Every file with versions, most recently changed first */
+  getFiles(): VersionedFile[] {
+    const files: VersionedFile[] = [];
+    for (const location of this.getLocations()) {
+      if (!fs.existsSync(location.root)) continue;
+
+      for (const name of fs.readdirSync(location.root)) {
+        const index = this.readIndex(path.join(location.root, name));
+        if (!index || index.versions.length === 0) continue;
+        files.push({
+          filePath: location.base ? path.join(location.base, index.file) : index.file,
+          versions: index.versions
+        });
+      }
+    }
+    return files.sort((a, b) => b.versions[0].timestamp.localeCompare(a.versions[0].timestamp));
+  }
+
+  /** Put a version back, saving the current content as a version first so the restore can be undone */
+  restore(filePath: string, entry: VersionEntry) {
+    const versionPath = this.getVersionPath(filePath, entry);
+    if (!fs.existsSync(versionPath)) {
+      throw new Error('The version file no longer exists.');
+    }
+
+    const data = fs.readFileSync(versionPath);
+    this.save(filePath, 'restore');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, data);
+    this.changeEmitter.fire();
+  }
+
+  remove(filePath: string, entry: VersionEntry) {
+    const dir = this.getFolder(filePath);
+    const index = this.readIndex(dir);
+    if (!index) return;
+
+    fs.rmSync(path.join(dir, entry.fileName), { force: true });
+    index.versions = index.versions.filter(v => v.id !== entry.id);
+    this.writeIndex(dir, index);
+    this.changeEmitter.fire();
+  }
+
+  removeAll(filePath: string) {
+    fs.rmSync(this.getFolder(filePath), { recursive: true, force: true });
+    this.changeEmitter.fire();
+  }
+
+  /** Apply the count and age limits to every file and return how many versions were deleted */
+  prune(): number {
+    let removed = 0;
+    for (const location of this.getLocations()) {
+      if (!fs.existsSync(location.root)) continue;
+
+      for (const name of fs.readdirSync(location.root)) {
+        const dir = path.join(location.root, name);
+        const index = this.readIndex(dir);
+        if (!index) continue;
+
+        const pruned = this.pruneIndex(dir, index);
+        removed += index.versions.length - pruned.versions.length;
+        this.writeIndex(dir, pruned);
+      }
+    }
+
+    if (removed > 0) this.changeEmitter.fire();
+    return removed;
+  }
+
+  /** Folders versions are kept in, e.g. for webview resource roots */
+  getRoots(): string[] {
+    return this.getLocations().map(location => location.root);
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+
+  /** Drop the versions over the limits, deleting their copies */
+  private pruneIndex(dir: string, index: VersionIndex): VersionIndex {
+    const { maxPerFile, maxAgeDays } = this.settings();
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : 0;
+
+    const kept = index.versions.filter((v, i) =>
+      (maxPerFile <= 0 || i < maxPerFile) && new Date(v.timestamp).getTime() >= cutoff);
+    for (const version of index.versions.filter(v => !kept.includes(v))) {
+      fs.rmSync(path.join(dir, version.fileName), { force: true });
+    }
+    return { ...index, versions: kept };
+  }
+
+  private getLocation(filePath?: string): Location {
+    const folder = this.settings().folder.trim();
+    if (!folder) return { root: path.join(this.storageDir, 'versions') };
+    if (path.isAbsolute(folder)) return { root: folder };
+
+    const workspace = (filePath && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))) || vscode.workspace.workspaceFolders?.[0];
+    if (!workspace) return { root: path.join(this.storageDir, 'versions') };
+    return { root: path.join(workspace.uri.fsPath, folder), base: workspace.uri.fsPath };
+  }
+
+  /** Stores that may hold versions: one per workspace folder for a relative folder setting */
+  private getLocations(): Location[] {
+    const folder = this.settings().folder.trim();
+    if (!folder || path.isAbsolute(folder) || !vscode.workspace.workspaceFolders?.length) {
+      return [this.getLocation()];
+    }
+    return vscode.workspace.workspaceFolders.map(w => ({ root: path.join(w.uri.fsPath, folder), base: w.uri.fsPath }));
+  }
+
+  private toStoredPath(filePath: string, location = this.getLocation(filePath)): string {
+    const normalized = path.normalize(filePath);
+    return location.base ? path.relative(location.base, normalized).split(path.sep).join('/') : normalized;
+  }
+
+  /** Version folder of a file, named after a hash of its stored path */
+  private getFolder(filePath: string): string {
+    const location = this.getLocation(filePath);
+    const key = crypto.createHash('sha1').update(this.toStoredPath(filePath, location)).digest('hex').slice(0, 16);
+    return path.join(location.root, key);
+  }
+
+  private readIndex(dir: string): VersionIndex | undefined {
+    try {
+      const index = JSON.parse(fs.readFileSync(path.join(dir, INDEX_FILE), 'utf8'));
+      return typeof index?.file === 'string' && Array.isArray(index.versions) ? index : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeIndex(dir: string, index: VersionIndex) {
+    if (index.versions.length === 0) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      return;
+    }
+    fs.writeFileSync(path.join(dir, INDEX_FILE), JSON.stringify(index, null, 2) + '\n');
+  }
+}
+
+// ==================== TREE VIEW ====================
+
+export type VersionNode =
+  | { kind: 'file'; filePath: string; versions: VersionEntry[] }
+  | { kind: 'version'; filePath: string; entry: VersionEntry };
+
+/** Files with versions, each expanding to its versions, newest first */
+export class VersionsTreeProvider implements vscode.TreeDataProvider<VersionNode> {
+  public static readonly viewId = 'nanoBananaVersions';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly store: VersionStore) {
+    store.onDidChange(() => this.changeEmitter.fire());
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  getChildren(element?: VersionNode): VersionNode[] {
+    if (!element) {
+      return this.store.getFiles().map(file => ({ kind: 'file', ...file }));
+    }
+    return element.kind === 'file'
+      ? this.store.list(element.filePath).map(entry => ({ kind: 'version', filePath: element.filePath, entry }))
+      : [];
+  }
+
+  getParent(element: VersionNode): VersionNode | undefined {
+    return element.kind === 'version'
+      ? { kind: 'file', filePath: element.filePath, versions: this.store.list(element.filePath) }
+      : undefined;
+  }
+
+  getTreeItem(node: VersionNode): vscode.TreeItem {
+    if (node.kind === 'file') {
+      const item = new vscode.TreeItem(path.basename(node.filePath), vscode.TreeItemCollapsibleState.Collapsed);
+      const exists = fs.existsSync(node.filePath);
+      item.id = `file:${node.filePath}`;
+      item.resourceUri = vscode.Uri.file(node.filePath);
+      const dir = path.dirname(vscode.workspace.asRelativePath(node.filePath));
+      item.description = `${node.versions.length} version(s)${dir === '.' ? '' : ` · ${dir}`}`;
+      item.iconPath = new vscode.ThemeIcon(exists ? 'file-media' : 'warning');
+      item.tooltip = `${vscode.workspace.asRelativePath(node.filePath)}${exists ? '' : ' (missing)'}`;
+      item.contextValue = 'versionedFile';
+      return item;
+    }
+
+    const { entry } = node;
+    const item = new vscode.TreeItem(`Before ${entry.operation}`, vscode.TreeItemCollapsibleState.None);
+    item.id = `${node.filePath}#${entry.id}`;
+    item.description = `${formatAge(entry.timestamp)} · ${formatSize(entry.size)}`;
+    item.iconPath = new vscode.ThemeIcon('history');
+    item.tooltip = `${path.basename(node.filePath)} before ${entry.operation}, replaced ${new Date(entry.timestamp).toLocaleString()} (${formatSize(entry.size)})`;
+    item.contextValue = 'version';
+    item.command = {
+      command: 'nanoBanana.versions.open',
+      title: 'Open',
+      arguments: [node]
+    };
+    return item;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
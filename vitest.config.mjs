@@ -0,0 +1,12 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The extension host provides `vscode`; tests get a stub of the parts the modules use
+    alias: { vscode: fileURLToPath(new URL('./src/test/vscode.ts', import.meta.url)) }
+  },
+  test: {
+    include: ['src/test/**/*.test.ts']
+  }
+});